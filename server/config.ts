@@ -0,0 +1,45 @@
+/**
+ * Server Config - Environment settings for the caching proxy, fake TfL and webhook receiver
+ * Everything has a local-friendly default, so `npm run server` works out of the box
+ */
+
+/**
+ * Reads a positive integer environment variable
+ *
+ * @param name - Variable name
+ * @param fallback - Value used when unset or invalid
+ */
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const PROXY_CONFIG = {
+  PORT: readNumber("PROXY_PORT", 8787),
+  TFL_API_BASE: process.env.TFL_API_BASE || "https://api.tfl.gov.uk",
+  TFL_APP_KEY: process.env.TFL_APP_KEY || undefined,   // Injected into upstream requests only
+  POLL_INTERVAL_MS: readNumber("POLL_INTERVAL_MS", 60 * 1000),
+  // Upstream breaker, in polls: pause after 3 failed polls in a row, skip the next 5
+  CIRCUIT_FAILURE_THRESHOLD: 3,
+  CIRCUIT_COOLDOWN_POLLS: 5,
+  CORS_ORIGIN: process.env.CORS_ORIGIN || "*",
+} as const;
+
+export const FAKE_TFL_CONFIG = {
+  PORT: readNumber("FAKE_TFL_PORT", 8788),
+  // Raw TfL-shaped payloads served as /Road/all/Disruption and /Road
+  DISRUPTIONS_FILE: process.env.FAKE_TFL_DISRUPTIONS || "public/fixtures/disruptions.json",
+  CORRIDORS_FILE: process.env.FAKE_TFL_CORRIDORS || "public/fixtures/corridors.json",
+  // Optional recorded session (public/fixtures/session.json format) - each request plays the next frame
+  SESSION_FILE: process.env.FAKE_TFL_SESSION || undefined,
+  // When set, requests without this app_key get 401 (checks key injection)
+  REQUIRED_APP_KEY: process.env.FAKE_TFL_APP_KEY || undefined,
+  // Fraction of requests answered with 503, to exercise retries and the breaker
+  FAILURE_RATE: Math.min(Math.max(Number(process.env.FAKE_TFL_FAILURE_RATE) || 0, 0), 1),
+} as const;
+
+export const WEBHOOK_RECEIVER_CONFIG = {
+  PORT: readNumber("WEBHOOK_RECEIVER_PORT", 8789),
+  // Fraction of posts answered with 503, to exercise webhook retries and the delivery log
+  FAILURE_RATE: Math.min(Math.max(Number(process.env.WEBHOOK_RECEIVER_FAILURE_RATE) || 0, 0), 1),
+} as const;
@@ -0,0 +1,132 @@
+/**
+ * Disruption Cache - Polls TfL on a schedule and keeps the latest validated feed
+ * Clients read from memory, so the upstream sees one request per interval
+ * no matter how many browser tabs are open
+ */
+import type { ProxySnapshot, RoadCorridor } from "../src/types/disruption";
+import { TflApiService } from "../src/services/tflApi";
+import { HttpError } from "../src/services/httpClient";
+import { computeEtag } from "./http";
+
+// Serialised response plus its ETag, ready to serve
+export interface CachedBody {
+  body: string;
+  etag: string;
+}
+
+export class DisruptionCache {
+  private readonly api: TflApiService;
+  private readonly pollIntervalMs: number;
+  private snapshot: ProxySnapshot | null = null;
+  private snapshotBody: CachedBody | null = null;
+  private corridorBody: CachedBody | null = null;
+  private lastError: string | null = null;
+  private retryAt = 0;                           // TfL asked us not to poll before this time (Retry-After)
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param api - TfL service (validation, conditional requests, retries and breaker included)
+   * @param pollIntervalMs - Time between upstream polls
+   */
+  constructor(api: TflApiService, pollIntervalMs: number) {
+    this.api = api;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  /**
+   * Polls immediately, then on every interval
+   */
+  start(): void {
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), this.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Fetches disruptions and corridors from TfL and updates the cache
+   *
+   * - 304 Not Modified only bumps checkedAt
+   * - Failures keep the previous data and mark it stale
+   * - A Retry-After from TfL skips the polls before that time
+   * - Corridor failures never affect the disruption snapshot
+   */
+  async refresh(): Promise<void> {
+    if (Date.now() < this.retryAt) return;
+    const checkedAt = new Date().toISOString();
+
+    try {
+      const update = await this.api.getTrafficDisruptions();
+      if (update.notModified) {
+        if (this.snapshot) this.setSnapshot({ ...this.snapshot, checkedAt, isStale: false });
+      } else {
+        this.setSnapshot({
+          disruptions: update.disruptions,
+          report: update.report,
+          fetchedAt: checkedAt,
+          checkedAt,
+          isStale: false,
+        });
+        console.log(`Cached ${update.report.accepted} disruptions (${update.report.rejected} rejected)`);
+      }
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      if (error instanceof HttpError && error.retryAfterMs !== null) {
+        this.retryAt = Date.now() + error.retryAfterMs;
+      }
+      console.error(`Disruption poll failed: ${this.lastError}`);
+      if (this.snapshot) this.setSnapshot({ ...this.snapshot, checkedAt, isStale: true });
+    }
+
+    try {
+      this.setCorridors(await this.api.getRoadCorridors());
+    } catch (error) {
+      console.error("Corridor poll failed:", error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Latest disruption snapshot, or null before the first successful poll
+  getSnapshotBody(): CachedBody | null {
+    return this.snapshotBody;
+  }
+
+  // Latest corridor list, or null before the first successful poll
+  getCorridorBody(): CachedBody | null {
+    return this.corridorBody;
+  }
+
+  /**
+   * Summary for /api/health - cache age, last error and upstream breaker state
+   */
+  getHealth() {
+    return {
+      status: this.snapshot && !this.snapshot.isStale ? "ok" : "degraded",
+      fetchedAt: this.snapshot?.fetchedAt ?? null,
+      checkedAt: this.snapshot?.checkedAt ?? null,
+      disruptionCount: this.snapshot?.disruptions.length ?? 0,
+      lastError: this.lastError,
+      circuit: this.api.circuitBreaker.getSnapshot(),
+    };
+  }
+
+  private setSnapshot(snapshot: ProxySnapshot): void {
+    this.snapshot = snapshot;
+    const body = JSON.stringify(snapshot);
+    // ETag leaves out the timestamps - a 304 from TfL shouldn't make every client re-download
+    const etag = computeEtag(JSON.stringify([
+      snapshot.disruptions,
+      snapshot.report.rejectedRecords,
+      snapshot.isStale,
+    ]));
+    this.snapshotBody = { body, etag };
+  }
+
+  private setCorridors(corridors: RoadCorridor[]): void {
+    const body = JSON.stringify(corridors);
+    this.corridorBody = { body, etag: computeEtag(body) };
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Fake TfL - Local stand-in for the TfL Unified API
+ *
+ * Serves fixture files as /Road/all/Disruption and /Road with ETags, so the
+ * caching proxy can be run and tested without network access or an app_key.
+ * Optional knobs (see FAKE_TFL_CONFIG): replay a recorded session one frame
+ * per request, require a specific app_key, and fail a share of requests.
+ */
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import type { RecordedSession } from "../src/services/replaySource";
+import { FAKE_TFL_CONFIG } from "./config";
+import { computeEtag, sendCachedJson, sendJson } from "./http";
+
+/**
+ * Reads and parses a JSON file relative to the working directory
+ */
+const readJson = (file: string): unknown => JSON.parse(readFileSync(file, "utf-8"));
+
+const session = FAKE_TFL_CONFIG.SESSION_FILE
+  ? (readJson(FAKE_TFL_CONFIG.SESSION_FILE) as RecordedSession)
+  : null;
+let nextFrame = 0;
+
+/**
+ * Returns the disruption payload for this request
+ * Sessions advance one frame per request and then stay on the last frame
+ */
+const nextDisruptionPayload = (): unknown => {
+  if (!session) return readJson(FAKE_TFL_CONFIG.DISRUPTIONS_FILE);
+
+  const frame = session.frames[Math.min(nextFrame, session.frames.length - 1)];
+  nextFrame += 1;
+  return frame.payload;
+};
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const appKey = url.searchParams.get("app_key");
+  console.log(`${req.method} ${url.pathname}${appKey ? " (app_key present)" : ""}`);
+
+  if (FAKE_TFL_CONFIG.REQUIRED_APP_KEY && appKey !== FAKE_TFL_CONFIG.REQUIRED_APP_KEY) {
+    sendJson(res, 401, { message: "Invalid app_key" });
+    return;
+  }
+
+  if (Math.random() < FAKE_TFL_CONFIG.FAILURE_RATE) {
+    sendJson(res, 503, { message: "Simulated outage" }, { "Retry-After": "1" });
+    return;
+  }
+
+  // Paths are case-insensitive on the real API
+  const path = url.pathname.toLowerCase().replace(/\/+$/, "");
+  let payload: unknown;
+  if (path === "/road/all/disruption") payload = nextDisruptionPayload();
+  else if (path === "/road") payload = readJson(FAKE_TFL_CONFIG.CORRIDORS_FILE);
+  else {
+    sendJson(res, 404, { message: `No fake for ${url.pathname}` });
+    return;
+  }
+
+  const body = JSON.stringify(payload);
+  sendCachedJson(req, res, body, computeEtag(body));
+});
+
+server.listen(FAKE_TFL_CONFIG.PORT, () => {
+  console.log(`Fake TfL listening on http://localhost:${FAKE_TFL_CONFIG.PORT}`);
+  console.log(session
+    ? `Replaying ${session.frames.length} frames from ${FAKE_TFL_CONFIG.SESSION_FILE}`
+    : `Serving ${FAKE_TFL_CONFIG.DISRUPTIONS_FILE}`);
+});
@@ -0,0 +1,56 @@
+/**
+ * Server HTTP helpers - JSON responses with ETag-based conditional GET
+ * Shared by the caching proxy and the fake TfL server
+ */
+import { createHash } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+/**
+ * Computes a strong ETag for a response body
+ *
+ * @param body - Serialised response body
+ * @returns Quoted ETag value
+ */
+export const computeEtag = (body: string): string =>
+  `"${createHash("sha1").update(body).digest("base64url")}"`;
+
+/**
+ * Sends a JSON body, or 304 when the client already has this exact version
+ *
+ * @param req - Incoming request (If-None-Match is checked)
+ * @param res - Response to write
+ * @param body - Pre-serialised JSON
+ * @param etag - ETag of body (from computeEtag)
+ * @param headers - Extra headers, e.g. CORS or Last-Modified
+ */
+export const sendCachedJson = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: string,
+  etag: string,
+  headers: Record<string, string> = {}
+): void => {
+  const cacheHeaders = { ...headers, ETag: etag, "Cache-Control": "no-cache" };
+
+  if (req.headers["if-none-match"] === etag) {
+    res.writeHead(304, cacheHeaders);
+    res.end();
+    return;
+  }
+
+  res.writeHead(200, { ...cacheHeaders, "Content-Type": "application/json; charset=utf-8" });
+  res.end(body);
+};
+
+/**
+ * Sends an uncached JSON body (errors, health checks)
+ */
+export const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void => {
+  res.writeHead(status, { ...headers, "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+};
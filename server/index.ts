@@ -0,0 +1,87 @@
+/**
+ * Caching Proxy - Serves the TfL disruption feed to the frontend
+ *
+ * Polls TfL on a schedule (with the app_key injected here, never in the browser),
+ * validates the data with the same code as the frontend and serves it from memory:
+ *   GET /api/disruptions  ProxySnapshot (ETag / If-None-Match supported)
+ *   GET /api/corridors    RoadCorridor[]
+ *   GET /api/health       Cache age, last error and upstream circuit breaker state
+ */
+import { createServer } from "node:http";
+import { TflApiService } from "../src/services/tflApi";
+import { DisruptionCache, type CachedBody } from "./disruptionCache";
+import { PROXY_CONFIG } from "./config";
+import { sendCachedJson, sendJson } from "./http";
+
+const cache = new DisruptionCache(
+  new TflApiService(PROXY_CONFIG.TFL_API_BASE, PROXY_CONFIG.TFL_APP_KEY, {
+    failureThreshold: PROXY_CONFIG.CIRCUIT_FAILURE_THRESHOLD,
+    // Half a poll extra, so the trial lands on a poll rather than just before it
+    cooldownMs: (PROXY_CONFIG.CIRCUIT_COOLDOWN_POLLS + 0.5) * PROXY_CONFIG.POLL_INTERVAL_MS,
+  }),
+  PROXY_CONFIG.POLL_INTERVAL_MS
+);
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": PROXY_CONFIG.CORS_ORIGIN,
+  "Access-Control-Allow-Headers": "If-None-Match, If-Modified-Since",
+  "Access-Control-Expose-Headers": "ETag",
+};
+
+// Cached endpoints, resolved on every request so they always serve the latest data
+const cachedRoutes: Record<string, () => CachedBody | null> = {
+  "/api/disruptions": () => cache.getSnapshotBody(),
+  "/api/corridors": () => cache.getCorridorBody(),
+};
+
+const server = createServer((req, res) => {
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "Method not allowed" }, corsHeaders);
+    return;
+  }
+
+  if (path === "/api/health") {
+    sendJson(res, 200, cache.getHealth(), corsHeaders);
+    return;
+  }
+
+  const route = cachedRoutes[path];
+  if (!route) {
+    sendJson(res, 404, { error: `Unknown endpoint ${path}` }, corsHeaders);
+    return;
+  }
+
+  const cached = route();
+  if (!cached) {
+    // First poll hasn't succeeded yet - tell clients when to come back
+    sendJson(res, 503, { error: "Disruption data not available yet" }, {
+      ...corsHeaders,
+      "Retry-After": String(Math.ceil(PROXY_CONFIG.POLL_INTERVAL_MS / 1000)),
+    });
+    return;
+  }
+
+  sendCachedJson(req, res, cached.body, cached.etag, corsHeaders);
+});
+
+server.listen(PROXY_CONFIG.PORT, () => {
+  console.log(`Caching proxy listening on http://localhost:${PROXY_CONFIG.PORT}`);
+  console.log(`Polling ${PROXY_CONFIG.TFL_API_BASE} every ${PROXY_CONFIG.POLL_INTERVAL_MS / 1000}s` +
+    (PROXY_CONFIG.TFL_APP_KEY ? " with app_key" : " without app_key"));
+  cache.start();
+});
+
+// Stop polling on Ctrl+C / container shutdown
+const shutdown = () => {
+  cache.stop();
+  server.close(() => process.exit(0));
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,59 @@
+/**
+ * Webhook Receiver - Local endpoint for trying out webhook targets
+ *
+ * Accepts POSTs on any path and prints each payload, so Slack, Teams and
+ * JSON targets can be checked without a real workspace. Point a target at
+ * http://localhost:8789/<anything>. Answers CORS preflights, since the
+ * browser posts straight from the page. Set WEBHOOK_RECEIVER_FAILURE_RATE to
+ * fail a share of posts and watch retries in the delivery log.
+ */
+import { createServer } from "node:http";
+import { WEBHOOK_RECEIVER_CONFIG } from "./config";
+import { sendJson } from "./http";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+let received = 0;
+
+const server = createServer((req, res) => {
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+  if (req.method !== "POST") {
+    sendJson(res, 405, { error: "Method not allowed" }, corsHeaders);
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk: Buffer) => chunks.push(chunk));
+  req.on("end", () => {
+    received += 1;
+    const body = Buffer.concat(chunks).toString("utf-8");
+
+    if (Math.random() < WEBHOOK_RECEIVER_CONFIG.FAILURE_RATE) {
+      console.log(`#${received} POST ${path} -> 503 (simulated failure)`);
+      sendJson(res, 503, { error: "Simulated outage" }, { ...corsHeaders, "Retry-After": "1" });
+      return;
+    }
+
+    console.log(`#${received} POST ${path} (${req.headers["content-type"] ?? "no content type"})`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    sendJson(res, 200, { ok: true }, corsHeaders);
+  });
+});
+
+server.listen(WEBHOOK_RECEIVER_CONFIG.PORT, () => {
+  console.log(`Webhook receiver listening on http://localhost:${WEBHOOK_RECEIVER_CONFIG.PORT}`);
+});
@@ -3,54 +3,132 @@ import { AppHeader } from './components/AppHeader';
 import { Sidebar } from './components/Sidebar';
 import { MapSection } from './components/MapSection';
 import { LoadingSpinner, ErrorMessage } from './components/LoadingComponents';
-import { AlertSystem, useAlerts } from './components/AlertSystem';
+import { StaleDataBanner } from './components/StaleDataBanner';
+import { HistoryTimeline } from './components/HistoryTimeline';
+import { AlertSystem, type AlertOptions } from './components/AlertSystem';
+import { useAlerts } from './hooks/useAlerts';
 import { useDisruptions } from './hooks/useDisruptions';
+import { useClock } from './hooks/useClock';
 import { useUIState } from './hooks/useUIState';
-import { useEffect } from 'react';
+import { useRoadCorridors } from './hooks/useRoadCorridors';
+import { useDisruptionHistory } from './hooks/useDisruptionHistory';
+import { useActivityFeed } from './hooks/useActivityFeed';
+import { useWatchZones } from './hooks/useWatchZones';
+import { useSavedWatches } from './hooks/useSavedWatches';
+import { useSystemNotifications } from './hooks/useSystemNotifications';
+import { useAnnouncements } from './hooks/useAnnouncements';
+import { useAlertRules } from './hooks/useAlertRules';
+import { useWebhooks } from './hooks/useWebhooks';
+import { useMutes } from './hooks/useMutes';
+import { useIncidentLog } from './hooks/useIncidentLog';
+import type { ActivityEntry } from './types/disruption';
+import { useEffect, useState } from 'react';
+import { getQueryHighlightText } from './utils/queryLanguage';
 
 function App() {
   // Initialize alert system
   const { 
     alerts, 
+    queuedCount,
+    history: alertHistory,
+    unreadCount,
     removeAlert, 
     showError, 
     showWarning, 
     showInfo, 
-    showSuccess 
+    showSuccess,
+    markRead,
+    markAllRead,
+    clearHistory
   } = useAlerts();
 
+  // Notification centre dropdown in the header
+  const [isNotificationCentreOpen, setIsNotificationCentreOpen] = useState(false);
+
   // Show alert function for components
   const handleShowAlert = (
     type: 'error' | 'warning' | 'info' | 'success', 
     title: string, 
-    message: string
+    message: string,
+    options?: AlertOptions
   ) => {
     switch (type) {
       case 'error':
-        showError(title, message);
+        showError(title, message, options);
         break;
       case 'warning':
-        showWarning(title, message);
+        showWarning(title, message, options);
         break;
       case 'info':
-        showInfo(title, message);
+        showInfo(title, message, options);
         break;
       case 'success':
-        showSuccess(title, message);
+        showSuccess(title, message, options);
         break;
     }
   };
 
+  // Current time, ticking every minute so time filters and card labels move on between refreshes
+  const clock = useClock();
+
   // Fetch traffic data and manage filters
   const { 
     disruptions, 
+    allDisruptions,
     loadingState, 
     filters, 
     updateFilters, 
     refreshData, 
     lastUpdated,
-    disruptionCounts 
-  } = useDisruptions(handleShowAlert);
+    disruptionCounts,
+    facets,
+    validationReport,
+    sourceLabel,
+    isLiveSource,
+    circuitState,
+    staleSince,
+    changeSet
+  } = useDisruptions(handleShowAlert, clock);
+  
+  // Corridor statuses joined with the current disruptions
+  const { corridorSummaries } = useRoadCorridors(allDisruptions, lastUpdated);
+
+  // Timeline playback of recorded refreshes
+  const history = useDisruptionHistory(filters, lastUpdated);
+
+  // Session-long "what changed" feed
+  const { entries: activityEntries } = useActivityFeed(changeSet);
+
+  // Snoozed and muted disruptions, then the operator incident log; alerts below
+  // only see changes to disruptions that are neither muted nor acknowledged
+  const mutes = useMutes(changeSet, allDisruptions);
+  const incidentLog = useIncidentLog(changeSet, mutes.alertableChangeSet);
+  const { alertableChangeSet } = incidentLog;
+
+  // User-drawn watch zones, alerting on disruptions entering them
+  const { zones, zoneSummaries, addZone, removeZone } = useWatchZones(alertableChangeSet, allDisruptions, handleShowAlert);
+
+  // Watched roads and saved searches, notifying on matching changes
+  const { watches, watchSummaries, isWatched, addWatch, removeWatch } = useSavedWatches(alertableChangeSet, allDisruptions, handleShowAlert);
+
+  // User-defined alert rules, evaluated against every refresh
+  const { rules: alertRules, saveRule, removeRule } = useAlertRules(alertableChangeSet, zones, handleShowAlert);
+
+  // Chat and incident tool webhooks, posted to on every refresh
+  const webhooks = useWebhooks(alertableChangeSet, zones, allDisruptions, handleShowAlert);
+
+  // Map and list show the replayed moment while the timeline is open;
+  // muted disruptions are dimmed there, or left out when the user hides them
+  const timelineDisruptions = history.isActive ? history.historicalDisruptions : disruptions;
+  const viewDisruptions = mutes.hideMuted
+    ? timelineDisruptions.filter(disruption => !mutes.mutedIds.has(disruption.id))
+    : timelineDisruptions;
+  // Free text and road/street/location values of the search, highlighted in map popups
+  const searchHighlight = getQueryHighlightText(filters.searchQuery);
+  const viewCounts = history.isActive ? history.historicalCounts : disruptionCounts;
+  const viewFacets = history.isActive ? history.historicalFacets : facets;
+  // "Now" for card labels - the replayed moment, matching the time filters
+  const viewTime = history.referenceTime ?? clock;
   
   // Handle sidebar and selection state
   const {
@@ -61,6 +139,22 @@ function App() {
     toggleSidebar
   } = useUIState(updateFilters);
 
+  // Select the live version of a disruption from the activity feed
+  // (cleared ones fall back to their last known version)
+  const handleActivitySelect = (entry: ActivityEntry) => {
+    const live = allDisruptions.find(disruption => disruption.id === entry.disruption.id);
+    handleDisruptionSelect(live ?? entry.disruption);
+  };
+
+  // Desktop alerts from the notification service worker; clicking one selects its disruption
+  const notifications = useSystemNotifications(watches, mutes.mutes, incidentLog.acknowledgedRecords, handleShowAlert, (disruptionId) => {
+    const disruption = allDisruptions.find(item => item.id === disruptionId);
+    if (disruption) handleDisruptionSelect(disruption);
+  });
+
+  // Spoken announcements for control-room screens
+  const announcements = useAnnouncements(alertableChangeSet, handleShowAlert);
+
   // Handle data loading errors and show alerts
   useEffect(() => {
     if (loadingState.error) {
@@ -100,20 +194,28 @@ function App() {
     refreshData();
   };
 
-  // Early return: show loading state
-  if (loadingState.isLoading) {
+  // Data to show even without a fresh feed: an earlier load or the saved snapshot
+  const hasDataToShow = !!lastUpdated || !!staleSince;
+
+  // Early return: show loading state (first load only - refreshes keep the current view)
+  if (loadingState.isLoading && !hasDataToShow) {
     return <LoadingSpinner />;
   }
 
-  // Early return: show error state with retry option
-  if (loadingState.error) {
+  // Early return: show error state with retry option (nothing loaded or saved to fall back on)
+  if (loadingState.error && !hasDataToShow) {
     return <ErrorMessage error={loadingState.error} onRetry={refreshData} />;
   }
 
   return (
     <div className="h-screen bg-slate-50 flex flex-col overflow-hidden">
       {/* Alert System - positioned fixed at top-right */}
-      <AlertSystem alerts={alerts} onDismiss={removeAlert} />
+      <AlertSystem
+        alerts={alerts}
+        queuedCount={queuedCount}
+        onDismiss={removeAlert}
+        onShowQueued={() => setIsNotificationCentreOpen(true)}
+      />
       
       {/* Header: logo, refresh button, status indicators */}
       <AppHeader 
@@ -123,8 +225,51 @@ function App() {
         lastUpdated={lastUpdated}
         hasError={!!loadingState.error}
         errorMessage={loadingState.error || undefined}
+        demoSourceLabel={isLiveSource ? undefined : sourceLabel}
+        circuitState={circuitState}
+        isHistoryActive={history.isActive}
+        onToggleHistory={history.toggleHistory}
+        isNotificationsActive={notifications.isActive}
+        onToggleNotifications={notifications.isActive ? notifications.disable : notifications.enable}
+        alertHistory={alertHistory}
+        unreadAlertCount={unreadCount}
+        isNotificationCentreOpen={isNotificationCentreOpen}
+        onToggleNotificationCentre={() => setIsNotificationCentreOpen(open => !open)}
+        onMarkAlertRead={markRead}
+        onMarkAllAlertsRead={markAllRead}
+        onClearAlertHistory={clearHistory}
+        announcementSettings={announcements.settings}
+        announcementVoices={announcements.voices}
+        isSpeechSupported={announcements.isSupported}
+        onEnableAnnouncements={announcements.enable}
+        onDisableAnnouncements={announcements.disable}
+        onAnnouncementSettingsChange={announcements.updateSettings}
+        onTestAnnouncement={announcements.testAnnouncement}
         onShowAlert={handleShowAlert}
       />
+
+      {/* History timeline: replays recorded refreshes in place of live data */}
+      {history.isActive && (
+        <HistoryTimeline
+          times={history.times}
+          activeTime={history.activeTime}
+          disruptionCount={history.snapshot?.disruptions.length ?? 0}
+          retentionHours={history.retentionHours}
+          onSelectTime={history.selectTime}
+          onRetentionChange={history.updateRetention}
+          onClose={history.toggleHistory}
+        />
+      )}
+
+      {/* Stale data banner: saved snapshot on startup, or old data after a failed refresh */}
+      {staleSince && !history.isActive && (
+        <StaleDataBanner
+          staleSince={staleSince}
+          hasError={!!loadingState.error}
+          isLoading={loadingState.isLoading}
+          onRetry={refreshData}
+        />
+      )}
       
       {/* Main layout: sidebar + map */}
       <main className="flex-1 flex overflow-hidden relative">
@@ -135,19 +280,56 @@ function App() {
           filters={filters}
           onFiltersChange={updateFilters}
           onClearAll={handleClearAll}
-          disruptions={disruptions}
+          disruptions={viewDisruptions}
           selectedDisruption={selectedDisruption}
           onDisruptionSelect={handleDisruptionSelect}
-          disruptionCounts={disruptionCounts}
+          disruptionCounts={viewCounts}
+          facets={viewFacets}
+          validationReport={validationReport}
+          corridorSummaries={corridorSummaries}
+          readOnly={history.isActive}
+          now={viewTime}
+          activityEntries={activityEntries}
+          onActivitySelect={handleActivitySelect}
+          watchSummaries={watchSummaries}
+          isSearchWatched={isWatched(filters.searchQuery)}
+          onWatchSearch={addWatch}
+          onRemoveWatch={removeWatch}
+          mutes={mutes.mutes}
+          mutedIds={mutes.mutedIds}
+          hideMuted={mutes.hideMuted}
+          onHideMutedChange={mutes.setHideMuted}
+          onMute={mutes.mute}
+          onUnmute={mutes.unmute}
+          onUnmuteAll={mutes.unmuteAll}
+          incidents={incidentLog.recordsById}
+          onIncidentAction={incidentLog.recordAction}
+          onExportIncidents={incidentLog.exportLog}
+          alertRules={alertRules}
+          watchZones={zones}
+          onSaveAlertRule={saveRule}
+          onDeleteAlertRule={removeRule}
+          webhookTargets={webhooks.targets}
+          webhookDeliveries={webhooks.deliveries}
+          onSaveWebhookTarget={webhooks.saveTarget}
+          onDeleteWebhookTarget={webhooks.removeTarget}
+          onSendTestWebhook={webhooks.sendTest}
+          onClearWebhookDeliveries={webhooks.clearDeliveries}
           onShowAlert={handleShowAlert}
         />
         
         {/* Map: interactive display with markers */}
         <MapSection
-          disruptions={disruptions}
+          disruptions={viewDisruptions}
           selectedDisruption={selectedDisruption}
           onDisruptionSelect={handleDisruptionSelect}
-          disruptionCounts={disruptionCounts}
+          disruptionCounts={viewCounts}
+          readOnly={history.isActive}
+          mutedIds={mutes.mutedIds}
+          searchQuery={searchHighlight}
+          zoneSummaries={zoneSummaries}
+          onZoneCreate={addZone}
+          onZoneDelete={removeZone}
         />
       </main>
     </div>
@@ -0,0 +1,77 @@
+import type { ActivityEntry, Disruption } from '../types/disruption';
+import { formatCaptureTime, getActivityConfig } from '../utils/disruptionUtils';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface ActivityFeedProps {
+  entries: ActivityEntry[];                      // Newest first
+  selectedDisruption: Disruption | null;
+  onEntrySelect: (entry: ActivityEntry) => void;
+}
+
+/**
+ * ActivityFeed Component
+ * 
+ * Session-long "what changed" feed shown as a sidebar tab:
+ * - One line per change: appeared, escalated, de-escalated, update changed, cleared
+ * - Severity transitions ("Moderate → Serious") and the new update text
+ * - Time of the refresh that detected the change
+ * - Click an entry to select the disruption on the map and in the list
+ */
+export const ActivityFeed = ({ entries, selectedDisruption, onEntrySelect }: ActivityFeedProps) => {
+  if (entries.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-8">
+        <div className="text-center">
+          <h3 className="text-base font-medium text-gray-900 mb-2">{TEXT_CONSTANTS[72]}</h3>
+          <p className="text-sm text-gray-500">{TEXT_CONSTANTS[73]}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+      {entries.map(entry => {
+        const config = getActivityConfig(entry.type);
+        const { disruption } = entry;
+        const isSelected = selectedDisruption?.id === disruption.id;
+
+        return (
+          <li key={entry.key}>
+            <button
+              onClick={() => onEntrySelect(entry)}
+              className={`
+                w-full text-left px-4 py-3 transition-colors duration-150
+                ${isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'}
+              `}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className={`flex items-center gap-2 text-xs font-semibold uppercase tracking-wide ${config.textColor}`}>
+                  <span className={`w-2 h-2 rounded-full ${config.dotColor}`} />
+                  {config.label}
+                  {entry.previousSeverity && (
+                    <span className="normal-case font-medium text-gray-600">
+                      {entry.previousSeverity} → {disruption.severity}
+                    </span>
+                  )}
+                  {entry.type === 'appeared' && (
+                    <span className="normal-case font-medium text-gray-600">{disruption.severity}</span>
+                  )}
+                </span>
+                <time className="text-xs text-gray-400 flex-shrink-0" dateTime={entry.detectedAt}>
+                  {formatCaptureTime(new Date(entry.detectedAt))}
+                </time>
+              </div>
+              <p className={`mt-1 text-sm font-medium ${entry.type === 'cleared' ? 'text-gray-500' : 'text-gray-900'}`}>
+                {disruption.location}
+              </p>
+              {entry.type === 'update-changed' && (
+                <p className="mt-0.5 text-xs text-gray-600 line-clamp-2">{disruption.currentUpdate}</p>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
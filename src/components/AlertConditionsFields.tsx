@@ -0,0 +1,159 @@
+import type { AlertRuleConditions, AlertRuleTrigger, Disruption, WatchZone } from '../types/disruption';
+import { TRIGGER_LABELS } from '../utils/alertRules';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface AlertConditionsFieldsProps {
+  conditions: AlertRuleConditions;
+  zones: WatchZone[];                            // Watch zones the conditions can be limited to
+  categoryText: string;                          // Comma-separated, split on save
+  keywordText: string;                           // Comma-separated, split on save
+  onConditionsChange: (changes: Partial<AlertRuleConditions>) => void;
+  onCategoryTextChange: (value: string) => void;
+  onKeywordTextChange: (value: string) => void;
+  triggerLabel?: string;                         // Heading of the kind-of-change chips
+}
+
+const TRIGGERS = Object.keys(TRIGGER_LABELS) as AlertRuleTrigger[];
+
+const SEVERITIES: Disruption['severity'][] = ['Serious', 'Moderate', 'Minimal'];
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+const chipClassName = (isActive: boolean) => `
+  px-2 py-1 rounded-full text-xs font-medium border transition-colors
+  ${isActive ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'}
+`;
+
+/**
+ * Adds or removes a value from a list (for chip toggles)
+ */
+const toggleValue = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+/**
+ * AlertConditionsFields Component
+ * 
+ * Form fields for a set of change conditions, shared by the alert rule and
+ * webhook target editors: kind of change, severity, categories, keywords,
+ * watch zone and time of day. Categories and keywords are edited as text so
+ * typing commas doesn't fight the parsing; the parent splits them on save.
+ */
+export const AlertConditionsFields = ({
+  conditions,
+  zones,
+  categoryText,
+  keywordText,
+  onConditionsChange,
+  onCategoryTextChange,
+  onKeywordTextChange,
+  triggerLabel = TEXT_CONSTANTS[140]
+}: AlertConditionsFieldsProps) => (
+  <>
+    <fieldset className="space-y-1">
+      <legend className="text-xs font-medium text-gray-600">{triggerLabel}</legend>
+      <div className="flex flex-wrap gap-1">
+        {TRIGGERS.map(trigger => (
+          <button
+            key={trigger}
+            type="button"
+            onClick={() => onConditionsChange({ triggers: toggleValue(conditions.triggers, trigger) })}
+            className={chipClassName(conditions.triggers.includes(trigger))}
+            aria-pressed={conditions.triggers.includes(trigger)}
+          >
+            {TRIGGER_LABELS[trigger]}
+          </button>
+        ))}
+      </div>
+      {conditions.triggers.length === 0 && (
+        <p className="text-xs text-red-600">{TEXT_CONSTANTS[164]}</p>
+      )}
+    </fieldset>
+
+    <fieldset className="space-y-1">
+      <legend className="text-xs font-medium text-gray-600">{TEXT_CONSTANTS[141]}</legend>
+      <div className="flex flex-wrap gap-1">
+        {SEVERITIES.map(severity => (
+          <button
+            key={severity}
+            type="button"
+            onClick={() => onConditionsChange({ severities: toggleValue(conditions.severities, severity) })}
+            className={chipClassName(conditions.severities.includes(severity))}
+            aria-pressed={conditions.severities.includes(severity)}
+          >
+            {severity}
+          </button>
+        ))}
+      </div>
+    </fieldset>
+
+    <label className="block text-xs font-medium text-gray-600 space-y-1">
+      <span>{TEXT_CONSTANTS[142]}</span>
+      <input
+        type="text"
+        value={categoryText}
+        onChange={event => onCategoryTextChange(event.target.value)}
+        placeholder={TEXT_CONSTANTS[143]}
+        className={inputClassName}
+      />
+    </label>
+
+    <label className="block text-xs font-medium text-gray-600 space-y-1">
+      <span>{TEXT_CONSTANTS[144]}</span>
+      <input
+        type="text"
+        value={keywordText}
+        onChange={event => onKeywordTextChange(event.target.value)}
+        placeholder={TEXT_CONSTANTS[145]}
+        className={inputClassName}
+      />
+    </label>
+
+    <label className="block text-xs font-medium text-gray-600 space-y-1">
+      <span>{TEXT_CONSTANTS[146]}</span>
+      <select
+        value={conditions.zoneId ?? ''}
+        onChange={event => onConditionsChange({ zoneId: event.target.value || null })}
+        className={inputClassName}
+      >
+        <option value="">{TEXT_CONSTANTS[147]}</option>
+        {zones.map(zone => (
+          <option key={zone.id} value={zone.id}>{zone.name}</option>
+        ))}
+      </select>
+    </label>
+
+    <div className="space-y-1">
+      <label className="flex items-center gap-2 text-xs font-medium text-gray-600">
+        <input
+          type="checkbox"
+          checked={conditions.timeOfDay.enabled}
+          onChange={event => onConditionsChange({
+            timeOfDay: { ...conditions.timeOfDay, enabled: event.target.checked }
+          })}
+          className="accent-blue-600"
+        />
+        <span>{TEXT_CONSTANTS[148]}</span>
+      </label>
+      <div className="flex items-center gap-2 text-xs text-gray-600">
+        <input
+          type="time"
+          value={conditions.timeOfDay.start}
+          disabled={!conditions.timeOfDay.enabled}
+          onChange={event => onConditionsChange({
+            timeOfDay: { ...conditions.timeOfDay, start: event.target.value }
+          })}
+          className={inputClassName}
+        />
+        <span>{TEXT_CONSTANTS[127]}</span>
+        <input
+          type="time"
+          value={conditions.timeOfDay.end}
+          disabled={!conditions.timeOfDay.enabled}
+          onChange={event => onConditionsChange({
+            timeOfDay: { ...conditions.timeOfDay, end: event.target.value }
+          })}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  </>
+);
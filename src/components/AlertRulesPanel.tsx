@@ -0,0 +1,257 @@
+import { useState } from 'react';
+import type { AlertRule, AlertRuleActions, ChimeStyle, WatchZone } from '../types/disruption';
+import { AlertConditionsFields } from './AlertConditionsFields';
+import { createAlertRule } from '../services/alertRuleStore';
+import { parseTermList, summarizeConditions } from '../utils/alertRules';
+import { getSeverityConfig } from '../utils/disruptionUtils';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  zones: WatchZone[];                            // Watch zones a rule can be limited to
+  onSaveRule: (rule: AlertRule) => void;         // Adds a new rule or replaces an edited one
+  onDeleteRule: (id: string) => void;
+}
+
+interface AlertRuleEditorProps {
+  rule: AlertRule;
+  zones: WatchZone[];
+  onSave: (rule: AlertRule) => void;
+  onCancel: () => void;
+}
+
+const TOAST_OPTIONS: { value: AlertRuleActions['toast']; label: string }[] = [
+  { value: null, label: TEXT_CONSTANTS[151] },
+  { value: 'info', label: TEXT_CONSTANTS[160] },
+  { value: 'warning', label: TEXT_CONSTANTS[161] },
+  { value: 'error', label: TEXT_CONSTANTS[162] }
+];
+
+const CHIME_OPTIONS: { value: ChimeStyle; label: string }[] = [
+  { value: 'none', label: TEXT_CONSTANTS[128] },
+  { value: 'bell', label: TEXT_CONSTANTS[129] },
+  { value: 'beep', label: TEXT_CONSTANTS[130] },
+  { value: 'rising', label: TEXT_CONSTANTS[131] }
+];
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Names of the actions a rule runs, e.g. "Toast, Sound, Webhook URL"
+ */
+const summarizeActions = ({ actions }: AlertRule): string =>
+  [
+    actions.toast && TEXT_CONSTANTS[150],
+    actions.systemNotification && TEXT_CONSTANTS[152],
+    actions.sound !== 'none' && TEXT_CONSTANTS[153],
+    actions.webhookUrl && TEXT_CONSTANTS[154]
+  ].filter(Boolean).join(', ');
+
+/**
+ * AlertRuleEditor Component
+ * 
+ * Form for one rule. Categories and keywords are edited as comma-separated
+ * text and split when the rule is saved.
+ */
+const AlertRuleEditor = ({ rule, zones, onSave, onCancel }: AlertRuleEditorProps) => {
+  const [draft, setDraft] = useState(rule);
+  const [categoryText, setCategoryText] = useState(rule.conditions.categories.join(', '));
+  const [keywordText, setKeywordText] = useState(rule.conditions.keywords.join(', '));
+
+  const { conditions, actions } = draft;
+  const updateConditions = (changes: Partial<AlertRule['conditions']>) =>
+    setDraft(prev => ({ ...prev, conditions: { ...prev.conditions, ...changes } }));
+  const updateActions = (changes: Partial<AlertRuleActions>) =>
+    setDraft(prev => ({ ...prev, actions: { ...prev.actions, ...changes } }));
+
+  const canSave = draft.name.trim() !== '' && conditions.triggers.length > 0;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSave) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      conditions: {
+        ...conditions,
+        categories: parseTermList(categoryText),
+        keywords: parseTermList(keywordText)
+      },
+      actions: { ...actions, webhookUrl: actions.webhookUrl?.trim() || null }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 space-y-3 bg-slate-50 border-b border-slate-200">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={event => setDraft(prev => ({ ...prev, name: event.target.value }))}
+        placeholder={TEXT_CONSTANTS[139]}
+        className={inputClassName}
+        autoFocus
+      />
+
+      <AlertConditionsFields
+        conditions={conditions}
+        zones={zones}
+        categoryText={categoryText}
+        keywordText={keywordText}
+        onConditionsChange={updateConditions}
+        onCategoryTextChange={setCategoryText}
+        onKeywordTextChange={setKeywordText}
+      />
+
+      <fieldset className="space-y-2 pt-2 border-t border-slate-200">
+        <legend className="text-xs font-semibold text-gray-700 uppercase tracking-wide">{TEXT_CONSTANTS[149]}</legend>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block text-xs text-gray-600 space-y-1">
+            <span>{TEXT_CONSTANTS[150]}</span>
+            <select
+              value={actions.toast ?? ''}
+              onChange={event => updateActions({ toast: (event.target.value || null) as AlertRuleActions['toast'] })}
+              className={inputClassName}
+            >
+              {TOAST_OPTIONS.map(option => (
+                <option key={option.value ?? 'none'} value={option.value ?? ''}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-xs text-gray-600 space-y-1">
+            <span>{TEXT_CONSTANTS[153]}</span>
+            <select
+              value={actions.sound}
+              onChange={event => updateActions({ sound: event.target.value as ChimeStyle })}
+              className={inputClassName}
+            >
+              {CHIME_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={actions.systemNotification}
+            onChange={event => updateActions({ systemNotification: event.target.checked })}
+            className="accent-blue-600"
+          />
+          <span>{TEXT_CONSTANTS[152]}</span>
+        </label>
+        <label className="block text-xs text-gray-600 space-y-1">
+          <span>{TEXT_CONSTANTS[154]}</span>
+          <input
+            type="url"
+            value={actions.webhookUrl ?? ''}
+            onChange={event => updateActions({ webhookUrl: event.target.value })}
+            placeholder="https://"
+            className={inputClassName}
+          />
+        </label>
+      </fieldset>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+        >
+          {TEXT_CONSTANTS[156]}
+        </button>
+        <button
+          type="submit"
+          disabled={!canSave}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 rounded-lg transition-colors"
+        >
+          {TEXT_CONSTANTS[155]}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * AlertRulesPanel Component
+ * 
+ * Sidebar tab for managing alert rules:
+ * - One row per rule with its conditions, actions and an on/off switch
+ * - Add, edit and delete rules in an inline editor
+ * - Rules can be limited to a watch zone drawn on the map
+ */
+export const AlertRulesPanel = ({ rules, zones, onSaveRule, onDeleteRule }: AlertRulesPanelProps) => {
+  // Rule being edited (a fresh one when adding)
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+
+  const handleSave = (rule: AlertRule) => {
+    onSaveRule(rule);
+    setEditingRule(null);
+  };
+
+  return (
+    <div>
+      {editingRule ? (
+        <AlertRuleEditor
+          key={editingRule.id}
+          rule={editingRule}
+          zones={zones}
+          onSave={handleSave}
+          onCancel={() => setEditingRule(null)}
+        />
+      ) : (
+        <div className="p-4 border-b border-slate-100">
+          <button
+            onClick={() => setEditingRule(createAlertRule(`${TEXT_CONSTANTS[165]} ${rules.length + 1}`))}
+            className="w-full px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+          >
+            + {TEXT_CONSTANTS[137]}
+          </button>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="p-8 text-sm text-center text-gray-500">{TEXT_CONSTANTS[138]}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {rules.map(rule => (
+            <li key={rule.id} className={`px-4 py-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 min-w-0 text-sm font-medium text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={event => onSaveRule({ ...rule, enabled: event.target.checked })}
+                    className="accent-blue-600"
+                    aria-label={TEXT_CONSTANTS[163]}
+                  />
+                  <span className="truncate">{rule.name}</span>
+                  {rule.conditions.severities.length === 1 && (
+                    <span className={`w-2 h-2 flex-shrink-0 rounded-full ${getSeverityConfig(rule.conditions.severities[0]).badgeColor}`} />
+                  )}
+                </label>
+                <div className="flex items-center gap-2 flex-shrink-0 text-xs">
+                  <button
+                    onClick={() => setEditingRule(rule)}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {TEXT_CONSTANTS[157]}
+                  </button>
+                  <button
+                    onClick={() => onDeleteRule(rule.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={TEXT_CONSTANTS[158]}
+                    title={TEXT_CONSTANTS[158]}
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">{summarizeConditions(rule.conditions, zones) || TEXT_CONSTANTS[159]}</p>
+              <p className="text-xs text-gray-400">{summarizeActions(rule)}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,22 +1,49 @@
 import { useState, useEffect } from 'react';
+import { getAlertTitle } from '../hooks/useAlerts';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+// Merged alerts listed inside one toast; the rest are summarised as "+N more"
+const MAX_LISTED_DETAILS = 3;
 
 export type AlertType = 'error' | 'warning' | 'info' | 'success';
 
-export interface Alert {
-  id: string;
-  type: AlertType;
-  title: string;
-  message: string;
+// Optional settings when raising an alert
+export interface AlertOptions {
   duration?: number; // Auto-dismiss after this many milliseconds (0 = no auto-dismiss)
   action?: {
     label: string;
     onClick: () => void;
   };
+  groupKey?: string; // Alerts sharing a key within a short burst merge into one (default: type + title)
+  groupTitle?: (count: number) => string; // Title of a merged alert, e.g. n => `${n} new disruptions`
+}
+
+export interface Alert extends AlertOptions {
+  id: string;
+  type: AlertType;
+  title: string;
+  message: string;
+  count: number; // Alerts merged into this one (1 = a single alert)
+  details: string[]; // Each merged alert as "title: message", newest first
+  updatedAt: number; // Time of the latest merge in ms - restarts the auto-dismiss timer
+}
+
+// Past alert kept in the notification centre
+export interface AlertHistoryEntry {
+  id: string; // Same id as the toast it came from
+  type: AlertType;
+  title: string;
+  message: string;
+  count: number; // Alerts merged into this entry
+  createdAt: string; // ISO time of the latest merge
+  read: boolean;
 }
 
 interface AlertSystemProps {
-  alerts: Alert[];
+  alerts: Alert[]; // Visible toasts, highest priority first
+  queuedCount: number; // Alerts waiting for a free slot
   onDismiss: (id: string) => void;
+  onShowQueued?: () => void; // Opens the notification centre
 }
 
 interface AlertItemProps {
@@ -32,6 +59,7 @@ interface AlertItemProps {
  * - Auto-dismiss functionality with progress bar
  * - Manual dismiss button
  * - Optional action button
+ * - Repeat count and a list of merged alerts when grouped
  * - Smooth animations for enter/exit
  */
 const AlertItem = ({ alert, onDismiss }: AlertItemProps) => {
@@ -92,9 +120,10 @@ const AlertItem = ({ alert, onDismiss }: AlertItemProps) => {
 
   const config = alertConfig[alert.type];
 
-  // Handle auto-dismiss functionality
+  // Handle auto-dismiss functionality - restarts whenever another alert merges in
   useEffect(() => {
     setIsVisible(true);
+    setProgress(100);
 
     if (alert.duration && alert.duration > 0) {
       const startTime = Date.now();
@@ -116,7 +145,7 @@ const AlertItem = ({ alert, onDismiss }: AlertItemProps) => {
 
       return () => clearInterval(interval);
     }
-  }, [alert.duration, alert.id, onDismiss]);
+  }, [alert.duration, alert.id, alert.updatedAt, onDismiss]);
 
   const handleDismiss = () => {
     setIsVisible(false);
@@ -152,12 +181,30 @@ const AlertItem = ({ alert, onDismiss }: AlertItemProps) => {
 
             {/* Alert content */}
             <div className="flex-1 min-w-0">
-              <h4 className={`text-sm font-semibold ${config.textColor} mb-1`}>
-                {alert.title}
+              <h4 className={`flex items-center gap-2 text-sm font-semibold ${config.textColor} mb-1`}>
+                <span>{getAlertTitle(alert)}</span>
+                {alert.count > 1 && !alert.groupTitle && (
+                  <span className="px-1.5 rounded-full bg-white/70 text-xs font-bold">
+                    ×{alert.count}
+                  </span>
+                )}
               </h4>
-              <p className={`text-sm ${config.textColor} opacity-90 leading-relaxed`}>
-                {alert.message}
-              </p>
+              {alert.details.length > 1 ? (
+                <ul className={`text-sm ${config.textColor} opacity-90 leading-relaxed space-y-0.5`}>
+                  {alert.details.slice(0, MAX_LISTED_DETAILS).map(detail => (
+                    <li key={detail} className="truncate">{detail}</li>
+                  ))}
+                  {alert.details.length > MAX_LISTED_DETAILS && (
+                    <li className="text-xs opacity-75">
+                      +{alert.details.length - MAX_LISTED_DETAILS} {TEXT_CONSTANTS[111]}
+                    </li>
+                  )}
+                </ul>
+              ) : (
+                <p className={`text-sm ${config.textColor} opacity-90 leading-relaxed`}>
+                  {alert.message}
+                </p>
+              )}
 
               {/* Action button */}
               {alert.action && (
@@ -206,15 +253,15 @@ const AlertItem = ({ alert, onDismiss }: AlertItemProps) => {
  * - Smooth animations for enter/exit
  * - Progress bars for auto-dismiss alerts
  * - Responsive design
- * - Stack management (newest on top)
+ * - Capped stack (errors first, then newest) with a "+N more" link for the rest
  * 
  * Usage:
  * - Position fixed at top-right of screen
- * - Handles multiple alerts in a stack
+ * - Alerts come from useAlerts, which dedupes, groups and queues them
  * - Accessible with proper ARIA labels
  * - Touch-friendly dismiss buttons
  */
-export const AlertSystem = ({ alerts, onDismiss }: AlertSystemProps) => {
+export const AlertSystem = ({ alerts, queuedCount, onDismiss, onShowQueued }: AlertSystemProps) => {
   if (alerts.length === 0) return null;
 
   return (
@@ -226,64 +273,15 @@ export const AlertSystem = ({ alerts, onDismiss }: AlertSystemProps) => {
           onDismiss={onDismiss}
         />
       ))}
+
+      {queuedCount > 0 && (
+        <button
+          onClick={onShowQueued}
+          className="ml-auto block px-3 py-1 rounded-full bg-gray-800/80 text-white text-xs font-medium hover:bg-gray-800 transition-colors"
+        >
+          +{queuedCount} {TEXT_CONSTANTS[111]}
+        </button>
+      )}
     </div>
   );
 };
-
-/**
- * Hook for managing alerts
- * 
- * Provides functions to add, remove, and manage alerts.
- * Handles ID generation and alert lifecycle.
- */
-export const useAlerts = () => {
-  const [alerts, setAlerts] = useState<Alert[]>([]);
-
-  const addAlert = (alertData: Omit<Alert, 'id'>) => {
-    const id = `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    const newAlert: Alert = {
-      ...alertData,
-      id,
-      duration: alertData.duration ?? 5000 // Default 5 seconds
-    };
-
-    setAlerts(prev => [newAlert, ...prev]); // Add to beginning (newest on top)
-    return id;
-  };
-
-  const removeAlert = (id: string) => {
-    setAlerts(prev => prev.filter(alert => alert.id !== id));
-  };
-
-  const clearAllAlerts = () => {
-    setAlerts([]);
-  };
-
-  // Convenience methods for different alert types
-  const showError = (title: string, message: string, options?: Partial<Alert>) => {
-    return addAlert({ type: 'error', title, message, duration: 0, ...options });
-  };
-
-  const showWarning = (title: string, message: string, options?: Partial<Alert>) => {
-    return addAlert({ type: 'warning', title, message, ...options });
-  };
-
-  const showInfo = (title: string, message: string, options?: Partial<Alert>) => {
-    return addAlert({ type: 'info', title, message, ...options });
-  };
-
-  const showSuccess = (title: string, message: string, options?: Partial<Alert>) => {
-    return addAlert({ type: 'success', title, message, ...options });
-  };
-
-  return {
-    alerts,
-    addAlert,
-    removeAlert,
-    clearAllAlerts,
-    showError,
-    showWarning,
-    showInfo,
-    showSuccess
-  };
-};
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import type { AnnouncementKind, AnnouncementSettings, ChimeStyle, Disruption } from '../types/disruption';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface AnnouncementPanelProps {
+  settings: AnnouncementSettings;
+  voices: SpeechSynthesisVoice[];                // Installed voices, English first
+  isSupported: boolean;                          // Browser has the Web Speech API
+  onEnable: () => void;
+  onDisable: () => void;
+  onSettingsChange: (changes: Partial<AnnouncementSettings>) => void;
+  onTest: () => void;
+}
+
+const CHIME_OPTIONS: { value: ChimeStyle; label: string }[] = [
+  { value: 'none', label: TEXT_CONSTANTS[128] },
+  { value: 'bell', label: TEXT_CONSTANTS[129] },
+  { value: 'beep', label: TEXT_CONSTANTS[130] },
+  { value: 'rising', label: TEXT_CONSTANTS[131] }
+];
+
+const SEVERITY_OPTIONS: { value: Disruption['severity']; label: string }[] = [
+  { value: 'Serious', label: TEXT_CONSTANTS[132] },
+  { value: 'Moderate', label: TEXT_CONSTANTS[133] },
+  { value: 'Minimal', label: TEXT_CONSTANTS[134] }
+];
+
+const CHIME_LABELS: Record<AnnouncementKind, string> = {
+  new: TEXT_CONSTANTS[123],
+  escalated: TEXT_CONSTANTS[124]
+};
+
+const selectClassName = 'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * AnnouncementPanel Component
+ * 
+ * Header button and dropdown for the spoken announcement (control-room) mode:
+ * - On/off switch; the button is highlighted while announcements are on
+ * - Voice, severity threshold and quiet hours
+ * - Chime per announcement kind (new / escalated)
+ * - Test button to hear the current voice and chime
+ */
+export const AnnouncementPanel = ({
+  settings,
+  voices,
+  isSupported,
+  onEnable,
+  onDisable,
+  onSettingsChange,
+  onTest
+}: AnnouncementPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`
+          flex items-center space-x-2 px-3 py-2 rounded-lg transition-all duration-200
+          backdrop-blur-sm border border-white/20
+          ${settings.enabled ? 'bg-white text-blue-700' : 'bg-white/10 hover:bg-white/20'}
+        `}
+        aria-expanded={isOpen}
+        title={TEXT_CONSTANTS[118]}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072M18.364 5.636a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707A1 1 0 0112 5v14a1 1 0 01-1.707.707L5.586 15z" />
+        </svg>
+        <span className="hidden md:inline">{TEXT_CONSTANTS[117]}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 max-w-[calc(100vw-2rem)] bg-white text-gray-800 rounded-xl shadow-xl border border-gray-200 p-4 space-y-3 z-50">
+          {!isSupported ? (
+            <p className="text-sm text-gray-500">{TEXT_CONSTANTS[126]}</p>
+          ) : (
+            <>
+              <label className="flex items-center justify-between text-sm font-medium">
+                <span>{TEXT_CONSTANTS[118]}</span>
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={event => (event.target.checked ? onEnable() : onDisable())}
+                  className="w-4 h-4 accent-blue-600"
+                />
+              </label>
+
+              <label className="block text-xs text-gray-600 space-y-1">
+                <span>{TEXT_CONSTANTS[119]}</span>
+                <select
+                  value={settings.voiceURI ?? ''}
+                  onChange={event => onSettingsChange({ voiceURI: event.target.value || null })}
+                  className={selectClassName}
+                >
+                  <option value="">{TEXT_CONSTANTS[120]}</option>
+                  {voices.map(voice => (
+                    <option key={voice.voiceURI} value={voice.voiceURI}>
+                      {voice.name} ({voice.lang})
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="block text-xs text-gray-600 space-y-1">
+                <span>{TEXT_CONSTANTS[121]}</span>
+                <select
+                  value={settings.minSeverity}
+                  onChange={event => onSettingsChange({ minSeverity: event.target.value as Disruption['severity'] })}
+                  className={selectClassName}
+                >
+                  {SEVERITY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+
+              <div className="space-y-1">
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={settings.quietHours.enabled}
+                    onChange={event => onSettingsChange({
+                      quietHours: { ...settings.quietHours, enabled: event.target.checked }
+                    })}
+                    className="accent-blue-600"
+                  />
+                  <span>{TEXT_CONSTANTS[122]}</span>
+                </label>
+                <div className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="time"
+                    value={settings.quietHours.start}
+                    disabled={!settings.quietHours.enabled}
+                    onChange={event => onSettingsChange({
+                      quietHours: { ...settings.quietHours, start: event.target.value }
+                    })}
+                    className={selectClassName}
+                  />
+                  <span>{TEXT_CONSTANTS[127]}</span>
+                  <input
+                    type="time"
+                    value={settings.quietHours.end}
+                    disabled={!settings.quietHours.enabled}
+                    onChange={event => onSettingsChange({
+                      quietHours: { ...settings.quietHours, end: event.target.value }
+                    })}
+                    className={selectClassName}
+                  />
+                </div>
+              </div>
+
+              {(Object.keys(CHIME_LABELS) as AnnouncementKind[]).map(kind => (
+                <label key={kind} className="block text-xs text-gray-600 space-y-1">
+                  <span>{CHIME_LABELS[kind]}</span>
+                  <select
+                    value={settings.chimes[kind]}
+                    onChange={event => onSettingsChange({
+                      chimes: { ...settings.chimes, [kind]: event.target.value as ChimeStyle }
+                    })}
+                    className={selectClassName}
+                  >
+                    {CHIME_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+
+              <button
+                onClick={onTest}
+                className="w-full px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+              >
+                {TEXT_CONSTANTS[125]}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,10 @@
 import { TEXT_CONSTANTS } from '../constants/text';
 import { UI_CONSTANTS } from '../constants/ui';
+import type { CircuitBreakerSnapshot } from '../services/circuitBreaker';
+import type { AlertHistoryEntry, AlertOptions } from './AlertSystem';
+import { NotificationCentre } from './NotificationCentre';
+import { AnnouncementPanel } from './AnnouncementPanel';
+import type { AnnouncementSettings } from '../types/disruption';
 import logoTraffic from '../assets/logo_traffic.svg';
 
 interface AppHeaderProps {
@@ -9,7 +14,27 @@ interface AppHeaderProps {
   lastUpdated: Date | null;
   hasError?: boolean;
   errorMessage?: string;
-  onShowAlert?: (type: 'error' | 'warning' | 'info' | 'success', title: string, message: string) => void;
+  demoSourceLabel?: string; // Set when data comes from a fixture/replay instead of live TfL
+  circuitState?: CircuitBreakerSnapshot; // Upstream breaker - open means requests are paused
+  isHistoryActive?: boolean; // Timeline playback replaces the live view
+  onToggleHistory?: () => void;
+  isNotificationsActive?: boolean; // Desktop alerts are on
+  onToggleNotifications?: () => void;
+  alertHistory?: AlertHistoryEntry[]; // Past alerts for the notification centre (hidden when omitted)
+  unreadAlertCount?: number;
+  isNotificationCentreOpen?: boolean;
+  onToggleNotificationCentre?: () => void;
+  onMarkAlertRead?: (id: string) => void;
+  onMarkAllAlertsRead?: () => void;
+  onClearAlertHistory?: () => void;
+  announcementSettings?: AnnouncementSettings; // Spoken announcements (hidden when omitted)
+  announcementVoices?: SpeechSynthesisVoice[];
+  isSpeechSupported?: boolean;
+  onEnableAnnouncements?: () => void;
+  onDisableAnnouncements?: () => void;
+  onAnnouncementSettingsChange?: (changes: Partial<AnnouncementSettings>) => void;
+  onTestAnnouncement?: () => void;
+  onShowAlert?: (type: 'error' | 'warning' | 'info' | 'success', title: string, message: string, options?: AlertOptions) => void;
 }
 
 export const AppHeader = ({
@@ -19,8 +44,30 @@ export const AppHeader = ({
   lastUpdated,
   hasError = false,
   errorMessage,
+  demoSourceLabel,
+  circuitState,
+  isHistoryActive = false,
+  onToggleHistory,
+  isNotificationsActive = false,
+  onToggleNotifications,
+  alertHistory,
+  unreadAlertCount = 0,
+  isNotificationCentreOpen = false,
+  onToggleNotificationCentre,
+  onMarkAlertRead,
+  onMarkAllAlertsRead,
+  onClearAlertHistory,
+  announcementSettings,
+  announcementVoices = [],
+  isSpeechSupported = false,
+  onEnableAnnouncements,
+  onDisableAnnouncements,
+  onAnnouncementSettingsChange,
+  onTestAnnouncement,
   onShowAlert
 }: AppHeaderProps) => {
+  const isCircuitOpen = circuitState?.state === 'open';
+  const isCircuitHalfOpen = circuitState?.state === 'half-open';
   
   // Handle refresh
   const handleRefresh = () => {
@@ -55,7 +102,15 @@ export const AppHeader = ({
                 className="w-8 h-8 sm:w-10 sm:h-10"
               />
               <div>
-                <h1 className="text-xl sm:text-2xl font-bold">{TEXT_CONSTANTS[1]}</h1>
+                <h1 className="text-xl sm:text-2xl font-bold flex items-center">
+                  {TEXT_CONSTANTS[1]}
+                  {/* Demo data badge - makes it obvious the map isn't showing live TfL data */}
+                  {demoSourceLabel && (
+                    <span className="ml-3 px-2 py-0.5 rounded-md bg-amber-400 text-amber-950 text-xs font-semibold uppercase tracking-wide">
+                      {demoSourceLabel}
+                    </span>
+                  )}
+                </h1>
                 <p className="text-blue-100 text-sm hidden sm:block">{TEXT_CONSTANTS[2]}</p>
               </div>
             </div>
@@ -65,7 +120,13 @@ export const AppHeader = ({
             {/* Status indicator with error state */}
             <div className="hidden sm:flex flex-col items-end text-blue-100 text-xs space-y-1">
               <div className="flex items-center space-x-2">
-                {hasError ? (
+                {/* Breaker state wins - it explains why refreshes aren't reaching TfL */}
+                {isCircuitOpen || isCircuitHalfOpen ? (
+                  <>
+                    <div className="w-2 h-2 bg-amber-400 rounded-full animate-pulse"></div>
+                    <span>{isCircuitOpen ? TEXT_CONSTANTS[56] : TEXT_CONSTANTS[58]}</span>
+                  </>
+                ) : hasError ? (
                   <>
                     <div className="w-2 h-2 bg-red-400 rounded-full animate-pulse"></div>
                     <button
@@ -87,13 +148,82 @@ export const AppHeader = ({
                   {TEXT_CONSTANTS[5]} {lastUpdated.toLocaleTimeString()}
                 </span>
               )}
-              {hasError && errorMessage && (
+              {isCircuitOpen && circuitState.retryAt && (
+                <span className="opacity-75">
+                  {TEXT_CONSTANTS[57]} {new Date(circuitState.retryAt).toLocaleTimeString()}
+                </span>
+              )}
+              {hasError && errorMessage && !isCircuitOpen && (
                 <span className="text-red-200 opacity-90 text-xs max-w-xs truncate">
                   {errorMessage}
                 </span>
               )}
             </div>
             
+            {/* History toggle - opens the timeline playback bar */}
+            {onToggleHistory && (
+              <button
+                onClick={onToggleHistory}
+                className={`
+                  flex items-center space-x-2 px-3 py-2 rounded-lg transition-all duration-200
+                  backdrop-blur-sm border border-white/20
+                  ${isHistoryActive ? 'bg-white text-blue-700' : 'bg-white/10 hover:bg-white/20'}
+                `}
+                aria-pressed={isHistoryActive}
+                title={TEXT_CONSTANTS[63]}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span className="hidden md:inline">{TEXT_CONSTANTS[63]}</span>
+              </button>
+            )}
+
+            {/* Desktop alerts toggle - opt in to system notifications */}
+            {onToggleNotifications && (
+              <button
+                onClick={onToggleNotifications}
+                className={`
+                  flex items-center space-x-2 px-3 py-2 rounded-lg transition-all duration-200
+                  backdrop-blur-sm border border-white/20
+                  ${isNotificationsActive ? 'bg-white text-blue-700' : 'bg-white/10 hover:bg-white/20'}
+                `}
+                aria-pressed={isNotificationsActive}
+                title={isNotificationsActive ? TEXT_CONSTANTS[103] : TEXT_CONSTANTS[102]}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                </svg>
+                <span className="hidden md:inline">{TEXT_CONSTANTS[101]}</span>
+              </button>
+            )}
+
+            {/* Spoken announcements - control-room mode */}
+            {announcementSettings && onEnableAnnouncements && onDisableAnnouncements && onAnnouncementSettingsChange && onTestAnnouncement && (
+              <AnnouncementPanel
+                settings={announcementSettings}
+                voices={announcementVoices}
+                isSupported={isSpeechSupported}
+                onEnable={onEnableAnnouncements}
+                onDisable={onDisableAnnouncements}
+                onSettingsChange={onAnnouncementSettingsChange}
+                onTest={onTestAnnouncement}
+              />
+            )}
+
+            {/* Notification centre - every past alert, with unread count */}
+            {alertHistory && onToggleNotificationCentre && onMarkAlertRead && onMarkAllAlertsRead && onClearAlertHistory && (
+              <NotificationCentre
+                history={alertHistory}
+                unreadCount={unreadAlertCount}
+                isOpen={isNotificationCentreOpen}
+                onToggle={onToggleNotificationCentre}
+                onMarkRead={onMarkAlertRead}
+                onMarkAllRead={onMarkAllAlertsRead}
+                onClear={onClearAlertHistory}
+              />
+            )}
+
             {/* Refresh button with enhanced functionality */}
             <button
               onClick={handleRefresh}
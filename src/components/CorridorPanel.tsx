@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import type { CorridorSummary, FilterState } from '../types/disruption';
+import { getCorridorStatusConfig } from '../utils/disruptionUtils';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface CorridorPanelProps {
+  corridorSummaries: CorridorSummary[];
+  selectedCorridorId: string | null;
+  onFiltersChange: (filters: Partial<FilterState>) => void;
+}
+
+/**
+ * CorridorPanel Component
+ * 
+ * Lists TfL's major road corridors (A2, A406, A13...) next to the filters:
+ * - Overall corridor status with a colour-coded dot
+ * - Number of active disruptions on each corridor (Serious count highlighted)
+ * - Click a corridor to filter the list and map to its disruptions;
+ *   click it again to clear the corridor filter
+ * 
+ * Corridors without disruptions are hidden behind a "show all" toggle
+ * so the busy roads stay at the top.
+ */
+export const CorridorPanel = ({
+  corridorSummaries,
+  selectedCorridorId,
+  onFiltersChange
+}: CorridorPanelProps) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+
+  const visibleSummaries = showAll
+    ? corridorSummaries
+    : corridorSummaries.filter(summary =>
+        summary.disruptionCount > 0 || summary.corridor.id === selectedCorridorId
+      );
+  const selectedSummary = corridorSummaries.find(summary => summary.corridor.id === selectedCorridorId);
+
+  /**
+   * Toggles the corridor filter - selecting the active corridor again clears it
+   */
+  const handleCorridorClick = (corridorId: string) => {
+    onFiltersChange({ corridorId: corridorId === selectedCorridorId ? null : corridorId });
+  };
+
+  return (
+    <div className="border-b border-slate-200 flex-shrink-0">
+      {/* Header - toggles the panel and shows the active corridor filter */}
+      <div className="px-6 py-3 flex items-center justify-between">
+        <button
+          onClick={() => setIsOpen(prev => !prev)}
+          className="flex items-center space-x-2 text-sm font-medium text-slate-700 hover:text-slate-900"
+          aria-expanded={isOpen}
+        >
+          <svg
+            className={`w-4 h-4 text-slate-500 transition-transform duration-200 ${isOpen ? '' : '-rotate-90'}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+          <span>{TEXT_CONSTANTS[52]}</span>
+        </button>
+        {selectedSummary && (
+          <button
+            onClick={() => onFiltersChange({ corridorId: null })}
+            className="flex items-center space-x-1 px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 text-xs font-medium hover:bg-blue-200"
+            aria-label={`Clear ${selectedSummary.corridor.displayName} filter`}
+          >
+            <span>{selectedSummary.corridor.displayName}</span>
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="px-4 pb-3">
+          {corridorSummaries.length === 0 ? (
+            <p className="px-2 text-xs text-slate-500">{TEXT_CONSTANTS[55]}</p>
+          ) : (
+            <ul className="max-h-56 overflow-y-auto space-y-1">
+              {visibleSummaries.map(({ corridor, disruptionCount, seriousCount }) => {
+                const statusConfig = getCorridorStatusConfig(corridor.statusSeverity);
+                const isSelected = corridor.id === selectedCorridorId;
+
+                return (
+                  <li key={corridor.id}>
+                    <button
+                      onClick={() => handleCorridorClick(corridor.id)}
+                      className={`
+                        w-full flex items-center justify-between px-2 py-1.5 rounded-lg text-left
+                        transition-colors duration-150
+                        ${isSelected ? 'bg-blue-50 ring-1 ring-blue-300' : 'hover:bg-slate-50'}
+                      `}
+                      aria-pressed={isSelected}
+                    >
+                      <span className="flex items-center space-x-2 min-w-0">
+                        <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${statusConfig.dotColor}`} />
+                        <span className="text-sm font-semibold text-slate-900">{corridor.displayName}</span>
+                        <span className={`text-xs truncate ${statusConfig.textColor}`}>
+                          {corridor.statusSeverityDescription || (
+                            corridor.statusSeverity === 'Unknown' ? TEXT_CONSTANTS[53] : corridor.statusSeverity
+                          )}
+                        </span>
+                      </span>
+                      <span className={`
+                        ml-2 px-2 py-0.5 rounded-full text-xs font-semibold flex-shrink-0
+                        ${seriousCount > 0 ? 'bg-red-500 text-white' : 'bg-slate-100 text-slate-600'}
+                      `}>
+                        {disruptionCount}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {/* Reveal corridors with no current disruptions */}
+          {corridorSummaries.length > visibleSummaries.length && !showAll && (
+            <button
+              onClick={() => setShowAll(true)}
+              className="mt-2 px-2 text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              {TEXT_CONSTANTS[54]} ({corridorSummaries.length})
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import type { RejectionReason, ValidationReport } from '../types/disruption';
+import { REJECTION_REASON_LABELS, formatDateTime } from '../utils/disruptionUtils';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface DataQualityPanelProps {
+  report: ValidationReport | null;
+}
+
+// Cap on rejected records listed individually - the counts cover the rest
+const MAX_LISTED_RECORDS = 20;
+
+/**
+ * DataQualityPanel Component
+ * 
+ * Shows how much of the latest TfL feed survived validation:
+ * - Usable vs. total record count with a progress bar
+ * - Rejection counts per reason (missing coordinates, unknown severity, ...)
+ * - Expandable list of rejected records with all their failure reasons
+ * 
+ * Collapsed by default so it doesn't push the disruption list down;
+ * the header badge turns amber when anything was rejected.
+ */
+export const DataQualityPanel = ({ report }: DataQualityPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showRecords, setShowRecords] = useState(false);
+
+  if (!report) return null;
+
+  const hasRejections = report.rejected > 0;
+  const usablePercent = report.total > 0 ? Math.round((report.accepted / report.total) * 100) : 100;
+  const reasonEntries = (Object.entries(report.reasonCounts) as [RejectionReason, number][])
+    .sort(([, a], [, b]) => b - a);
+
+  return (
+    <div className="border-b border-slate-200 flex-shrink-0">
+      {/* Header - toggles the panel */}
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full px-6 py-3 flex items-center justify-between hover:bg-slate-50 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span className="text-sm font-medium text-slate-700">{TEXT_CONSTANTS[45]}</span>
+        <span className="flex items-center space-x-2">
+          <span className={`
+            px-2.5 py-0.5 rounded-full text-xs font-semibold
+            ${hasRejections ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'}
+          `}>
+            {report.accepted}/{report.total}
+          </span>
+          <svg
+            className={`w-4 h-4 text-slate-500 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-4 space-y-3 text-xs">
+          {/* Usable share of the feed */}
+          <div>
+            <div className="flex justify-between text-slate-600 mb-1">
+              <span>{usablePercent}% {TEXT_CONSTANTS[46]}</span>
+              <span>{formatDateTime(report.validatedAt)}</span>
+            </div>
+            <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${hasRejections ? 'bg-amber-500' : 'bg-green-500'}`}
+                style={{ width: `${usablePercent}%` }}
+              />
+            </div>
+          </div>
+
+          {!hasRejections && (
+            <p className="text-green-700">{TEXT_CONSTANTS[47]}</p>
+          )}
+
+          {/* Rejections per reason */}
+          {hasRejections && (
+            <ul className="space-y-1">
+              {reasonEntries.map(([reason, count]) => (
+                <li key={reason} className="flex justify-between text-slate-700">
+                  <span>{REJECTION_REASON_LABELS[reason]}</span>
+                  <span className="font-semibold">{count}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Individual rejected records */}
+          {hasRejections && (
+            <div>
+              <button
+                onClick={() => setShowRecords(prev => !prev)}
+                className="text-blue-600 hover:text-blue-800 font-medium"
+              >
+                {showRecords ? TEXT_CONSTANTS[50] : TEXT_CONSTANTS[49]} ({report.rejected})
+              </button>
+              {showRecords && (
+                <ul className="mt-2 space-y-2 max-h-48 overflow-y-auto">
+                  {report.rejectedRecords.slice(0, MAX_LISTED_RECORDS).map((record, index) => (
+                    <li key={record.id ?? `rejected-${index}`} className="bg-slate-50 rounded p-2">
+                      <p className="font-medium text-slate-800 truncate">
+                        {record.location ?? record.id ?? TEXT_CONSTANTS[51]}
+                      </p>
+                      <p className="text-slate-500">
+                        {record.reasons.map(reason => REJECTION_REASON_LABELS[reason]).join(', ')}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
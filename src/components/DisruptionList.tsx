@@ -1,22 +1,73 @@
 import { useState, type MouseEvent } from 'react';
-import type { Disruption } from '../types/disruption';
-import { getSeverityConfig, formatStatus, formatCoordinates } from '../utils/disruptionUtils';
+import type { Disruption, IncidentAction, IncidentRecord, MuteMode } from '../types/disruption';
+import { IncidentHistory } from './IncidentHistory';
+import { HighlightedText } from './HighlightedText';
+import {
+  getSeverityConfig,
+  formatStatus,
+  formatCoordinates,
+  formatCategory,
+  formatSchedule,
+  formatDateTime,
+  formatStreet,
+  formatCorridors,
+  getTimingLabel,
+  type TimingLabel
+} from '../utils/disruptionUtils';
+import { getResolvedAt, isResolved as isResolvedDisruption } from '../utils/resolvedDisruptions';
 import { TEXT_CONSTANTS } from '../constants/text';
 
 interface DisruptionListProps {
   disruptions: Disruption[];
   onDisruptionSelect: (disruption: Disruption) => void;
   selectedDisruption: Disruption | null;
+  readOnly?: boolean; // Historical playback - the list describes a past moment
+  now: number; // Reference time for "Starts in 3h" labels (the replayed moment during playback)
   onShowAlert?: (type: 'error' | 'warning' | 'info' | 'success', title: string, message: string) => void;
+  mutedIds?: Set<string>; // Snoozed/muted disruptions, shown dimmed
+  onMute?: (disruption: Disruption, mode: MuteMode, durationMs?: number) => void;
+  onUnmute?: (disruptionId: string) => void;
+  incidents?: Map<string, IncidentRecord>; // Operator records by disruption id
+  onIncidentAction?: (disruption: Disruption, action: IncidentAction) => void;
+  onExportIncidents?: () => void;
+  searchQuery?: string; // Matching words are highlighted
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+
+// Chip colours for "Starts in 3h" / "Ends tomorrow" labels
+const TIMING_TONE_STYLES: Record<TimingLabel['tone'], string> = {
+  upcoming: 'bg-sky-50 text-sky-700 border border-sky-200',
+  ending: 'bg-white text-gray-600 border border-gray-200',
+  overrunning: 'bg-amber-50 text-amber-700 border border-amber-200'
+};
+
+// Snooze lengths offered on expanded cards
+const SNOOZE_OPTIONS = [
+  { label: TEXT_CONSTANTS[197], durationMs: HOUR_MS },
+  { label: TEXT_CONSTANTS[198], durationMs: 8 * HOUR_MS },
+  { label: TEXT_CONSTANTS[199], durationMs: 24 * HOUR_MS },
+  { label: TEXT_CONSTANTS[200], durationMs: 7 * 24 * HOUR_MS }
+];
+
 export const DisruptionList = ({
   disruptions,
   onDisruptionSelect,
   selectedDisruption,
-  onShowAlert
+  readOnly = false,
+  now,
+  onShowAlert,
+  mutedIds,
+  onMute,
+  onUnmute,
+  incidents,
+  onIncidentAction,
+  onExportIncidents,
+  searchQuery = ''
 }: DisruptionListProps) => {
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
+  // Expanded cards showing the incident history instead of the details
+  const [historyCards, setHistoryCards] = useState<Set<string>>(new Set());
 
   const toggleCardExpansion = (disruptionId: string, event: MouseEvent) => {
     event.stopPropagation(); // Prevent card selection when clicking expand button
@@ -29,6 +80,16 @@ export const DisruptionList = ({
     setExpandedCards(newExpanded);
   };
 
+  const toggleHistoryTab = (disruptionId: string, showHistory: boolean, event: MouseEvent) => {
+    event.stopPropagation();
+    setHistoryCards(prev => {
+      const next = new Set(prev);
+      if (showHistory) next.add(disruptionId);
+      else next.delete(disruptionId);
+      return next;
+    });
+  };
+
   // Enhanced disruption selection
   const handleDisruptionSelect = (disruption: Disruption) => {
     onDisruptionSelect(disruption);
@@ -44,7 +105,7 @@ export const DisruptionList = ({
             </svg>
           </div>
           <h3 className="text-lg font-medium text-gray-900 mb-2">{TEXT_CONSTANTS[15]}</h3>
-          <p className="text-gray-500">{TEXT_CONSTANTS[16]}</p>
+          <p className="text-gray-500">{readOnly ? TEXT_CONSTANTS[69] : TEXT_CONSTANTS[16]}</p>
         </div>
       </div>
     );
@@ -54,9 +115,19 @@ export const DisruptionList = ({
     <div className="flex-1 flex flex-col h-full">
       {/* Fixed header */}
       <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex-shrink-0">
-        <h2 className="text-lg font-semibold text-gray-900">
-          {TEXT_CONSTANTS[17]} ({disruptions.length})
-        </h2>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {TEXT_CONSTANTS[17]} ({disruptions.length})
+          </h2>
+          {onExportIncidents && incidents && incidents.size > 0 && (
+            <button
+              onClick={onExportIncidents}
+              className="text-xs font-medium text-blue-600 hover:underline"
+            >
+              {TEXT_CONSTANTS[221]}
+            </button>
+          )}
+        </div>
       </div>
       
       {/* Scrollable content */}
@@ -66,7 +137,17 @@ export const DisruptionList = ({
             const severityConfig = getSeverityConfig(disruption.severity);
             const isSelected = selectedDisruption?.id === disruption.id;
             const isExpanded = expandedCards.has(disruption.id);
-            
+            const isMuted = mutedIds?.has(disruption.id) ?? false;
+            const incident = incidents?.get(disruption.id);
+            const showHistory = historyCards.has(disruption.id);
+            const hasIncidentBadges = !!incident && (!!incident.acknowledgement || !!incident.assignee || incident.handled);
+            const category = formatCategory(disruption);
+            const schedule = formatSchedule(disruption);
+            const lastModified = formatDateTime(disruption.lastModifiedTime);
+            const timing = getTimingLabel(disruption, now);
+            const isResolved = isResolvedDisruption(disruption);
+            const resolvedAt = isResolved ? formatDateTime(getResolvedAt(disruption)) : null;
+
             return (
               <div
                 key={disruption.id}
@@ -76,18 +157,19 @@ export const DisruptionList = ({
                     ? 'bg-blue-50 border-l-blue-500' 
                     : 'hover:bg-blue-50 border-l-transparent hover:border-l-blue-300'
                   }
+                  ${(isMuted || isResolved) && !isSelected ? 'opacity-60' : ''}
                 `}
                 onClick={() => handleDisruptionSelect(disruption)}
               >
                 <div className="flex items-start justify-between mb-2">
                   <h3 className="text-sm font-semibold text-gray-900 leading-5 flex-1 pr-2">
-                    {disruption.location}
+                    <HighlightedText text={disruption.location} query={searchQuery} />
                   </h3>
                   <div className="flex items-center space-x-2 flex-shrink-0">
                     <span 
                       className={`
                         inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-white
-                        ${severityConfig.badgeColor}
+                        ${isResolved ? 'bg-gray-400 line-through' : severityConfig.badgeColor}
                       `}
                     >
                       {severityConfig.icon} {disruption.severity}
@@ -111,36 +193,210 @@ export const DisruptionList = ({
                   </div>
                 </div>
                 
+                {/* Classification chips - resolved/timing, category, closures and provisional flag */}
+                {(category || timing || isResolved || disruption.hasClosures || disruption.isProvisional || isMuted || hasIncidentBadges) && (
+                  <div className="flex flex-wrap items-center gap-1.5 mb-2">
+                    {incident?.handled && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-600 text-white">
+                        ✓ {TEXT_CONSTANTS[218]}
+                      </span>
+                    )}
+                    {incident?.acknowledgement && !incident.handled && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-50 text-green-700 border border-green-200">
+                        {TEXT_CONSTANTS[210]}
+                      </span>
+                    )}
+                    {incident?.assignee && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-50 text-blue-700">
+                        {TEXT_CONSTANTS[212]} {incident.assignee}
+                      </span>
+                    )}
+                    {isMuted && (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">
+                        {TEXT_CONSTANTS[195]}
+                        {onUnmute && !readOnly && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onUnmute(disruption.id);
+                            }}
+                            className="text-blue-600 hover:underline"
+                          >
+                            {TEXT_CONSTANTS[202]}
+                          </button>
+                        )}
+                      </span>
+                    )}
+                    {isResolved && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600 border border-gray-300">
+                        {TEXT_CONSTANTS[273]}{resolvedAt && ` ${resolvedAt}`}
+                      </span>
+                    )}
+                    {timing && (
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${TIMING_TONE_STYLES[timing.tone]}`}>
+                        {timing.text}
+                      </span>
+                    )}
+                    {category && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-slate-100 text-slate-700">
+                        {category}
+                      </span>
+                    )}
+                    {disruption.hasClosures && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-50 text-red-700 border border-red-200">
+                        {TEXT_CONSTANTS[42]}
+                      </span>
+                    )}
+                    {disruption.isProvisional && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-50 text-purple-700">
+                        {TEXT_CONSTANTS[44]}
+                      </span>
+                    )}
+                  </div>
+                )}
+
                 <p className={`text-sm text-gray-600 leading-5 mb-3 ${
                   isExpanded ? '' : 'line-clamp-3'
                 }`}>
-                  {disruption.comments}
+                  <HighlightedText text={disruption.comments} query={searchQuery} />
                 </p>
                 
                 {isExpanded && (
                   <div className="space-y-2 mb-3 p-3 bg-gray-50 rounded-lg">
-                    {disruption.currentUpdate && (
-                      <div className="flex items-start text-xs">
-                        <svg className="w-3 h-3 mr-2 mt-0.5 flex-shrink-0 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                        <div>
-                          <span className="font-medium text-gray-700">{TEXT_CONSTANTS[20]}</span>
-                          <p className="text-gray-600 mt-1">{formatStatus(disruption.status)}</p>
-                        </div>
-                      </div>
-                    )}
-                    
-                    {disruption.geography?.coordinates && (
-                      <div className="flex items-center text-xs">
-                        <svg className="w-3 h-3 mr-2 flex-shrink-0 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-                        </svg>
-                        <span className="text-gray-600">
-                          {TEXT_CONSTANTS[21]} {formatCoordinates(disruption.geography.coordinates)}
-                        </span>
-                      </div>
+                    {/* Details / incident history tabs */}
+                    <div className="flex gap-3 -mt-1 pb-1 border-b border-gray-200 text-xs" role="tablist">
+                      <button
+                        role="tab"
+                        aria-selected={!showHistory}
+                        onClick={(e) => toggleHistoryTab(disruption.id, false, e)}
+                        className={!showHistory ? 'font-semibold text-blue-700' : 'text-gray-500 hover:text-gray-700'}
+                      >
+                        {TEXT_CONSTANTS[207]}
+                      </button>
+                      <button
+                        role="tab"
+                        aria-selected={showHistory}
+                        onClick={(e) => toggleHistoryTab(disruption.id, true, e)}
+                        className={showHistory ? 'font-semibold text-blue-700' : 'text-gray-500 hover:text-gray-700'}
+                      >
+                        {TEXT_CONSTANTS[208]}{incident && incident.history.length > 0 ? ` (${incident.history.length})` : ''}
+                      </button>
+                    </div>
+
+                    {showHistory ? (
+                      <IncidentHistory
+                        record={incident}
+                        readOnly={readOnly}
+                        onAction={onIncidentAction && ((action) => onIncidentAction(disruption, action))}
+                      />
+                    ) : (
+                      <>
+                        {disruption.currentUpdate && (
+                          <div className="flex items-start text-xs">
+                            <svg className="w-3 h-3 mr-2 mt-0.5 flex-shrink-0 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            <div>
+                              <span className="font-medium text-gray-700">{TEXT_CONSTANTS[20]}</span>
+                              <p className="text-gray-600 mt-1">{formatStatus(disruption.status)}</p>
+                              <p className="text-gray-600 mt-1">
+                                <HighlightedText text={disruption.currentUpdate} query={searchQuery} />
+                              </p>
+                            </div>
+                          </div>
+                        )}
+
+                        {schedule && (
+                          <div className="flex items-start text-xs">
+                            <svg className="w-3 h-3 mr-2 mt-0.5 flex-shrink-0 text-purple-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                            </svg>
+                            <div>
+                              <span className="font-medium text-gray-700">{TEXT_CONSTANTS[36]}</span>
+                              <p className="text-gray-600 mt-1">{schedule}</p>
+                            </div>
+                          </div>
+                        )}
+
+                        {disruption.recurringSchedules.length > 0 && (
+                          <div className="text-xs">
+                            <span className="font-medium text-gray-700">{TEXT_CONSTANTS[43]}</span>
+                            <ul className="text-gray-600 mt-1 space-y-0.5">
+                              {disruption.recurringSchedules.map(window => (
+                                <li key={`${window.startTime}-${window.endTime}`}>
+                                  {formatDateTime(window.startTime)} → {formatDateTime(window.endTime)}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
+                        {disruption.streets.length > 0 && (
+                          <div className="text-xs">
+                            <span className="font-medium text-gray-700">{TEXT_CONSTANTS[38]}</span>
+                            <ul className="text-gray-600 mt-1 space-y-0.5">
+                              {disruption.streets.map((street, index) => (
+                                <li key={`${street.name}-${index}`}>
+                                  <HighlightedText text={formatStreet(street)} query={searchQuery} />
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
+                        {disruption.corridorIds.length > 0 && (
+                          <div className="text-xs">
+                            <span className="font-medium text-gray-700">{TEXT_CONSTANTS[39]}</span>{' '}
+                            <span className="text-gray-600">{formatCorridors(disruption.corridorIds)}</span>
+                          </div>
+                        )}
+
+                        {lastModified && (
+                          <div className="text-xs text-gray-500">
+                            {TEXT_CONSTANTS[37]} {lastModified}
+                          </div>
+                        )}
+
+                        {disruption.geography?.coordinates && (
+                          <div className="flex items-center text-xs">
+                            <svg className="w-3 h-3 mr-2 flex-shrink-0 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                            </svg>
+                            <span className="text-gray-600">
+                              {TEXT_CONSTANTS[21]} {formatCoordinates(disruption.geography.coordinates)}
+                            </span>
+                          </div>
+                        )}
+
+                        {/* Snooze and mute - live data only */}
+                        {onMute && !readOnly && !isMuted && (
+                          <div className="flex flex-wrap items-center gap-1.5 pt-2 border-t border-gray-200 text-xs">
+                            <span className="font-medium text-gray-700">{TEXT_CONSTANTS[196]}</span>
+                            {SNOOZE_OPTIONS.map(option => (
+                              <button
+                                key={option.durationMs}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onMute(disruption, 'snooze', option.durationMs);
+                                }}
+                                className="px-2 py-0.5 rounded-full bg-white border border-gray-200 text-gray-600 hover:border-gray-300"
+                              >
+                                {option.label}
+                              </button>
+                            ))}
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onMute(disruption, 'until-severity-change');
+                              }}
+                              className="px-2 py-0.5 rounded-full bg-white border border-gray-200 text-gray-600 hover:border-gray-300"
+                            >
+                              {TEXT_CONSTANTS[206]}
+                            </button>
+                          </div>
+                        )}
+                      </>
                     )}
                   </div>
                 )}
@@ -0,0 +1,101 @@
+import type { FacetCount } from '../types/disruption';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface FacetFilterProps {
+  title: string;
+  facets: FacetCount[]; // Values with live counts, in display order
+  selected: Set<string>; // Ticked values (empty = all)
+  onChange: (selected: Set<string>) => void;
+  formatLabel?: (value: string) => string; // Display text for a value (defaults to the value)
+}
+
+/**
+ * FacetFilter Component
+ *
+ * Checkbox list for one filter facet (e.g. categories), styled like the
+ * severity filters: a ticked value is highlighted and its count badge filled.
+ *
+ * Features:
+ * - Live count per value, with the other filters applied
+ * - Nothing ticked shows every value; Clear unticks them all
+ * - Values without matches are dimmed
+ * - Scrolls when the data has many values
+ */
+export const FacetFilter = ({ title, facets, selected, onChange, formatLabel }: FacetFilterProps) => {
+  if (facets.length === 0) return null;
+
+  const handleToggle = (value: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(value);
+    } else {
+      next.delete(value);
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium text-slate-700">{title}</h4>
+        {selected.size > 0 ? (
+          <button
+            onClick={() => onChange(new Set())}
+            className="text-xs font-medium text-blue-600 hover:text-blue-800"
+          >
+            {TEXT_CONSTANTS[108]}
+          </button>
+        ) : (
+          <span className="text-xs text-slate-400">{TEXT_CONSTANTS[256]}</span>
+        )}
+      </div>
+
+      <div className="space-y-1.5 max-h-56 overflow-y-auto">
+        {facets.map(({ value, count }) => {
+          const isSelected = selected.has(value);
+          return (
+            <label
+              key={value}
+              className={`
+                flex items-center space-x-3 cursor-pointer border rounded-lg px-3 py-2
+                transition-all duration-200 hover:shadow-sm
+                ${isSelected ? 'bg-blue-50 border-blue-200' : 'bg-white border-slate-200'}
+                ${count === 0 && !isSelected ? 'opacity-60' : ''}
+              `}
+            >
+              {/* Custom styled checkbox (hidden native input + styled div) */}
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={(e) => handleToggle(value, e.target.checked)}
+                className="sr-only"
+              />
+              <div className={`
+                w-4 h-4 rounded border-2 flex items-center justify-center flex-shrink-0 transition-all duration-200
+                ${isSelected ? 'bg-blue-500 border-transparent' : 'border-slate-300 bg-white'}
+              `}>
+                {isSelected && (
+                  <svg className="w-2.5 h-2.5 text-white" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                  </svg>
+                )}
+              </div>
+
+              <span className={`flex-1 text-sm truncate ${isSelected ? 'font-medium text-blue-800' : 'text-slate-700'}`}>
+                {formatLabel ? formatLabel(value) : value}
+              </span>
+
+              {/* Count badge showing how many disruptions the value matches */}
+              <span className={`
+                px-2 py-0.5 rounded-full text-xs font-semibold
+                ${isSelected ? 'bg-blue-500 text-white' : 'bg-slate-100 text-slate-600'}
+              `}>
+                {count}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,34 @@
-import type { FilterState } from '../types/disruption';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { FilterFacets, FilterState, TimeWindowFilter, TimeWindowPreset } from '../types/disruption';
+import type { AlertOptions } from './AlertSystem';
 import { TEXT_CONSTANTS } from '../constants/text';
+import { FacetFilter } from './FacetFilter';
+import { toLocalDateString } from '../utils/timeWindows';
+import { formatStatus } from '../utils/disruptionUtils';
+import {
+  applyQuerySuggestion,
+  getQuerySuggestions,
+  parseQuery,
+  QUERY_FIELDS,
+  QUERY_SYNTAX_HELP,
+  type QuerySuggestion,
+  type QuerySyntaxError
+} from '../utils/queryLanguage';
+
+// Quiet time after the last keystroke before the search is confirmed with a toast
+const SEARCH_ALERT_DELAY_MS = 1000;
+
+// Time filter buttons, in display order
+const TIME_WINDOW_OPTIONS: { preset: TimeWindowPreset; label: string }[] = [
+  { preset: 'any', label: TEXT_CONSTANTS[258] },
+  { preset: 'active-now', label: TEXT_CONSTANTS[259] },
+  { preset: 'next-24h', label: TEXT_CONSTANTS[260] },
+  { preset: 'this-week', label: TEXT_CONSTANTS[261] },
+  { preset: 'custom', label: TEXT_CONSTANTS[262] }
+];
+
+// "Resolved in the last N hours" choices (the longest matches RESOLVED_RETENTION_MS)
+const RESOLVED_WINDOW_HOURS = [1, 3, 6, 12, 24, 48];
 
 interface FilterPanelProps {
   filters: FilterState;
@@ -11,16 +40,42 @@ interface FilterPanelProps {
     minor: number;
     total: number;
   };
-  onShowAlert?: (type: 'error' | 'warning' | 'info' | 'success', title: string, message: string) => void;
+  facets: FilterFacets; // Status, category and sub-category options with live counts
+  isSearchWatched: boolean; // Current search text is already a saved watch
+  onWatchSearch: (term: string) => void; // Save the current search text as a watch
+  onShowAlert?: (type: 'error' | 'warning' | 'info' | 'success', title: string, message: string, options?: AlertOptions) => void;
 }
 
+/**
+ * Splits a query into runs of text, flagging the runs covered by a syntax error
+ */
+const splitAtErrors = (query: string, errors: QuerySyntaxError[]): { text: string; isError: boolean }[] => {
+  const flagged = Array.from(query, (_, index) => errors.some(error => index >= error.start && index < error.end));
+  const runs: { text: string; isError: boolean }[] = [];
+  flagged.forEach((isError, index) => {
+    const last = runs[runs.length - 1];
+    if (last && last.isError === isError) {
+      last.text += query[index];
+    } else {
+      runs.push({ text: query[index], isError });
+    }
+  });
+  return runs;
+};
+
 /**
  * FilterPanel Component
  * 
  * This component provides filtering functionality for traffic disruptions.
  * It allows users to filter disruptions by:
- * 1. Text search (searches through disruption descriptions and locations)
+ * 1. Text search (ranked and typo-tolerant, over locations, street names,
+ *    status updates and descriptions - see utils/search.ts), with a query
+ *    language for fields, "-", OR and relative times (see utils/queryLanguage.ts).
+ *    Syntax errors are underlined below the box and field names autocomplete.
  * 2. Severity levels (severe, moderate, minor)
+ * 3. Time window (active now, next 24h, this week or a custom date range)
+ * 4. Status - active, and/or disruptions resolved in the last N hours
+ * 5. Categories and sub-categories (collapsible, with live counts)
  * 
  * How filtering works:
  * - Filters are managed by parent component and passed down as props
@@ -31,6 +86,11 @@ interface FilterPanelProps {
  * Filter state includes:
  * - searchQuery: string for text-based filtering
  * - severities: Set of selected severity levels
+ * - statuses / resolvedWithinHours: ticked statuses and the resolved window
+ * - categories / subCategories: Sets of ticked values (empty = all)
+ * - timeWindow: preset plus the custom date range
+ * 
+ * Plain search text can be saved as a watch (see SavedWatchPanel).
  */
 
 export const FilterPanel = ({
@@ -38,8 +98,43 @@ export const FilterPanel = ({
   onFiltersChange,
   onClearAll,
   disruptionCounts,
+  facets,
+  isSearchWatched,
+  onWatchSearch,
   onShowAlert
 }: FilterPanelProps) => {
+  // Pending "Search Applied" toast, replaced on every keystroke
+  const searchAlertTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const searchInput = useRef<HTMLInputElement>(null);
+  // Caret position to restore once an accepted suggestion has rendered
+  const pendingCursor = useRef<number | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [suggestionsOpen, setSuggestionsOpen] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [showSyntaxHelp, setShowSyntaxHelp] = useState(false);
+  const [showCategories, setShowCategories] = useState(false);
+  const selectedCategoryCount = filters.categories.size + filters.subCategories.size;
+  const showsResolved = filters.statuses.size === 0 || filters.statuses.has('Inactive');
+
+  const parsedQuery = useMemo(() => parseQuery(filters.searchQuery), [filters.searchQuery]);
+  const suggestions = useMemo(
+    () => (suggestionsOpen ? getQuerySuggestions(filters.searchQuery, cursor) : null),
+    [filters.searchQuery, cursor, suggestionsOpen]
+  );
+  const highlightedSuggestion = suggestions ? Math.min(activeSuggestion, suggestions.items.length - 1) : 0;
+
+  useEffect(() => () => {
+    if (searchAlertTimer.current) clearTimeout(searchAlertTimer.current);
+  }, []);
+
+  // Put the caret after an accepted suggestion
+  useEffect(() => {
+    if (pendingCursor.current === null || !searchInput.current) return;
+    searchInput.current.focus();
+    searchInput.current.setSelectionRange(pendingCursor.current, pendingCursor.current);
+    pendingCursor.current = null;
+  }, [filters.searchQuery]);
+
   /**
    * Handles severity filter changes (checkboxes)
    * 
@@ -71,18 +166,78 @@ export const FilterPanel = ({
    * 2. Calls parent's onFiltersChange with new search query
    * 3. Parent applies text filter to disruption descriptions/locations
    * 4. Results update in real-time as user types
+   * 5. Once typing pauses, confirms the search with a single toast
    * 
    * @param event - React change event from the search input
    */
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const searchValue = event.target.value;
     onFiltersChange({ searchQuery: searchValue });
+    setCursor(event.target.selectionStart ?? searchValue.length);
+    setSuggestionsOpen(true);
+    setActiveSuggestion(0);
 
-    // Show search feedback for longer queries
+    // Show search feedback for longer queries, once typing has stopped
+    if (searchAlertTimer.current) clearTimeout(searchAlertTimer.current);
     if (onShowAlert && searchValue.length >= 3) {
-      setTimeout(() => {
-        onShowAlert('info', 'Search Applied', `Searching for "${searchValue}"`);
-      }, 500); // Small delay to avoid spam during typing
+      searchAlertTimer.current = setTimeout(() => {
+        onShowAlert('info', 'Search Applied', `Searching for "${searchValue}"`, { groupKey: 'search' });
+      }, SEARCH_ALERT_DELAY_MS);
+    }
+  };
+
+  /**
+   * Updates the time filter
+   * Choosing Custom with no start date starts the range today.
+   * 
+   * @param changes - Preset and/or custom dates to change
+   */
+  const handleTimeWindowChange = (changes: Partial<TimeWindowFilter>) => {
+    const timeWindow = { ...filters.timeWindow, ...changes };
+    if (changes.preset === 'custom' && !timeWindow.from) {
+      timeWindow.from = toLocalDateString(Date.now());
+    }
+    onFiltersChange({ timeWindow });
+  };
+
+  /**
+   * Replaces the term being typed with an autocomplete suggestion
+   * Field names keep the list open so their values are offered next.
+   */
+  const acceptSuggestion = (suggestion: QuerySuggestion) => {
+    if (!suggestions) return;
+    const next = applyQuerySuggestion(filters.searchQuery, suggestions, suggestion);
+    pendingCursor.current = next.cursor;
+    onFiltersChange({ searchQuery: next.query });
+    setCursor(next.cursor);
+    setActiveSuggestion(0);
+    setSuggestionsOpen(suggestion.insert.endsWith(':'));
+  };
+
+  /**
+   * Keyboard control of the autocomplete list
+   * Arrows move through it, Enter or Tab accepts and Escape closes it
+   */
+  const handleSearchKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestions) return;
+    const count = suggestions.items.length;
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveSuggestion((highlightedSuggestion + 1) % count);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveSuggestion((highlightedSuggestion - 1 + count) % count);
+        break;
+      case 'Enter':
+      case 'Tab':
+        event.preventDefault();
+        acceptSuggestion(suggestions.items[highlightedSuggestion]);
+        break;
+      case 'Escape':
+        setSuggestionsOpen(false);
+        break;
     }
   };
 
@@ -163,9 +318,18 @@ export const FilterPanel = ({
 
       {/* Search Filter Section - Allows text-based filtering of disruptions */}
       <div className="mb-6">
-        <label htmlFor="search-input" className="block text-sm font-medium text-slate-700 mb-3">
-          {TEXT_CONSTANTS[12]}
-        </label>
+        <div className="flex items-center justify-between mb-3">
+          <label htmlFor="search-input" className="block text-sm font-medium text-slate-700">
+            {TEXT_CONSTANTS[12]}
+          </label>
+          <button
+            onClick={() => setShowSyntaxHelp(shown => !shown)}
+            aria-expanded={showSyntaxHelp}
+            className="text-xs font-medium text-blue-600 hover:text-blue-800"
+          >
+            {TEXT_CONSTANTS[237]}
+          </button>
+        </div>
         <div className="relative">
           {/* Search icon positioned at the left of input */}
           <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -180,10 +344,23 @@ export const FilterPanel = ({
             placeholder={TEXT_CONSTANTS[13]}
             value={filters.searchQuery}
             onChange={handleSearchChange}
-            className="w-full pl-10 pr-4 py-3 border border-slate-200 rounded-xl 
+            onKeyDown={handleSearchKeyDown}
+            onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? 0)}
+            onFocus={() => setSuggestionsOpen(true)}
+            onBlur={() => setSuggestionsOpen(false)}
+            ref={searchInput}
+            role="combobox"
+            aria-autocomplete="list"
+            aria-expanded={suggestions !== null}
+            aria-controls="search-suggestions"
+            aria-invalid={parsedQuery.errors.length > 0}
+            autoComplete="off"
+            spellCheck={false}
+            className={`w-full pl-10 pr-4 py-3 border rounded-xl 
+                     ${parsedQuery.errors.length > 0 ? 'border-red-300' : 'border-slate-200'}
                      focus:ring-2 focus:ring-blue-500 focus:border-transparent
                      placeholder-slate-400 text-slate-900 bg-white
-                     transition-all duration-200 shadow-sm hover:shadow-md"
+                     transition-all duration-200 shadow-sm hover:shadow-md`}
           />
           {/* Clear search button - only shown when there's text in search */}
           {filters.searchQuery && (
@@ -196,7 +373,89 @@ export const FilterPanel = ({
               </svg>
             </button>
           )}
+
+          {/* Field name and value autocomplete - mouse down keeps focus in the input */}
+          {suggestions && (
+            <ul
+              id="search-suggestions"
+              role="listbox"
+              className="absolute z-20 left-0 right-0 mt-1 bg-white border border-slate-200 rounded-xl shadow-lg overflow-hidden"
+            >
+              {suggestions.items.map((suggestion, index) => (
+                <li
+                  key={suggestion.label}
+                  role="option"
+                  aria-selected={index === highlightedSuggestion}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    acceptSuggestion(suggestion);
+                  }}
+                  onMouseEnter={() => setActiveSuggestion(index)}
+                  className={`px-3 py-2 cursor-pointer text-sm ${index === highlightedSuggestion ? 'bg-blue-50' : ''}`}
+                >
+                  <span className="font-mono text-slate-900">{suggestion.label}</span>
+                  {suggestion.description && (
+                    <span className="block text-xs text-slate-500">{suggestion.description}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
+
+        {/* Inline syntax errors - the query with the invalid parts underlined */}
+        {parsedQuery.errors.length > 0 && (
+          <div role="alert" className="mt-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+            <p className="font-mono whitespace-pre-wrap break-all text-slate-700">
+              {splitAtErrors(filters.searchQuery, parsedQuery.errors).map((run, index) => (
+                <span
+                  key={index}
+                  className={run.isError ? 'text-red-700 underline decoration-wavy decoration-red-500' : ''}
+                >
+                  {run.text}
+                </span>
+              ))}
+            </p>
+            <ul className="mt-1 space-y-0.5">
+              {parsedQuery.errors.map(error => (
+                <li key={`${error.start}-${error.message}`}>{error.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Syntax reference - fields, then operators */}
+        {showSyntaxHelp && (
+          <dl className="mt-2 rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs space-y-1">
+            {Object.entries(QUERY_FIELDS).map(([name, field]) => (
+              <div key={name} className="flex gap-2">
+                <dt className="font-mono text-slate-900 w-20 flex-shrink-0">{name}:</dt>
+                <dd className="text-slate-600">{field.description}</dd>
+              </div>
+            ))}
+            {QUERY_SYNTAX_HELP.map(({ syntax, description }) => (
+              <div key={syntax} className="flex gap-2">
+                <dt className="font-mono text-slate-900 w-20 flex-shrink-0">{syntax}</dt>
+                <dd className="text-slate-600">{description}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        {/* Save plain search text as a watched road/term - watches don't understand query syntax */}
+        {filters.searchQuery.trim() && parsedQuery.isPlainText && (
+          <button
+            onClick={() => onWatchSearch(filters.searchQuery)}
+            disabled={isSearchWatched}
+            className="mt-2 flex items-center space-x-1 text-xs font-medium text-blue-600 hover:text-blue-800 
+                     disabled:text-slate-400 disabled:cursor-default"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+            </svg>
+            <span>{isSearchWatched ? TEXT_CONSTANTS[100] : TEXT_CONSTANTS[95]}</span>
+          </button>
+        )}
       </div>
 
       {/* Severity Filters Section - Checkboxes for each severity level */}
@@ -266,6 +525,122 @@ export const FilterPanel = ({
         </div>
       </div>
 
+      {/* Time Window Section - Presets, or a date range for planning ahead */}
+      <div className="mt-6">
+        <h4 className="text-sm font-medium text-slate-700 mb-3">{TEXT_CONSTANTS[257]}</h4>
+        <div className="flex flex-wrap gap-1.5">
+          {TIME_WINDOW_OPTIONS.map(({ preset, label }) => (
+            <button
+              key={preset}
+              onClick={() => handleTimeWindowChange({ preset })}
+              aria-pressed={filters.timeWindow.preset === preset}
+              className={`
+                px-3 py-1.5 rounded-lg text-xs font-medium border transition-all duration-200
+                ${filters.timeWindow.preset === preset
+                  ? 'bg-blue-500 border-blue-500 text-white shadow-sm'
+                  : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}
+              `}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Date range picker - either end can be left open */}
+        {filters.timeWindow.preset === 'custom' && (
+          <div className="mt-3 grid grid-cols-2 gap-2">
+            <label className="text-xs text-slate-600">
+              {TEXT_CONSTANTS[263]}
+              <input
+                type="date"
+                value={filters.timeWindow.from}
+                max={filters.timeWindow.to || undefined}
+                onChange={(e) => handleTimeWindowChange({ from: e.target.value })}
+                className="mt-1 w-full px-2 py-1.5 border border-slate-200 rounded-lg text-sm text-slate-900 bg-white
+                         focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+            <label className="text-xs text-slate-600">
+              {TEXT_CONSTANTS[264]}
+              <input
+                type="date"
+                value={filters.timeWindow.to}
+                min={filters.timeWindow.from || undefined}
+                onChange={(e) => handleTimeWindowChange({ to: e.target.value })}
+                className="mt-1 w-full px-2 py-1.5 border border-slate-200 rounded-lg text-sm text-slate-900 bg-white
+                         focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </label>
+          </div>
+        )}
+      </div>
+
+      {/* Status Section - Resolved disruptions confirm a clearance, for a few hours */}
+      <div className="mt-6">
+        <FacetFilter
+          title={TEXT_CONSTANTS[271]}
+          facets={facets.statuses}
+          selected={filters.statuses}
+          onChange={(statuses) => onFiltersChange({ statuses })}
+          formatLabel={formatStatus}
+        />
+        {showsResolved && (
+          <label className="-mt-3 flex items-center justify-between text-xs text-slate-600">
+            {TEXT_CONSTANTS[272]}
+            <select
+              value={filters.resolvedWithinHours}
+              onChange={(e) => onFiltersChange({ resolvedWithinHours: Number(e.target.value) })}
+              className="px-2 py-1 border border-slate-200 rounded-lg text-sm text-slate-900 bg-white
+                       focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {RESOLVED_WINDOW_HOURS.map(hours => (
+                <option key={hours} value={hours}>{hours}h</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {/* Category Filters Section - Collapsible facets with live counts */}
+      <div className="mt-6">
+        <button
+          onClick={() => setShowCategories(shown => !shown)}
+          aria-expanded={showCategories}
+          className="w-full flex items-center justify-between text-sm font-medium text-slate-700 hover:text-slate-900"
+        >
+          <span className="flex items-center space-x-2">
+            <span>{TEXT_CONSTANTS[252]}</span>
+            {selectedCategoryCount > 0 && (
+              <span className="px-2 py-0.5 rounded-full bg-blue-500 text-white text-xs font-semibold">
+                {selectedCategoryCount}
+              </span>
+            )}
+          </span>
+          <svg
+            className={`w-4 h-4 transition-transform duration-200 ${showCategories ? 'rotate-180' : ''}`}
+            fill="none" stroke="currentColor" viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+
+        {showCategories && (
+          <div className="mt-4">
+            <FacetFilter
+              title={TEXT_CONSTANTS[252]}
+              facets={facets.categories}
+              selected={filters.categories}
+              onChange={(categories) => onFiltersChange({ categories })}
+            />
+            <FacetFilter
+              title={TEXT_CONSTANTS[253]}
+              facets={facets.subCategories}
+              selected={filters.subCategories}
+              onChange={(subCategories) => onFiltersChange({ subCategories })}
+            />
+          </div>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,35 @@
+import { Fragment } from 'react';
+import { getHighlightRanges } from '../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;                                 // Search text; empty shows the plain text
+}
+
+/**
+ * HighlightedText Component
+ * 
+ * Renders text with the words matching the current search marked, using the
+ * same typo-tolerant matching that ranks the results.
+ */
+export const HighlightedText = ({ text, query }: HighlightedTextProps) => {
+  const ranges = query ? getHighlightRanges(text, query) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  let position = 0;
+  return (
+    <>
+      {ranges.map(range => {
+        const before = text.slice(position, range.start);
+        position = range.end;
+        return (
+          <Fragment key={range.start}>
+            {before}
+            <mark className="bg-yellow-200 text-inherit rounded-sm px-0.5 -mx-0.5">{text.slice(range.start, range.end)}</mark>
+          </Fragment>
+        );
+      })}
+      {text.slice(position)}
+    </>
+  );
+};
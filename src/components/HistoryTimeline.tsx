@@ -0,0 +1,119 @@
+import { TEXT_CONSTANTS } from '../constants/text';
+import { HISTORY_RETENTION_OPTIONS } from '../services/historyStore';
+import { formatCaptureTime } from '../utils/disruptionUtils';
+
+interface HistoryTimelineProps {
+  times: string[];                     // Recorded capture times, oldest first
+  activeTime: string | null;           // Capture time being replayed
+  disruptionCount: number;             // Disruptions in the replayed snapshot
+  retentionHours: number;
+  onSelectTime: (time: string) => void;
+  onRetentionChange: (hours: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Formats a retention option: "6 hours", "3 days"
+ */
+const formatRetention = (hours: number): string =>
+  hours < 48 ? `${hours} hours` : `${hours / 24} days`;
+
+/**
+ * HistoryTimeline Component
+ * 
+ * Bar under the header that replays recorded refreshes. While it is open the
+ * map and list show the selected moment instead of live data.
+ * 
+ * Features:
+ * - Slider with one stop per recorded refresh, plus earlier/later buttons
+ * - Capture time and disruption count of the replayed snapshot
+ * - Retention setting (how long history is kept)
+ * - "Back to live" to return to the live feed
+ */
+export const HistoryTimeline = ({
+  times,
+  activeTime,
+  disruptionCount,
+  retentionHours,
+  onSelectTime,
+  onRetentionChange,
+  onClose
+}: HistoryTimelineProps) => {
+  const activeIndex = activeTime ? times.indexOf(activeTime) : -1;
+
+  const selectIndex = (index: number) => {
+    const time = times[index];
+    if (time) onSelectTime(time);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 sm:px-6 lg:px-8 py-2 bg-slate-800 text-slate-100 text-sm">
+      <div className="flex items-center gap-2 font-semibold">
+        <svg className="w-4 h-4 text-slate-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <span>{TEXT_CONSTANTS[63]}</span>
+        {activeTime && (
+          <span className="px-2 py-0.5 rounded bg-slate-700 font-mono text-xs">
+            {formatCaptureTime(new Date(activeTime))} · {disruptionCount}
+          </span>
+        )}
+      </div>
+
+      {times.length === 0 ? (
+        <span className="flex-1 text-slate-300">{TEXT_CONSTANTS[64]}</span>
+      ) : (
+        <div className="flex flex-1 items-center gap-2 min-w-[12rem]">
+          <button
+            onClick={() => selectIndex(activeIndex - 1)}
+            disabled={activeIndex <= 0}
+            className="px-2 py-1 rounded hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label={TEXT_CONSTANTS[67]}
+            title={TEXT_CONSTANTS[67]}
+          >
+            ‹
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={times.length - 1}
+            value={Math.max(activeIndex, 0)}
+            onChange={event => selectIndex(Number(event.target.value))}
+            className="flex-1 accent-blue-400"
+            aria-label={TEXT_CONSTANTS[63]}
+            aria-valuetext={activeTime ? formatCaptureTime(new Date(activeTime)) : undefined}
+          />
+          <button
+            onClick={() => selectIndex(activeIndex + 1)}
+            disabled={activeIndex >= times.length - 1}
+            className="px-2 py-1 rounded hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label={TEXT_CONSTANTS[68]}
+            title={TEXT_CONSTANTS[68]}
+          >
+            ›
+          </button>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-slate-300">
+        {TEXT_CONSTANTS[66]}
+        <select
+          value={retentionHours}
+          onChange={event => onRetentionChange(Number(event.target.value))}
+          className="bg-slate-700 text-slate-100 rounded px-2 py-1 text-xs"
+        >
+          {HISTORY_RETENTION_OPTIONS.map(hours => (
+            <option key={hours} value={hours}>{formatRetention(hours)}</option>
+          ))}
+        </select>
+      </label>
+
+      <button
+        onClick={onClose}
+        className="px-3 py-1 rounded-md bg-blue-500 hover:bg-blue-600 text-white text-xs font-medium transition-colors"
+      >
+        {TEXT_CONSTANTS[65]}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import type { IncidentAction, IncidentEventType, IncidentRecord } from '../types/disruption';
+import { formatDateTime } from '../utils/disruptionUtils';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface IncidentHistoryProps {
+  record: IncidentRecord | undefined;            // Undefined before the first action
+  readOnly?: boolean;                            // Historical playback - history only, no controls
+  onAction?: (action: IncidentAction) => void;
+}
+
+const EVENT_LABELS: Record<IncidentEventType, string> = {
+  acknowledged: TEXT_CONSTANTS[210],
+  assigned: TEXT_CONSTANTS[212],
+  unassigned: TEXT_CONSTANTS[223],
+  note: TEXT_CONSTANTS[225],
+  handled: TEXT_CONSTANTS[218],
+  reopened: TEXT_CONSTANTS[224],
+  changed: TEXT_CONSTANTS[222]
+};
+
+const EVENT_DOT_COLORS: Record<IncidentEventType, string> = {
+  acknowledged: 'bg-green-500',
+  assigned: 'bg-blue-500',
+  unassigned: 'bg-gray-400',
+  note: 'bg-slate-400',
+  handled: 'bg-green-700',
+  reopened: 'bg-orange-500',
+  changed: 'bg-red-500'
+};
+
+const inputClassName = 'flex-1 min-w-0 px-2 py-1 text-xs border border-gray-200 rounded bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClassName = 'px-2 py-1 rounded text-xs font-medium border border-gray-200 bg-white text-gray-700 hover:border-gray-300 disabled:opacity-50';
+
+/**
+ * IncidentHistory Component
+ * 
+ * History tab of an expanded disruption card:
+ * - Acknowledge, mark handled/reopen, assign to a named person and add notes
+ * - Every action and every change after an acknowledgement, newest first,
+ *   with its time
+ * 
+ * Clicks are kept inside the tab so they don't select the card.
+ */
+export const IncidentHistory = ({ record, readOnly = false, onAction }: IncidentHistoryProps) => {
+  const [assignee, setAssignee] = useState(record?.assignee ?? '');
+  const [note, setNote] = useState('');
+
+  const canAct = !readOnly && !!onAction;
+  const history = [...(record?.history ?? [])].reverse();
+
+  const submitAssignee = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = assignee.trim();
+    if (name && name !== record?.assignee) onAction?.({ type: 'assign', assignee: name });
+  };
+
+  const submitNote = (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = note.trim();
+    if (!text) return;
+    onAction?.({ type: 'note', text });
+    setNote('');
+  };
+
+  return (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      {canAct && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-1.5">
+            <button
+              onClick={() => onAction?.({ type: 'acknowledge' })}
+              disabled={!!record?.acknowledgement}
+              className={buttonClassName}
+            >
+              {record?.acknowledgement ? TEXT_CONSTANTS[210] : TEXT_CONSTANTS[209]}
+            </button>
+            <button
+              onClick={() => onAction?.({ type: 'set-handled', handled: !record?.handled })}
+              className={buttonClassName}
+            >
+              {record?.handled ? TEXT_CONSTANTS[219] : TEXT_CONSTANTS[217]}
+            </button>
+            {record?.assignee && (
+              <button
+                onClick={() => {
+                  setAssignee('');
+                  onAction?.({ type: 'assign', assignee: null });
+                }}
+                className={buttonClassName}
+              >
+                {TEXT_CONSTANTS[214]}
+              </button>
+            )}
+          </div>
+
+          <form onSubmit={submitAssignee} className="flex gap-1.5">
+            <input
+              type="text"
+              value={assignee}
+              onChange={(e) => setAssignee(e.target.value)}
+              placeholder={TEXT_CONSTANTS[213]}
+              className={inputClassName}
+            />
+            <button type="submit" disabled={!assignee.trim()} className={buttonClassName}>
+              {TEXT_CONSTANTS[211]}
+            </button>
+          </form>
+
+          <form onSubmit={submitNote} className="flex gap-1.5">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={TEXT_CONSTANTS[216]}
+              className={inputClassName}
+            />
+            <button type="submit" disabled={!note.trim()} className={buttonClassName}>
+              {TEXT_CONSTANTS[215]}
+            </button>
+          </form>
+        </div>
+      )}
+
+      {history.length === 0 ? (
+        <p className="text-xs text-gray-500">{TEXT_CONSTANTS[220]}</p>
+      ) : (
+        <ol className="space-y-1.5">
+          {history.map(event => (
+            <li key={event.id} className="flex items-start gap-2 text-xs">
+              <span className={`w-2 h-2 mt-1 rounded-full flex-shrink-0 ${EVENT_DOT_COLORS[event.type]}`} />
+              <div className="min-w-0">
+                <span className="font-medium text-gray-700">{EVENT_LABELS[event.type]}</span>
+                {event.text && <span className="text-gray-600">: {event.text}</span>}
+                <p className="text-gray-400">{formatDateTime(event.at)}</p>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
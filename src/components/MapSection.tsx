@@ -1,7 +1,12 @@
+import { useEffect, useState } from "react";
 import { TrafficMap } from "./TrafficMap";
+import { WatchZoneLayer, type ZoneDrawMode } from "./WatchZoneLayer";
+import { WatchZonePanel } from "./WatchZonePanel";
 import { UI_CONSTANTS } from "../constants/ui";
 import { TEXT_CONSTANTS } from "../constants/text";
-import type { Disruption } from "../types/disruption";
+import { getDistanceMeters } from "../utils/geometry";
+import { countByCategory } from "../utils/disruptionUtils";
+import type { Disruption, LngLat, WatchZoneShape, WatchZoneSummary } from "../types/disruption";
 
 interface MapSectionProps {
   disruptions: Disruption[];
@@ -13,8 +18,17 @@ interface MapSectionProps {
     minor: number;
     total: number;
   };
+  readOnly?: boolean; // Replaying history instead of live data
+  mutedIds?: Set<string>; // Snoozed/muted disruptions, drawn faded
+  searchQuery?: string; // Highlighted in map popups
+  zoneSummaries: WatchZoneSummary[]; // Watch zones with live disruption counts
+  onZoneCreate: (name: string, shape: WatchZoneShape) => void;
+  onZoneDelete: (id: string) => void;
 }
 
+// Points closer than this are treated as one (a double-click also fires two clicks)
+const DUPLICATE_POINT_METERS = 1;
+
 /**
  * MapSection Component
  * 
@@ -24,24 +38,120 @@ interface MapSectionProps {
  * 
  * Features:
  * - Displays an interactive TrafficMap with disruption markers
- * - Shows a floating stats overlay with real-time disruption counts by severity
+ * - Shows a floating stats overlay with real-time disruption counts by severity,
+ *   plus a breakdown by category of the disruptions on the map
  * - Handles disruption selection and highlighting on the map
  * - Responsive design that takes up the remaining space beside the sidebar
  * - Color-coded severity indicators (red=severe, orange=moderate, yellow=minor)
+ * - Watch zone drawing tools and zone badges (hidden while replaying history)
  */
 export const MapSection = ({
   disruptions,
   selectedDisruption,
   onDisruptionSelect,
   disruptionCounts,
+  readOnly = false,
+  mutedIds,
+  searchQuery,
+  zoneSummaries,
+  onZoneCreate,
+  onZoneDelete,
 }: MapSectionProps) => {
+  // Watch zone drawing: active tool, clicked points, and the finished shape awaiting a name
+  const [drawMode, setDrawMode] = useState<ZoneDrawMode | null>(null);
+  const [draftPoints, setDraftPoints] = useState<LngLat[]>([]);
+  const [pendingShape, setPendingShape] = useState<WatchZoneShape | null>(null);
+
+  const startDrawing = (mode: ZoneDrawMode) => {
+    setDrawMode(mode);
+    setDraftPoints([]);
+  };
+
+  const cancelDrawing = () => {
+    setDrawMode(null);
+    setDraftPoints([]);
+    setPendingShape(null);
+  };
+
+  // Escape abandons the shape being drawn
+  useEffect(() => {
+    if (!drawMode && !pendingShape) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") cancelDrawing();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [drawMode, pendingShape]);
+
+  // Circles finish on the second click; polygons keep collecting points
+  const handleDraftPoint = (point: LngLat) => {
+    if (drawMode === "circle" && draftPoints.length === 1) {
+      const radiusMeters = getDistanceMeters(draftPoints[0], point);
+      if (radiusMeters < DUPLICATE_POINT_METERS) return;
+      setPendingShape({ type: "circle", center: draftPoints[0], radiusMeters });
+      setDrawMode(null);
+      setDraftPoints([]);
+      return;
+    }
+    const last = draftPoints[draftPoints.length - 1];
+    if (last && getDistanceMeters(last, point) < DUPLICATE_POINT_METERS) return;
+    setDraftPoints((prev) => [...prev, point]);
+  };
+
+  const finishPolygon = () => {
+    if (draftPoints.length < 3) return;
+    setPendingShape({ type: "polygon", coordinates: draftPoints });
+    setDrawMode(null);
+    setDraftPoints([]);
+  };
+
+  // Category breakdown of what the map shows (after filters)
+  const categoryBreakdown = countByCategory(disruptions);
+
+  const saveZone = (name: string) => {
+    if (!pendingShape) return;
+    onZoneCreate(name, pendingShape);
+    setPendingShape(null);
+  };
+
   return (
     <section className="flex-1 relative">
       <TrafficMap
         disruptions={disruptions}
         onDisruptionSelect={onDisruptionSelect}
         selectedDisruption={selectedDisruption}
-      />
+        readOnly={readOnly}
+        mutedIds={mutedIds}
+        searchQuery={searchQuery}
+      >
+        {!readOnly && (
+          <WatchZoneLayer
+            zoneSummaries={zoneSummaries}
+            drawMode={drawMode}
+            draftPoints={draftPoints}
+            pendingShape={pendingShape}
+            onDraftPoint={handleDraftPoint}
+            onDraftFinish={finishPolygon}
+          />
+        )}
+      </TrafficMap>
+
+      {/* Watch zone tools - live data only */}
+      {!readOnly && (
+        <div className={`absolute bottom-6 left-4 ${UI_CONSTANTS.STATS_OVERLAY.Z_INDEX}`}>
+          <WatchZonePanel
+            zoneSummaries={zoneSummaries}
+            drawMode={drawMode}
+            canFinish={draftPoints.length >= 3}
+            hasPendingShape={!!pendingShape}
+            onStartDrawing={startDrawing}
+            onFinishDrawing={finishPolygon}
+            onCancelDrawing={cancelDrawing}
+            onSaveZone={saveZone}
+            onDeleteZone={onZoneDelete}
+          />
+        </div>
+      )}
       <div
         className={`absolute top-4 right-4 ${UI_CONSTANTS.STATS_OVERLAY.Z_INDEX}`}
       >
@@ -66,6 +176,20 @@ export const MapSection = ({
               </span>
             </div>
           </div>
+
+          {categoryBreakdown.length > 0 && (
+            <div className="mt-3 pt-3 border-t border-slate-200">
+              <p className="text-xs font-medium text-slate-500 mb-1.5">{TEXT_CONSTANTS[255]}</p>
+              <ul className="space-y-1 text-xs">
+                {categoryBreakdown.map(({ value, count }) => (
+                  <li key={value} className="flex items-center justify-between gap-4">
+                    <span className="text-slate-700 truncate">{value}</span>
+                    <span className="font-semibold text-slate-900">{count}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     </section>
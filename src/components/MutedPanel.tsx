@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import type { DisruptionMute } from '../types/disruption';
+import { formatCaptureTime, getSeverityConfig } from '../utils/disruptionUtils';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface MutedPanelProps {
+  mutes: DisruptionMute[];
+  hideMuted: boolean;                            // Hidden rather than dimmed in the list and map
+  onHideMutedChange: (hide: boolean) => void;
+  onUnmute: (disruptionId: string) => void;
+  onUnmuteAll: () => void;
+}
+
+/**
+ * When a mute ends, e.g. "until 14:30" or "Until severity changes"
+ */
+const describeMuteEnd = (mute: DisruptionMute): string =>
+  mute.until ? `${TEXT_CONSTANTS[205]} ${formatCaptureTime(new Date(mute.until))}` : TEXT_CONSTANTS[201];
+
+/**
+ * MutedPanel Component
+ * 
+ * Drawer listing snoozed and muted disruptions, shown while there are any:
+ * - When each mute ends, with a restore button per disruption
+ * - Restore all, and a switch between dimming and hiding muted disruptions
+ */
+export const MutedPanel = ({
+  mutes,
+  hideMuted,
+  onHideMutedChange,
+  onUnmute,
+  onUnmuteAll
+}: MutedPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (mutes.length === 0) return null;
+
+  return (
+    <div className="border-b border-slate-200 flex-shrink-0">
+      {/* Header - toggles the drawer */}
+      <div className="px-6 py-3 flex items-center justify-between">
+        <button
+          onClick={() => setIsOpen(prev => !prev)}
+          className="flex items-center space-x-2 text-sm font-medium text-slate-700 hover:text-slate-900"
+          aria-expanded={isOpen}
+        >
+          <svg
+            className={`w-4 h-4 text-slate-500 transition-transform duration-200 ${isOpen ? '' : '-rotate-90'}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+          <span>{TEXT_CONSTANTS[195]}</span>
+          <span className="text-xs text-slate-500">({mutes.length})</span>
+        </button>
+        {isOpen && (
+          <button onClick={onUnmuteAll} className="text-xs text-blue-600 hover:underline">
+            {TEXT_CONSTANTS[203]}
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="px-4 pb-3 space-y-2">
+          <ul className="max-h-56 overflow-y-auto space-y-1">
+            {mutes.map(mute => (
+              <li key={mute.disruptionId} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-50">
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${getSeverityConfig(mute.severity).badgeColor}`} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-900 truncate">{mute.location}</p>
+                  <p className="text-xs text-slate-500">{describeMuteEnd(mute)}</p>
+                </div>
+                <button
+                  onClick={() => onUnmute(mute.disruptionId)}
+                  className="text-xs text-blue-600 hover:underline flex-shrink-0"
+                >
+                  {TEXT_CONSTANTS[202]}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <label className="flex items-center gap-2 px-2 text-xs text-slate-600">
+            <input
+              type="checkbox"
+              checked={hideMuted}
+              onChange={event => onHideMutedChange(event.target.checked)}
+              className="accent-blue-600"
+            />
+            <span>{TEXT_CONSTANTS[204]}</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
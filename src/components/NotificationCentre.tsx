@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import type { AlertHistoryEntry, AlertType } from './AlertSystem';
+import { formatCaptureTime } from '../utils/disruptionUtils';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface NotificationCentreProps {
+  history: AlertHistoryEntry[];                  // Newest first
+  unreadCount: number;
+  isOpen: boolean;
+  onToggle: () => void;
+  onMarkRead: (id: string) => void;
+  onMarkAllRead: () => void;
+  onClear: () => void;
+}
+
+// Dot colour per alert type, matching the toast colours
+const TYPE_DOT_COLORS: Record<AlertType, string> = {
+  error: 'bg-red-500',
+  warning: 'bg-yellow-500',
+  info: 'bg-blue-500',
+  success: 'bg-green-500'
+};
+
+/**
+ * NotificationCentre Component
+ * 
+ * Bell button in the header with a dropdown of every past alert:
+ * - Unread badge on the bell
+ * - Search across titles and messages
+ * - Click an entry to mark it read; "Mark all read" and "Clear" for the lot
+ * - Merged alerts show how many were folded together
+ */
+export const NotificationCentre = ({
+  history,
+  unreadCount,
+  isOpen,
+  onToggle,
+  onMarkRead,
+  onMarkAllRead,
+  onClear
+}: NotificationCentreProps) => {
+  const [query, setQuery] = useState('');
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleEntries = normalizedQuery
+    ? history.filter(entry =>
+        `${entry.title} ${entry.message}`.toLowerCase().includes(normalizedQuery))
+    : history;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={onToggle}
+        className={`
+          relative p-2 rounded-lg transition-all duration-200
+          backdrop-blur-sm border border-white/20
+          ${isOpen ? 'bg-white text-blue-700' : 'bg-white/10 hover:bg-white/20'}
+        `}
+        aria-expanded={isOpen}
+        aria-label={TEXT_CONSTANTS[106]}
+        title={TEXT_CONSTANTS[106]}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white text-gray-800 rounded-xl shadow-xl border border-gray-200 overflow-hidden z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h2 className="text-sm font-semibold">{TEXT_CONSTANTS[106]}</h2>
+            <div className="flex items-center gap-3 text-xs">
+              <button
+                onClick={onMarkAllRead}
+                disabled={unreadCount === 0}
+                className="text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+              >
+                {TEXT_CONSTANTS[107]}
+              </button>
+              <button
+                onClick={onClear}
+                disabled={history.length === 0}
+                className="text-gray-500 hover:underline disabled:text-gray-300 disabled:no-underline"
+              >
+                {TEXT_CONSTANTS[108]}
+              </button>
+            </div>
+          </div>
+
+          <div className="px-4 py-2 border-b border-gray-100">
+            <input
+              type="search"
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder={TEXT_CONSTANTS[109]}
+              className="w-full px-3 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {visibleEntries.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">
+              {history.length === 0 ? TEXT_CONSTANTS[110] : TEXT_CONSTANTS[113]}
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {visibleEntries.map(entry => (
+                <li key={entry.id}>
+                  <button
+                    onClick={() => onMarkRead(entry.id)}
+                    className={`w-full text-left px-4 py-3 transition-colors hover:bg-gray-50 ${entry.read ? '' : 'bg-blue-50/60'}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="flex items-center gap-2 text-sm font-medium text-gray-900 min-w-0">
+                        <span className={`w-2 h-2 flex-shrink-0 rounded-full ${TYPE_DOT_COLORS[entry.type]}`} />
+                        <span className={`truncate ${entry.read ? '' : 'font-semibold'}`}>{entry.title}</span>
+                        {entry.count > 1 && (
+                          <span className="text-xs text-gray-500">×{entry.count}</span>
+                        )}
+                      </span>
+                      <span className="flex-shrink-0 text-xs text-gray-400">
+                        {formatCaptureTime(new Date(entry.createdAt))}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-600 whitespace-pre-line line-clamp-3">
+                      {entry.message}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import type { Disruption, SavedWatchSummary } from '../types/disruption';
+import { getSeverityConfig } from '../utils/disruptionUtils';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface SavedWatchPanelProps {
+  watchSummaries: SavedWatchSummary[];
+  selectedDisruption: Disruption | null;
+  onDisruptionSelect: (disruption: Disruption) => void;
+  onRemoveWatch: (id: string) => void;
+}
+
+/**
+ * SavedWatchPanel Component
+ * 
+ * Lists the roads and search terms saved from the search box:
+ * - Live number of matching disruptions per watch (red when any is Serious)
+ * - Click a watch to expand its matches; click a match to select it on the map
+ * - Remove button per watch
+ * 
+ * Matching covers location, description and street names, so a watch can
+ * show disruptions the location-only search box doesn't.
+ */
+export const SavedWatchPanel = ({
+  watchSummaries,
+  selectedDisruption,
+  onDisruptionSelect,
+  onRemoveWatch
+}: SavedWatchPanelProps) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="border-b border-slate-200 flex-shrink-0">
+      {/* Header - toggles the panel */}
+      <div className="px-6 py-3">
+        <button
+          onClick={() => setIsOpen(prev => !prev)}
+          className="flex items-center space-x-2 text-sm font-medium text-slate-700 hover:text-slate-900"
+          aria-expanded={isOpen}
+        >
+          <svg
+            className={`w-4 h-4 text-slate-500 transition-transform duration-200 ${isOpen ? '' : '-rotate-90'}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+          <span>{TEXT_CONSTANTS[94]}</span>
+          {watchSummaries.length > 0 && (
+            <span className="text-xs text-slate-500">({watchSummaries.length})</span>
+          )}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="px-4 pb-3">
+          {watchSummaries.length === 0 ? (
+            <p className="px-2 text-xs text-slate-500">{TEXT_CONSTANTS[96]}</p>
+          ) : (
+            <ul className="max-h-56 overflow-y-auto space-y-1">
+              {watchSummaries.map(({ watch, matches, seriousCount }) => {
+                const isExpanded = expandedId === watch.id;
+
+                return (
+                  <li key={watch.id}>
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => setExpandedId(isExpanded ? null : watch.id)}
+                        className="flex-1 min-w-0 flex items-center justify-between px-2 py-1.5 rounded-lg text-left hover:bg-slate-50 transition-colors duration-150"
+                        aria-expanded={isExpanded}
+                      >
+                        <span className="text-sm font-semibold text-slate-900 truncate">{watch.term}</span>
+                        <span className={`
+                          ml-2 px-2 py-0.5 rounded-full text-xs font-semibold flex-shrink-0
+                          ${seriousCount > 0 ? 'bg-red-500 text-white' : 'bg-slate-100 text-slate-600'}
+                        `}>
+                          {matches.length}
+                        </span>
+                      </button>
+                      <button
+                        onClick={() => onRemoveWatch(watch.id)}
+                        className="ml-1 p-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50"
+                        aria-label={`${TEXT_CONSTANTS[97]} ${watch.term}`}
+                        title={TEXT_CONSTANTS[97]}
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+
+                    {/* Matching disruptions */}
+                    {isExpanded && (
+                      matches.length === 0 ? (
+                        <p className="pl-4 py-1 text-xs text-slate-500">{TEXT_CONSTANTS[99]}</p>
+                      ) : (
+                        <ul className="pl-2 py-1 space-y-0.5">
+                          {matches.map(disruption => (
+                            <li key={disruption.id}>
+                              <button
+                                onClick={() => onDisruptionSelect(disruption)}
+                                className={`
+                                  w-full flex items-center space-x-2 px-2 py-1 rounded text-left text-xs
+                                  ${selectedDisruption?.id === disruption.id ? 'bg-blue-50 text-blue-800' : 'text-slate-600 hover:bg-slate-50'}
+                                `}
+                              >
+                                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${getSeverityConfig(disruption.severity).badgeColor}`} />
+                                <span className="truncate">{disruption.location}</span>
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
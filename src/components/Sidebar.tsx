@@ -1,7 +1,37 @@
+import { useEffect, useState } from 'react';
 import { FilterPanel } from './FilterPanel';
 import { DisruptionList } from './DisruptionList';
+import { DataQualityPanel } from './DataQualityPanel';
+import { CorridorPanel } from './CorridorPanel';
+import { ActivityFeed } from './ActivityFeed';
+import { SavedWatchPanel } from './SavedWatchPanel';
+import { MutedPanel } from './MutedPanel';
+import { AlertRulesPanel } from './AlertRulesPanel';
+import { WebhookTargetsPanel } from './WebhookTargetsPanel';
 import { UI_CONSTANTS } from '../constants/ui';
-import type { Disruption, FilterState } from '../types/disruption';
+import { TEXT_CONSTANTS } from '../constants/text';
+import { getQueryHighlightText } from '../utils/queryLanguage';
+import type {
+  ActivityEntry,
+  AlertRule,
+  CorridorSummary,
+  Disruption,
+  DisruptionMute,
+  FilterFacets,
+  FilterState,
+  IncidentAction,
+  IncidentRecord,
+  MuteMode,
+  SavedWatchSummary,
+  ValidationReport,
+  WatchZone,
+  WebhookDelivery,
+  WebhookTarget
+} from '../types/disruption';
+import type { AlertOptions } from './AlertSystem';
+
+// Lower part of the sidebar: the disruption list, the activity feed or the alert rules and webhooks
+type SidebarTab = 'disruptions' | 'activity' | 'rules';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -18,7 +48,38 @@ interface SidebarProps {
     minor: number;
     total: number;
   };
-  onShowAlert?: (type: 'error' | 'warning' | 'info' | 'success', title: string, message: string) => void;
+  facets: FilterFacets; // Status and category filter options with live counts
+  validationReport: ValidationReport | null;
+  corridorSummaries: CorridorSummary[];
+  readOnly?: boolean; // Replaying history - list shows a past moment
+  now: number; // Reference time for card labels (the replayed moment during playback)
+  activityEntries: ActivityEntry[];
+  onActivitySelect: (entry: ActivityEntry) => void;
+  watchSummaries: SavedWatchSummary[];
+  isSearchWatched: boolean;
+  onWatchSearch: (term: string) => void;
+  onRemoveWatch: (id: string) => void;
+  mutes: DisruptionMute[];
+  mutedIds: Set<string>;
+  hideMuted: boolean;                            // Hidden rather than dimmed in the list and map
+  onHideMutedChange: (hide: boolean) => void;
+  onMute: (disruption: Disruption, mode: MuteMode, durationMs?: number) => void;
+  onUnmute: (disruptionId: string) => void;
+  onUnmuteAll: () => void;
+  incidents: Map<string, IncidentRecord>;        // Operator records by disruption id
+  onIncidentAction: (disruption: Disruption, action: IncidentAction) => void;
+  onExportIncidents: () => void;
+  alertRules: AlertRule[];
+  watchZones: WatchZone[];                       // Zones alert rules and webhooks can be limited to
+  onSaveAlertRule: (rule: AlertRule) => void;
+  onDeleteAlertRule: (id: string) => void;
+  webhookTargets: WebhookTarget[];
+  webhookDeliveries: WebhookDelivery[];
+  onSaveWebhookTarget: (target: WebhookTarget) => void;
+  onDeleteWebhookTarget: (id: string) => void;
+  onSendTestWebhook: (target: WebhookTarget) => void;
+  onClearWebhookDeliveries: () => void;
+  onShowAlert?: (type: 'error' | 'warning' | 'info' | 'success', title: string, message: string, options?: AlertOptions) => void;
 }
 
 /**
@@ -28,7 +89,12 @@ interface SidebarProps {
  * Features:
  * - Mobile-responsive design with slide-in/out animation
  * - Contains FilterPanel for disruption filtering by severity and status
- * - Contains DisruptionList for displaying and selecting disruptions
+ * - Contains SavedWatchPanel listing watched roads/searches with live match counts
+ * - Contains MutedPanel, the drawer of snoozed/muted disruptions (while there are any)
+ * - Contains CorridorPanel for road corridor status and click-to-filter
+ * - Contains DataQualityPanel showing records dropped by validation
+ * - Tabs between DisruptionList, the ActivityFeed of changes this session
+ *   (with an unread count) and the AlertRulesPanel with the WebhookTargetsPanel
  * - Mobile overlay for better UX on smaller screens
  * - Toggleable visibility controlled by parent component
  */
@@ -42,8 +108,57 @@ export const Sidebar = ({
   selectedDisruption,
   onDisruptionSelect,
   disruptionCounts,
+  facets,
+  validationReport,
+  corridorSummaries,
+  readOnly = false,
+  now,
+  activityEntries,
+  onActivitySelect,
+  watchSummaries,
+  isSearchWatched,
+  onWatchSearch,
+  onRemoveWatch,
+  mutes,
+  mutedIds,
+  hideMuted,
+  onHideMutedChange,
+  onMute,
+  onUnmute,
+  onUnmuteAll,
+  incidents,
+  onIncidentAction,
+  onExportIncidents,
+  alertRules,
+  watchZones,
+  onSaveAlertRule,
+  onDeleteAlertRule,
+  webhookTargets,
+  webhookDeliveries,
+  onSaveWebhookTarget,
+  onDeleteWebhookTarget,
+  onSendTestWebhook,
+  onClearWebhookDeliveries,
   onShowAlert
 }: SidebarProps) => {
+  const [activeTab, setActiveTab] = useState<SidebarTab>('disruptions');
+
+  // Detection time of the newest entry the user has seen on the Activity tab
+  const [lastSeenActivity, setLastSeenActivity] = useState('');
+  const newestActivity = activityEntries[0]?.detectedAt ?? '';
+
+  useEffect(() => {
+    if (activeTab === 'activity') setLastSeenActivity(newestActivity);
+  }, [activeTab, newestActivity]);
+
+  const unreadCount = activityEntries.filter(entry => entry.detectedAt > lastSeenActivity).length;
+
+  const tabs: { id: SidebarTab; label: string; badge?: number }[] = [
+    { id: 'disruptions', label: TEXT_CONSTANTS[70] },
+    { id: 'activity', label: TEXT_CONSTANTS[71], badge: unreadCount },
+    { id: 'rules', label: TEXT_CONSTANTS[136] }
+  ];
+
   return (
     <aside className={`
       ${isOpen ? 'translate-x-0' : '-translate-x-full lg:translate-x-0'}
@@ -69,16 +184,110 @@ export const Sidebar = ({
           onFiltersChange={onFiltersChange}
           onClearAll={onClearAll}
           disruptionCounts={disruptionCounts}
+          facets={facets}
+          isSearchWatched={isSearchWatched}
+          onWatchSearch={onWatchSearch}
           onShowAlert={onShowAlert}
         />
-        
-        {/* Disruption list section - Displays filtered disruptions and handles selection */}
-        <DisruptionList
-          disruptions={disruptions}
-          onDisruptionSelect={onDisruptionSelect}
+
+        {/* Watch section - Saved roads/searches with live match counts */}
+        <SavedWatchPanel
+          watchSummaries={watchSummaries}
           selectedDisruption={selectedDisruption}
-          onShowAlert={onShowAlert}
+          onDisruptionSelect={onDisruptionSelect}
+          onRemoveWatch={onRemoveWatch}
+        />
+
+        {/* Muted section - Snoozed/muted disruptions and how they are shown */}
+        <MutedPanel
+          mutes={mutes}
+          hideMuted={hideMuted}
+          onHideMutedChange={onHideMutedChange}
+          onUnmute={onUnmute}
+          onUnmuteAll={onUnmuteAll}
         />
+
+        {/* Corridor section - Corridor statuses; clicking one filters list and map */}
+        <CorridorPanel
+          corridorSummaries={corridorSummaries}
+          selectedCorridorId={filters.corridorId}
+          onFiltersChange={onFiltersChange}
+        />
+
+        {/* Data quality section - How much of the feed was usable and why items were dropped */}
+        <DataQualityPanel report={validationReport} />
+        
+        {/* Tabs - switch the lower section between the list, activity feed and rules */}
+        <div className="flex border-b border-slate-200 flex-shrink-0" role="tablist">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              role="tab"
+              aria-selected={activeTab === tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`
+                flex-1 flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium border-b-2 transition-colors
+                ${activeTab === tab.id
+                  ? 'border-blue-600 text-blue-700'
+                  : 'border-transparent text-slate-500 hover:text-slate-800'}
+              `}
+            >
+              {tab.label}
+              {!!tab.badge && (
+                <span className="px-1.5 py-0.5 rounded-full bg-red-500 text-white text-xs leading-none">
+                  {tab.badge}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'disruptions' && (
+          // Disruption list section - Displays filtered disruptions and handles selection
+          <DisruptionList
+            disruptions={disruptions}
+            onDisruptionSelect={onDisruptionSelect}
+            selectedDisruption={selectedDisruption}
+            readOnly={readOnly}
+            now={now}
+            onShowAlert={onShowAlert}
+            mutedIds={mutedIds}
+            onMute={onMute}
+            onUnmute={onUnmute}
+            incidents={incidents}
+            onIncidentAction={onIncidentAction}
+            onExportIncidents={onExportIncidents}
+            searchQuery={getQueryHighlightText(filters.searchQuery)}
+          />
+        )}
+        {activeTab === 'activity' && (
+          // Activity section - What changed since the session started
+          <ActivityFeed
+            entries={activityEntries}
+            selectedDisruption={selectedDisruption}
+            onEntrySelect={onActivitySelect}
+          />
+        )}
+        {activeTab === 'rules' && (
+          // Rules section - What should raise an alert, and how, then where changes are posted
+          <div className="flex-1 overflow-y-auto">
+            <AlertRulesPanel
+              rules={alertRules}
+              zones={watchZones}
+              onSaveRule={onSaveAlertRule}
+              onDeleteRule={onDeleteAlertRule}
+            />
+            <WebhookTargetsPanel
+              targets={webhookTargets}
+              deliveries={webhookDeliveries}
+              zones={watchZones}
+              onSaveTarget={onSaveWebhookTarget}
+              onDeleteTarget={onDeleteWebhookTarget}
+              onSendTest={onSendTestWebhook}
+              onClearDeliveries={onClearWebhookDeliveries}
+            />
+          </div>
+        )}
       </div>
     </aside>
   );
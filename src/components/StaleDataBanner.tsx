@@ -0,0 +1,50 @@
+import { TEXT_CONSTANTS } from '../constants/text';
+import { formatCaptureTime } from '../utils/disruptionUtils';
+
+interface StaleDataBannerProps {
+  staleSince: Date;
+  hasError: boolean;      // Latest refresh failed (vs. still loading)
+  isLoading: boolean;
+  onRetry: () => void;
+}
+
+/**
+ * StaleDataBanner Component
+ * 
+ * Thin bar under the header shown while the map and list display saved or
+ * older data instead of a fresh feed - on startup before the first load
+ * finishes, or after a refresh failed.
+ * 
+ * Features:
+ * - "Showing data from HH:MM" with the capture time of the data on screen
+ * - Explains whether live data failed or is still loading
+ * - Retry button (hidden while a refresh is running)
+ */
+export const StaleDataBanner = ({ staleSince, hasError, isLoading, onRetry }: StaleDataBannerProps) => {
+  return (
+    <div
+      role="status"
+      className="flex items-center justify-between gap-3 px-4 sm:px-6 lg:px-8 py-2 bg-amber-50 border-b border-amber-200 text-amber-900 text-sm"
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        <svg className="w-4 h-4 flex-shrink-0 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <span className="font-semibold whitespace-nowrap">
+          {TEXT_CONSTANTS[59]} {formatCaptureTime(staleSince)}
+        </span>
+        <span className="truncate text-amber-800">
+          {hasError ? TEXT_CONSTANTS[60] : TEXT_CONSTANTS[61]}
+        </span>
+      </div>
+      {hasError && !isLoading && (
+        <button
+          onClick={onRetry}
+          className="flex-shrink-0 px-3 py-1 rounded-md bg-amber-500 hover:bg-amber-600 text-white text-xs font-medium transition-colors"
+        >
+          {TEXT_CONSTANTS[62]}
+        </button>
+      )}
+    </div>
+  );
+};
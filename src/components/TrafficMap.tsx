@@ -1,5 +1,13 @@
-import { useEffect, useRef, type RefObject } from "react";
-import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
+import { Fragment, useEffect, useRef, type ReactNode, type RefObject } from "react";
+import {
+  MapContainer,
+  TileLayer,
+  Marker,
+  Popup,
+  Polyline,
+  Polygon,
+  useMap,
+} from "react-leaflet";
 import { Icon } from "leaflet";
 import type { LatLngExpression } from "leaflet";
 import type { Disruption } from "../types/disruption";
@@ -7,7 +15,17 @@ import {
   getSeverityConfig,
   formatStatus,
   formatCoordinates,
+  formatCategory,
+  formatSchedule,
+  formatDateTime,
+  formatStreet,
+  formatCorridors,
 } from "../utils/disruptionUtils";
+import { getShapeBounds } from "../utils/geometry";
+import { isResolved as isResolvedDisruption } from "../utils/resolvedDisruptions";
+import { HighlightedText } from "./HighlightedText";
+import { TEXT_CONSTANTS } from "../constants/text";
+import { MAP_CONSTANTS } from "../constants/ui";
 import "../utils/leafletFix"; // Fix for Leaflet icons
 
 /**
@@ -18,6 +36,10 @@ interface TrafficMapProps {
   disruptions: Disruption[]; // Array of disruptions to display as markers
   onDisruptionSelect: (disruption: Disruption) => void; // Callback when user clicks a marker
   selectedDisruption?: Disruption | null; // Currently selected disruption (for highlighting)
+  readOnly?: boolean; // Historical playback - base map is greyed out to set it apart from live data
+  mutedIds?: Set<string>; // Snoozed/muted disruptions, drawn faded
+  searchQuery?: string; // Matching words are highlighted in popups
+  children?: ReactNode; // Extra layers rendered inside the map (e.g. watch zones)
 }
 
 /**
@@ -27,7 +49,7 @@ interface TrafficMapProps {
  * It runs inside the MapContainer context to access the map instance.
  *
  * Key functions:
- * - Centers map on selected disruption
+ * - Centers map on selected disruption (or fits its whole road segment)
  * - Opens popup for selected marker
  * - Resets view when no disruption is selected
  * - Handles smooth animations between locations
@@ -49,12 +71,24 @@ const MapController = ({
       // Close any existing popup to prevent interference with new selection
       map.closePopup();
 
-      // Center map on the selected disruption with smooth animation
-      // Zoom level 15 provides good detail for street-level view
-      map.setView([latitude, longitude], 15, {
-        animate: true, // Enable smooth panning animation
-        duration: 0.8, // Animation duration in seconds
-      });
+      // Disruptions with line/polygon geometry are framed as a whole segment,
+      // so a closure along a kilometre of road is fully visible
+      const bounds = getShapeBounds(selectedDisruption.shapes);
+      if (bounds) {
+        map.fitBounds(bounds, {
+          padding: [60, 60], // Keep the segment clear of the map edges
+          maxZoom: 16, // Short segments shouldn't zoom in further than street level
+          animate: true,
+          duration: 0.8,
+        });
+      } else {
+        // Center map on the selected disruption with smooth animation
+        // Zoom level 15 provides good detail for street-level view
+        map.setView([latitude, longitude], 15, {
+          animate: true, // Enable smooth panning animation
+          duration: 0.8, // Animation duration in seconds
+        });
+      }
 
       // Open the popup after map animation completes
       // Timeout ensures map has finished moving before popup appears
@@ -78,6 +112,12 @@ const MapController = ({
   return null; // This component doesn't render anything visual
 };
 
+// Highlight colour shared by selected markers and selected road segments
+const SELECTED_COLOR = "#3b82f6";
+
+// Grey for resolved disruptions, whatever their severity was
+const RESOLVED_COLOR = "#9ca3af";
+
 /**
  * Creates custom map marker icons based on disruption severity
  *
@@ -85,17 +125,19 @@ const MapController = ({
  * - Red for severe disruptions
  * - Orange for moderate disruptions
  * - Yellow for minor disruptions
+ * - Grey for resolved disruptions
  * - Blue highlighting for selected markers
  *
  * @param severity - Disruption severity level (Serious/Moderate/Minimal)
  * @param isSelected - Whether this marker is currently selected
+ * @param isResolved - Whether the disruption has cleared
  * @returns Leaflet Icon instance for the marker
  */
-const createIcon = (severity: string, isSelected: boolean = false) => {
+const createIcon = (severity: string, isSelected: boolean = false, isResolved: boolean = false) => {
   const severityConfig = getSeverityConfig(severity); // Get color config for severity
 
-  // Use blue highlight when selected, otherwise use severity-based color
-  const color = isSelected ? "#3b82f6" : severityConfig.mapColor;
+  // Use blue highlight when selected, grey once resolved, otherwise severity-based color
+  const color = isSelected ? SELECTED_COLOR : isResolved ? RESOLVED_COLOR : severityConfig.mapColor;
   const size = isSelected ? 28 : 25; // Larger size for selected markers
 
   // Create SVG icon with drop shadow and custom styling
@@ -128,8 +170,71 @@ const createIcon = (severity: string, isSelected: boolean = false) => {
   });
 };
 
+/**
+ * DisruptionShapes Component - Draws the affected road segments of one disruption
+ *
+ * Lines are rendered as polylines and areas as polygons, coloured by severity.
+ * When the disruption is selected the whole segment switches to the blue
+ * highlight and is drawn thicker, matching the selected marker. Muted
+ * disruptions are drawn faded, resolved ones grey and dashed.
+ */
+const DisruptionShapes = ({
+  disruption,
+  isSelected,
+  isMuted,
+  onSelect,
+}: {
+  disruption: Disruption;
+  isSelected: boolean;
+  isMuted: boolean;
+  onSelect: (disruption: Disruption) => void;
+}) => {
+  const isResolved = isResolvedDisruption(disruption);
+  const color = isSelected
+    ? SELECTED_COLOR
+    : isResolved
+    ? RESOLVED_COLOR
+    : getSeverityConfig(disruption.severity).mapColor;
+  const pathOptions = {
+    color,
+    dashArray: isResolved ? "6 6" : undefined,
+    weight: isSelected ? 8 : 5,
+    opacity: isSelected ? 0.95 : isMuted ? 0.3 : 0.75,
+    fillColor: color,
+    fillOpacity: isSelected ? 0.35 : isMuted ? 0.08 : 0.2,
+  };
+  const eventHandlers = { click: () => onSelect(disruption) };
+
+  return (
+    <>
+      {disruption.shapes.map((shape, index) => {
+        // Leaflet expects [latitude, longitude]; TfL geometry is [longitude, latitude]
+        const positions = shape.coordinates.map(
+          ([lng, lat]) => [lat, lng] as LatLngExpression
+        );
+        return shape.type === "polygon" ? (
+          <Polygon
+            key={`${disruption.id}-shape-${index}`}
+            positions={positions}
+            pathOptions={pathOptions}
+            eventHandlers={eventHandlers}
+          />
+        ) : (
+          <Polyline
+            key={`${disruption.id}-shape-${index}`}
+            positions={positions}
+            pathOptions={pathOptions}
+            eventHandlers={eventHandlers}
+          />
+        );
+      })}
+    </>
+  );
+};
+
 // Default map center coordinates (London city center)
-const LONDON_CENTER: LatLngExpression = [51.5074, -0.1278];
+const LONDON_CENTER: LatLngExpression = MAP_CONSTANTS.LONDON_CENTER;
+const { LONDON_BOUNDS } = MAP_CONSTANTS;
 
 /**
  * TrafficMap Component - Main interactive map displaying London traffic disruptions
@@ -139,6 +244,7 @@ const LONDON_CENTER: LatLngExpression = [51.5074, -0.1278];
  * Core Features:
  * - Displays OpenStreetMap tiles for London area
  * - Shows disruption markers with severity-based colors
+ * - Draws affected road segments as severity-coloured polylines/polygons
  * - Handles marker clicks for disruption selection
  * - Automatic map centering on selected disruptions
  * - Detailed popups with disruption information
@@ -147,6 +253,7 @@ const LONDON_CENTER: LatLngExpression = [51.5074, -0.1278];
  * - Each disruption appears as a colored marker on the map
  * - Marker colors indicate severity (red=serious, orange=moderate, yellow=minor)
  * - Selected markers are highlighted in blue and enlarged
+ * - Snoozed/muted disruptions are faded
  * - Popups show detailed disruption information when clicked
  *
  * User Interactions:
@@ -163,11 +270,19 @@ const LONDON_CENTER: LatLngExpression = [51.5074, -0.1278];
  * @param disruptions - Array of traffic disruptions to display
  * @param onDisruptionSelect - Callback function when user selects a disruption
  * @param selectedDisruption - Currently selected disruption for highlighting
+ * @param readOnly - True when replaying history rather than showing live data
+ * @param mutedIds - Ids of snoozed/muted disruptions, drawn faded
+ * @param searchQuery - Current search text, highlighted in popups
+ * @param children - Extra map layers, rendered above the base map and below markers
  */
 export const TrafficMap = ({
   disruptions,
   onDisruptionSelect,
   selectedDisruption,
+  readOnly = false,
+  mutedIds,
+  searchQuery = "",
+  children,
 }: TrafficMapProps) => {
   // Store references to map markers for programmatic control (popup opening/closing)
   const markerRefs = useRef<{ [key: string]: any }>({});
@@ -185,6 +300,7 @@ export const TrafficMap = ({
         <TileLayer
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          className={readOnly ? 'grayscale' : undefined}
         />
 
         {/* Map controller handles automatic centering and popup management */}
@@ -193,6 +309,8 @@ export const TrafficMap = ({
           markerRefs={markerRefs}
         />
 
+        {children}
+
         {/* Render markers for each valid disruption */}
         {disruptions.map((disruption) => {
           // Skip disruptions without valid coordinate data
@@ -203,126 +321,187 @@ export const TrafficMap = ({
           // Validate coordinates are within reasonable bounds for London area
           // This prevents markers from appearing in wrong locations due to bad data
           if (
-            latitude < 51.2 ||
-            latitude > 51.8 ||
-            longitude < -0.8 ||
-            longitude > 0.4
+            latitude < LONDON_BOUNDS.MIN_LAT ||
+            latitude > LONDON_BOUNDS.MAX_LAT ||
+            longitude < LONDON_BOUNDS.MIN_LNG ||
+            longitude > LONDON_BOUNDS.MAX_LNG
           ) {
             return null;
           }
 
           // Check if this disruption is currently selected for highlighting
           const isSelected = selectedDisruption?.id === disruption.id;
+          const isMuted = mutedIds?.has(disruption.id) ?? false;
+          const isResolved = isResolvedDisruption(disruption);
+          const category = formatCategory(disruption);
+          const schedule = formatSchedule(disruption);
+          const lastModified = formatDateTime(disruption.lastModifiedTime);
 
           return (
-            <Marker
-              key={disruption.id} // Unique key for React rendering
-              position={[latitude, longitude]} // Marker position on map
-              icon={createIcon(disruption.severity, isSelected)} // Custom icon based on severity
-              ref={(ref) => {
-                // Store marker reference for programmatic popup control
-                if (ref && markerRefs.current) {
-                  markerRefs.current[disruption.id] = ref;
-                }
-              }}
-              eventHandlers={{
-                // Handle marker clicks to select disruptions
-                click: () => onDisruptionSelect(disruption),
-              }}
-            >
-              {/* Detailed popup showing disruption information */}
-              <Popup>
-                <div className="min-w-[280px] p-4">
-                  {/* Disruption location as main heading */}
-                  <h3 className="text-lg font-semibold text-gray-900 mb-3">
-                    {disruption.location}
-                  </h3>
+            <Fragment key={disruption.id}>
+              {/* Affected road segments - the pin below stays as a fallback/anchor */}
+              <DisruptionShapes
+                disruption={disruption}
+                isSelected={isSelected}
+                isMuted={isMuted}
+                onSelect={onDisruptionSelect}
+              />
+              <Marker
+                position={[latitude, longitude]} // Marker position on map
+                icon={createIcon(disruption.severity, isSelected, isResolved)} // Custom icon based on severity
+                opacity={isMuted && !isSelected ? 0.45 : 1} // Muted disruptions stay visible but faded
+                ref={(ref) => {
+                  // Store marker reference for programmatic popup control
+                  if (ref && markerRefs.current) {
+                    markerRefs.current[disruption.id] = ref;
+                  }
+                }}
+                eventHandlers={{
+                  // Handle marker clicks to select disruptions
+                  click: () => onDisruptionSelect(disruption),
+                }}
+              >
+                {/* Detailed popup showing disruption information */}
+                <Popup>
+                  <div className="min-w-[280px] p-4">
+                    {/* Disruption location as main heading */}
+                    <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                      <HighlightedText text={disruption.location} query={searchQuery} />
+                    </h3>
 
-                  {/* Severity badge with color coding */}
-                  <div className="mb-4">
-                    <span
-                      className={`inline-block px-3 py-1 rounded-full text-xs font-bold text-white ${
-                        disruption.severity === "Serious"
-                          ? "bg-red-500"
-                          : disruption.severity === "Moderate"
-                          ? "bg-orange-500"
-                          : "bg-yellow-500"
-                      }`}
-                    >
-                      {disruption.severity}
-                    </span>
-                  </div>
+                    {/* Severity badge with color coding, plus classification chips */}
+                    <div className="mb-4 flex flex-wrap items-center gap-1.5">
+                      <span
+                        className={`inline-block px-3 py-1 rounded-full text-xs font-bold text-white ${
+                          isResolved
+                            ? "bg-gray-400 line-through"
+                            : disruption.severity === "Serious"
+                            ? "bg-red-500"
+                            : disruption.severity === "Moderate"
+                            ? "bg-orange-500"
+                            : "bg-yellow-500"
+                        }`}
+                      >
+                        {disruption.severity}
+                      </span>
+                      {category && (
+                        <span className="inline-block px-2 py-1 rounded text-xs font-medium bg-slate-100 text-slate-700">
+                          {category}
+                        </span>
+                      )}
+                      {disruption.hasClosures && (
+                        <span className="inline-block px-2 py-1 rounded text-xs font-medium bg-red-50 text-red-700">
+                          {TEXT_CONSTANTS[42]}
+                        </span>
+                      )}
+                    </div>
 
-                  {/* Main disruption description */}
-                  <p className="text-sm text-gray-700 mb-4 leading-relaxed">
-                    {disruption.comments}
-                  </p>
+                    {/* Main disruption description */}
+                    <p className="text-sm text-gray-700 mb-4 leading-relaxed">
+                      <HighlightedText text={disruption.comments} query={searchQuery} />
+                    </p>
 
-                  {/* Additional information section */}
-                  <div className="space-y-3 border-t border-gray-100 pt-3">
-                    {/* Current status update (if available) */}
-                    {disruption.currentUpdate && (
-                      <div className="flex items-center bg-blue-50 rounded-lg p-3">
-                        <div className="w-5 h-5 bg-blue-100 rounded-full flex items-center justify-center mr-3">
-                          {/* Info icon */}
-                          <svg
-                            className="w-3 h-3 text-blue-600"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-                            />
-                          </svg>
+                    {/* Additional information section */}
+                    <div className="space-y-3 border-t border-gray-100 pt-3">
+                      {/* Current status update (if available) */}
+                      {disruption.currentUpdate && (
+                        <div className="flex items-center bg-blue-50 rounded-lg p-3">
+                          <div className="w-5 h-5 bg-blue-100 rounded-full flex items-center justify-center mr-3">
+                            {/* Info icon */}
+                            <svg
+                              className="w-3 h-3 text-blue-600"
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                              />
+                            </svg>
+                          </div>
+                          <div className="text-sm text-blue-700">
+                            <p className="!m-0">{formatStatus(disruption.status)}</p>
+                            <p className="!m-0 text-xs">
+                              <HighlightedText text={disruption.currentUpdate} query={searchQuery} />
+                            </p>
+                          </div>
                         </div>
-                        <p className="text-sm text-blue-700 !m-0">
-                          {formatStatus(disruption.status)}
-                        </p>
-                      </div>
-                    )}
+                      )}
 
-                    {/* Coordinates display for technical reference */}
-                    {disruption.geography?.coordinates && (
-                      <>
-                        <div className="border-t border-gray-200 my-3"></div>
-                        <div className="flex items-center text-xs text-gray-500 px-1">
-                          {/* Location pin icon */}
-                          <svg
-                            className="w-3 h-3 mr-2 flex-shrink-0 text-gray-400"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"
-                            />
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"
-                            />
-                          </svg>
-                          {/* Formatted coordinates for reference */}
-                          <span className="font-mono text-gray-500">
-                            {formatCoordinates(
-                              disruption.geography.coordinates
-                            )}
-                          </span>
+                      {/* Schedule, affected streets and corridors */}
+                      {(schedule || disruption.streets.length > 0 || disruption.corridorIds.length > 0) && (
+                        <div className="space-y-1 text-xs text-gray-600 px-1">
+                          {schedule && (
+                            <p className="!m-0">
+                              <span className="font-medium text-gray-700">{TEXT_CONSTANTS[36]}</span>{" "}
+                              {schedule}
+                            </p>
+                          )}
+                          {disruption.streets.length > 0 && (
+                            <p className="!m-0">
+                              <span className="font-medium text-gray-700">{TEXT_CONSTANTS[38]}</span>{" "}
+                              <HighlightedText
+                                text={disruption.streets.map(formatStreet).join("; ")}
+                                query={searchQuery}
+                              />
+                            </p>
+                          )}
+                          {disruption.corridorIds.length > 0 && (
+                            <p className="!m-0">
+                              <span className="font-medium text-gray-700">{TEXT_CONSTANTS[39]}</span>{" "}
+                              {formatCorridors(disruption.corridorIds)}
+                            </p>
+                          )}
+                          {lastModified && (
+                            <p className="!m-0 text-gray-500">
+                              {TEXT_CONSTANTS[37]} {lastModified}
+                            </p>
+                          )}
                         </div>
-                      </>
-                    )}
+                      )}
+
+                      {/* Coordinates display for technical reference */}
+                      {disruption.geography?.coordinates && (
+                        <>
+                          <div className="border-t border-gray-200 my-3"></div>
+                          <div className="flex items-center text-xs text-gray-500 px-1">
+                            {/* Location pin icon */}
+                            <svg
+                              className="w-3 h-3 mr-2 flex-shrink-0 text-gray-400"
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"
+                              />
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"
+                              />
+                            </svg>
+                            {/* Formatted coordinates for reference */}
+                            <span className="font-mono text-gray-500">
+                              {formatCoordinates(
+                                disruption.geography.coordinates
+                              )}
+                            </span>
+                          </div>
+                        </>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </Popup>
-            </Marker>
+                </Popup>
+              </Marker>
+            </Fragment>
           );
         })}
       </MapContainer>
@@ -0,0 +1,132 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Circle, Polygon, Polyline, Tooltip, useMap, useMapEvents } from "react-leaflet";
+import type { LatLngExpression } from "leaflet";
+import type { LngLat, WatchZoneShape, WatchZoneSummary } from "../types/disruption";
+import { getDistanceMeters } from "../utils/geometry";
+import { TEXT_CONSTANTS } from "../constants/text";
+
+// Shape being drawn on the map
+export type ZoneDrawMode = "circle" | "polygon";
+
+interface WatchZoneLayerProps {
+  zoneSummaries: WatchZoneSummary[]; // Saved zones with their disruption counts
+  drawMode: ZoneDrawMode | null; // Active drawing tool (null = not drawing)
+  draftPoints: LngLat[]; // Points clicked so far for the shape being drawn
+  pendingShape: WatchZoneShape | null; // Finished shape waiting for a name
+  onDraftPoint: (point: LngLat) => void; // Map clicked while drawing
+  onDraftFinish: () => void; // Double-click while drawing a polygon
+}
+
+// Zone outlines are purple and dashed so they never read as disruptions
+const ZONE_PATH_OPTIONS = {
+  color: "#7c3aed",
+  weight: 2,
+  dashArray: "6 6",
+  fillColor: "#7c3aed",
+  fillOpacity: 0.08,
+  interactive: false, // Clicks go through to the map and the markers below
+};
+
+// Leaflet expects [latitude, longitude]; zones are stored as [longitude, latitude]
+const toLatLng = ([lng, lat]: LngLat): LatLngExpression => [lat, lng];
+
+/**
+ * ZoneOutline Component - Draws one zone shape, with optional children (e.g. a badge)
+ */
+const ZoneOutline = ({
+  shape,
+  children,
+}: {
+  shape: WatchZoneShape;
+  children?: ReactNode;
+}) =>
+  shape.type === "circle" ? (
+    <Circle center={toLatLng(shape.center)} radius={shape.radiusMeters} pathOptions={ZONE_PATH_OPTIONS}>
+      {children}
+    </Circle>
+  ) : (
+    <Polygon positions={shape.coordinates.map(toLatLng)} pathOptions={ZONE_PATH_OPTIONS}>
+      {children}
+    </Polygon>
+  );
+
+/**
+ * WatchZoneLayer Component - Watch zones and the zone drawing tool
+ *
+ * Runs inside the MapContainer. Renders every saved zone with a permanent
+ * badge showing its name and how many disruptions are inside. While a drawing
+ * tool is active it turns map clicks into zone points and previews the shape
+ * under the cursor; the parent owns the draft and decides when it is complete.
+ */
+export const WatchZoneLayer = ({
+  zoneSummaries,
+  drawMode,
+  draftPoints,
+  pendingShape,
+  onDraftPoint,
+  onDraftFinish,
+}: WatchZoneLayerProps) => {
+  const map = useMap();
+  const [cursor, setCursor] = useState<LngLat | null>(null);
+
+  // Crosshair cursor, and no double-click zoom while a polygon is closed with a double-click
+  useEffect(() => {
+    if (!drawMode) return;
+    const container = map.getContainer();
+    container.style.cursor = "crosshair";
+    map.doubleClickZoom.disable();
+    return () => {
+      container.style.cursor = "";
+      map.doubleClickZoom.enable();
+      setCursor(null);
+    };
+  }, [drawMode, map]);
+
+  useMapEvents({
+    click: (event) => {
+      if (drawMode) onDraftPoint([event.latlng.lng, event.latlng.lat]);
+    },
+    dblclick: () => {
+      if (drawMode === "polygon") onDraftFinish();
+    },
+    mousemove: (event) => {
+      if (drawMode) setCursor([event.latlng.lng, event.latlng.lat]);
+    },
+  });
+
+  return (
+    <>
+      {zoneSummaries.map(({ zone, disruptionCount, seriousCount }) => (
+        <ZoneOutline key={zone.id} shape={zone.shape}>
+          <Tooltip permanent direction="center" className="!px-2 !py-1">
+            <span className="font-semibold text-violet-700">{zone.name}</span>{" "}
+            <span className="text-gray-700">{disruptionCount}</span>
+            {seriousCount > 0 && (
+              <span className="text-red-600">
+                {" "}· {seriousCount} {TEXT_CONSTANTS[92]}
+              </span>
+            )}
+          </Tooltip>
+        </ZoneOutline>
+      ))}
+
+      {/* Finished shape waiting for its name */}
+      {pendingShape && <ZoneOutline shape={pendingShape} />}
+
+      {/* Live preview of the shape being drawn */}
+      {drawMode === "circle" && draftPoints.length === 1 && cursor && (
+        <Circle
+          center={toLatLng(draftPoints[0])}
+          radius={getDistanceMeters(draftPoints[0], cursor)}
+          pathOptions={ZONE_PATH_OPTIONS}
+        />
+      )}
+      {drawMode === "polygon" && draftPoints.length > 0 && (
+        <Polyline
+          positions={[...draftPoints, ...(cursor ? [cursor] : [])].map(toLatLng)}
+          pathOptions={ZONE_PATH_OPTIONS}
+        />
+      )}
+    </>
+  );
+};
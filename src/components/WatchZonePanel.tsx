@@ -0,0 +1,155 @@
+import { useState } from "react";
+import type { WatchZoneSummary } from "../types/disruption";
+import type { ZoneDrawMode } from "./WatchZoneLayer";
+import { TEXT_CONSTANTS } from "../constants/text";
+
+interface WatchZonePanelProps {
+  zoneSummaries: WatchZoneSummary[];
+  drawMode: ZoneDrawMode | null;
+  canFinish: boolean; // Polygon has enough points to close
+  hasPendingShape: boolean; // A drawn shape is waiting for its name
+  onStartDrawing: (mode: ZoneDrawMode) => void;
+  onFinishDrawing: () => void;
+  onCancelDrawing: () => void;
+  onSaveZone: (name: string) => void;
+  onDeleteZone: (id: string) => void;
+}
+
+/**
+ * WatchZonePanel Component
+ *
+ * Floating map panel for managing watch zones:
+ * - Circle and polygon drawing tools with a hint for the active tool
+ * - Name form once a shape is drawn
+ * - List of saved zones with their disruption counts and a delete button
+ */
+export const WatchZonePanel = ({
+  zoneSummaries,
+  drawMode,
+  canFinish,
+  hasPendingShape,
+  onStartDrawing,
+  onFinishDrawing,
+  onCancelDrawing,
+  onSaveZone,
+  onDeleteZone,
+}: WatchZonePanelProps) => {
+  const [name, setName] = useState("");
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSaveZone(name);
+    setName("");
+  };
+
+  const tools: { mode: ZoneDrawMode; label: string }[] = [
+    { mode: "circle", label: TEXT_CONSTANTS[80] },
+    { mode: "polygon", label: TEXT_CONSTANTS[81] },
+  ];
+
+  return (
+    <div className="bg-white/95 backdrop-blur-sm rounded-xl shadow-lg p-3 border border-white/20 w-64 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-slate-800">{TEXT_CONSTANTS[79]}</h3>
+        <div className="flex gap-1">
+          {tools.map((tool) => (
+            <button
+              key={tool.mode}
+              onClick={() => onStartDrawing(tool.mode)}
+              disabled={hasPendingShape}
+              aria-pressed={drawMode === tool.mode}
+              className={`px-2 py-1 rounded text-xs font-medium transition-colors disabled:opacity-50 ${
+                drawMode === tool.mode
+                  ? "bg-violet-600 text-white"
+                  : "bg-violet-50 text-violet-700 hover:bg-violet-100"
+              }`}
+            >
+              {tool.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Active tool hint */}
+      {drawMode && (
+        <div className="mb-2 space-y-2">
+          <p className="text-xs text-slate-600">
+            {drawMode === "circle" ? TEXT_CONSTANTS[82] : TEXT_CONSTANTS[83]}
+          </p>
+          <div className="flex gap-2">
+            {drawMode === "polygon" && (
+              <button
+                onClick={onFinishDrawing}
+                disabled={!canFinish}
+                className="px-2 py-1 rounded text-xs font-medium bg-violet-600 text-white disabled:opacity-50"
+              >
+                {TEXT_CONSTANTS[84]}
+              </button>
+            )}
+            <button
+              onClick={onCancelDrawing}
+              className="px-2 py-1 rounded text-xs font-medium text-slate-600 hover:bg-slate-100"
+            >
+              {TEXT_CONSTANTS[85]}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Name the drawn shape */}
+      {hasPendingShape && (
+        <form onSubmit={handleSave} className="mb-2 flex gap-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder={TEXT_CONSTANTS[86]}
+            aria-label={TEXT_CONSTANTS[86]}
+            className="flex-1 min-w-0 px-2 py-1 border border-slate-300 rounded text-xs focus:outline-none focus:ring-2 focus:ring-violet-500"
+          />
+          <button type="submit" className="px-2 py-1 rounded text-xs font-medium bg-violet-600 text-white">
+            {TEXT_CONSTANTS[87]}
+          </button>
+          <button
+            type="button"
+            onClick={onCancelDrawing}
+            className="px-2 py-1 rounded text-xs font-medium text-slate-600 hover:bg-slate-100"
+          >
+            {TEXT_CONSTANTS[85]}
+          </button>
+        </form>
+      )}
+
+      {/* Saved zones */}
+      {zoneSummaries.length === 0 ? (
+        !drawMode && !hasPendingShape && <p className="text-xs text-slate-500">{TEXT_CONSTANTS[88]}</p>
+      ) : (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {zoneSummaries.map(({ zone, disruptionCount, seriousCount }) => (
+            <li key={zone.id} className="flex items-center gap-2">
+              <span className="flex-1 truncate text-slate-700">{zone.name}</span>
+              <span className="px-1.5 py-0.5 rounded-full bg-slate-100 text-slate-700 text-xs">
+                {disruptionCount}
+              </span>
+              {seriousCount > 0 && (
+                <span className="px-1.5 py-0.5 rounded-full bg-red-100 text-red-700 text-xs">
+                  {seriousCount} {TEXT_CONSTANTS[92]}
+                </span>
+              )}
+              <button
+                onClick={() => onDeleteZone(zone.id)}
+                aria-label={`${TEXT_CONSTANTS[89]} ${zone.name}`}
+                title={TEXT_CONSTANTS[89]}
+                className="p-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import type { WatchZone, WebhookDelivery, WebhookFormat, WebhookTarget } from '../types/disruption';
+import { AlertConditionsFields } from './AlertConditionsFields';
+import { createWebhookTarget } from '../services/webhookStore';
+import { parseTermList, summarizeConditions } from '../utils/alertRules';
+import { formatCaptureTime } from '../utils/disruptionUtils';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+interface WebhookTargetsPanelProps {
+  targets: WebhookTarget[];
+  deliveries: WebhookDelivery[];                 // Delivery log, newest first
+  zones: WatchZone[];                            // Watch zones a target can be limited to
+  onSaveTarget: (target: WebhookTarget) => void; // Adds a new target or replaces an edited one
+  onDeleteTarget: (id: string) => void;
+  onSendTest: (target: WebhookTarget) => void;
+  onClearDeliveries: () => void;
+}
+
+interface WebhookTargetEditorProps {
+  target: WebhookTarget;
+  zones: WatchZone[];
+  onSave: (target: WebhookTarget) => void;
+  onCancel: () => void;
+}
+
+const FORMAT_LABELS: Record<WebhookFormat, string> = {
+  slack: TEXT_CONSTANTS[172],
+  teams: TEXT_CONSTANTS[173],
+  json: TEXT_CONSTANTS[174]
+};
+
+const inputClassName = 'w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * True for absolute http(s) URLs - anything else can't be POSTed to from the page
+ */
+const isHttpUrl = (value: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * WebhookTargetEditor Component
+ * 
+ * Form for one target: name, URL, payload format and the same change
+ * filters alert rules use.
+ */
+const WebhookTargetEditor = ({ target, zones, onSave, onCancel }: WebhookTargetEditorProps) => {
+  const [draft, setDraft] = useState(target);
+  const [categoryText, setCategoryText] = useState(target.filters.categories.join(', '));
+  const [keywordText, setKeywordText] = useState(target.filters.keywords.join(', '));
+
+  const updateFilters = (changes: Partial<WebhookTarget['filters']>) =>
+    setDraft(prev => ({ ...prev, filters: { ...prev.filters, ...changes } }));
+
+  const hasValidUrl = isHttpUrl(draft.url.trim());
+  const canSave = draft.name.trim() !== '' && hasValidUrl && draft.filters.triggers.length > 0;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSave) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      url: draft.url.trim(),
+      filters: {
+        ...draft.filters,
+        categories: parseTermList(categoryText),
+        keywords: parseTermList(keywordText)
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 space-y-3 bg-slate-50 border-b border-slate-200">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={event => setDraft(prev => ({ ...prev, name: event.target.value }))}
+        placeholder={TEXT_CONSTANTS[170]}
+        className={inputClassName}
+        autoFocus
+      />
+
+      <div className="grid grid-cols-3 gap-2">
+        <label className="col-span-2 block text-xs text-gray-600 space-y-1">
+          <span>{TEXT_CONSTANTS[154]}</span>
+          <input
+            type="url"
+            value={draft.url}
+            onChange={event => setDraft(prev => ({ ...prev, url: event.target.value }))}
+            placeholder="https://"
+            className={inputClassName}
+          />
+        </label>
+        <label className="block text-xs text-gray-600 space-y-1">
+          <span>{TEXT_CONSTANTS[171]}</span>
+          <select
+            value={draft.format}
+            onChange={event => setDraft(prev => ({ ...prev, format: event.target.value as WebhookFormat }))}
+            className={inputClassName}
+          >
+            {(Object.keys(FORMAT_LABELS) as WebhookFormat[]).map(format => (
+              <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {draft.url.trim() !== '' && !hasValidUrl && (
+        <p className="text-xs text-red-600">{TEXT_CONSTANTS[192]}</p>
+      )}
+
+      <AlertConditionsFields
+        conditions={draft.filters}
+        zones={zones}
+        categoryText={categoryText}
+        keywordText={keywordText}
+        onConditionsChange={updateFilters}
+        onCategoryTextChange={setCategoryText}
+        onKeywordTextChange={setKeywordText}
+        triggerLabel={TEXT_CONSTANTS[193]}
+      />
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+        >
+          {TEXT_CONSTANTS[156]}
+        </button>
+        <button
+          type="submit"
+          disabled={!canSave}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 rounded-lg transition-colors"
+        >
+          {TEXT_CONSTANTS[176]}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * WebhookTargetsPanel Component
+ * 
+ * Outbound webhooks, shown under the alert rules:
+ * - One row per target with its format, filters, an on/off switch and a test button
+ * - Add, edit and delete targets in an inline editor
+ * - Delivery log with status, attempts and the last error per post
+ */
+export const WebhookTargetsPanel = ({
+  targets,
+  deliveries,
+  zones,
+  onSaveTarget,
+  onDeleteTarget,
+  onSendTest,
+  onClearDeliveries
+}: WebhookTargetsPanelProps) => {
+  // Target being edited (a fresh one when adding)
+  const [editingTarget, setEditingTarget] = useState<WebhookTarget | null>(null);
+
+  const handleSave = (target: WebhookTarget) => {
+    onSaveTarget(target);
+    setEditingTarget(null);
+  };
+
+  return (
+    <section className="border-t-4 border-slate-100">
+      <h3 className="px-4 pt-4 text-xs font-semibold text-gray-700 uppercase tracking-wide">{TEXT_CONSTANTS[167]}</h3>
+
+      {editingTarget ? (
+        <WebhookTargetEditor
+          key={editingTarget.id}
+          target={editingTarget}
+          zones={zones}
+          onSave={handleSave}
+          onCancel={() => setEditingTarget(null)}
+        />
+      ) : (
+        <div className="p-4 border-b border-slate-100">
+          <button
+            onClick={() => setEditingTarget(createWebhookTarget('', '', 'slack'))}
+            className="w-full px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+          >
+            + {TEXT_CONSTANTS[168]}
+          </button>
+        </div>
+      )}
+
+      {targets.length === 0 ? (
+        <p className="p-6 text-sm text-center text-gray-500">{TEXT_CONSTANTS[169]}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {targets.map(target => (
+            <li key={target.id} className={`px-4 py-3 ${target.enabled ? '' : 'opacity-60'}`}>
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 min-w-0 text-sm font-medium text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={target.enabled}
+                    onChange={event => onSaveTarget({ ...target, enabled: event.target.checked })}
+                    className="accent-blue-600"
+                    aria-label={TEXT_CONSTANTS[178]}
+                  />
+                  <span className="truncate">{target.name}</span>
+                  <span className="px-1.5 rounded bg-slate-100 text-xs font-normal text-gray-600 flex-shrink-0">
+                    {FORMAT_LABELS[target.format]}
+                  </span>
+                </label>
+                <div className="flex items-center gap-2 flex-shrink-0 text-xs">
+                  <button
+                    onClick={() => onSendTest(target)}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {TEXT_CONSTANTS[175]}
+                  </button>
+                  <button
+                    onClick={() => setEditingTarget(target)}
+                    className="text-blue-600 hover:underline"
+                  >
+                    {TEXT_CONSTANTS[157]}
+                  </button>
+                  <button
+                    onClick={() => onDeleteTarget(target.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={TEXT_CONSTANTS[177]}
+                    title={TEXT_CONSTANTS[177]}
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">{summarizeConditions(target.filters, zones) || TEXT_CONSTANTS[159]}</p>
+              <p className="text-xs text-gray-400 truncate" title={target.url}>{target.url}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Delivery log */}
+      <div className="flex items-center justify-between px-4 pt-4 pb-2">
+        <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">{TEXT_CONSTANTS[179]}</h4>
+        {deliveries.length > 0 && (
+          <button onClick={onClearDeliveries} className="text-xs text-gray-500 hover:text-gray-900">
+            {TEXT_CONSTANTS[181]}
+          </button>
+        )}
+      </div>
+      {deliveries.length === 0 ? (
+        <p className="px-4 pb-6 text-sm text-gray-500">{TEXT_CONSTANTS[180]}</p>
+      ) : (
+        <ul className="pb-4">
+          {deliveries.map(delivery => (
+            <li key={delivery.id} className="px-4 py-1.5 text-xs">
+              <div className="flex items-center gap-2">
+                <span className={`w-2 h-2 flex-shrink-0 rounded-full ${delivery.status === 'delivered' ? 'bg-green-500' : 'bg-red-500'}`} />
+                <span className="font-medium text-gray-800 truncate">{delivery.targetName}</span>
+                {delivery.isTest && (
+                  <span className="px-1 rounded bg-slate-100 text-gray-500">{TEXT_CONSTANTS[166]}</span>
+                )}
+                <span className="ml-auto flex-shrink-0 text-gray-400">{formatCaptureTime(new Date(delivery.sentAt))}</span>
+              </div>
+              <p className="pl-4 text-gray-500">
+                {delivery.status === 'delivered' ? TEXT_CONSTANTS[182] : TEXT_CONSTANTS[183]}
+                {delivery.httpStatus !== null && ` · HTTP ${delivery.httpStatus}`}
+                {` · ${delivery.attempts} ${TEXT_CONSTANTS[184]}`}
+                {` · ${delivery.eventCount} ${TEXT_CONSTANTS[194]}`}
+              </p>
+              {delivery.error && (
+                <p className="pl-4 text-red-600 truncate" title={delivery.error}>{delivery.error}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
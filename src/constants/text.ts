@@ -14,8 +14,8 @@ export const TEXT_CONSTANTS = {
   // Filter Panel
   10: "Filters",
   11: "Clear All",
-  12: "Search Locations",
-  13: "Search by road name or location...",
+  12: "Search",
+  13: "Search, or try severity:serious road:A406 -works",
   14: "Severity Levels",
   
   // Disruption List
@@ -44,7 +44,287 @@ export const TEXT_CONSTANTS = {
   
   // Utils
   33: "Currently Active",
-  34: "Resolved"
+  34: "Resolved",
+
+  // Disruption details
+  35: "Category:",
+  36: "Schedule:",
+  37: "Last modified:",
+  38: "Streets:",
+  39: "Corridors:",
+  40: "From",
+  41: "Until",
+  42: "Road closures",
+  43: "Recurring:",
+  44: "Provisional",
+
+  // Data Quality Panel
+  45: "Data Quality",
+  46: "records usable",
+  47: "All records passed validation",
+  48: "Rejected records",
+  49: "Show rejected records",
+  50: "Hide rejected records",
+  51: "Unidentified record",
+
+  // Corridor Panel
+  52: "Road Corridors",
+  53: "Status unknown",
+  54: "Show all corridors",
+  55: "No corridor data available",
+
+  // Circuit breaker status (header)
+  56: "Live feed paused",
+  57: "Retrying at",
+  58: "Reconnecting...",
+
+  // Stale data banner
+  59: "Showing data from",
+  60: "Live data could not be loaded.",
+  61: "Saved data - loading live data...",
+  62: "Retry",
+
+  // History timeline
+  63: "History",
+  64: "No history recorded yet - each refresh is saved from now on",
+  65: "Back to live",
+  66: "Keep",
+  67: "Earlier",
+  68: "Later",
+  69: "No disruptions were recorded at this time",
+
+  // Activity feed
+  70: "Disruptions",
+  71: "Activity",
+  72: "No changes yet",
+  73: "Changes since the session started appear here after each refresh.",
+  74: "Appeared",
+  75: "Escalated",
+  76: "De-escalated",
+  77: "Update changed",
+  78: "Cleared",
+
+  // Watch zones
+  79: "Watch zones",
+  80: "Circle",
+  81: "Polygon",
+  82: "Click the centre, then click again to set the radius",
+  83: "Click to add points, double-click or press Finish to close the shape",
+  84: "Finish",
+  85: "Cancel",
+  86: "Zone name",
+  87: "Save",
+  88: "Draw a zone to be alerted about disruptions inside it",
+  89: "Delete zone",
+  90: "New disruption in",
+  91: "Disruption escalated in",
+  92: "serious",
+  93: "Zone",
+
+  // Watched roads and saved searches
+  94: "Watched roads",
+  95: "Watch this search",
+  96: "Save a road or search term to be notified when matching disruptions change",
+  97: "Remove watch",
+  98: "Watch",
+  99: "No matching disruptions right now",
+  100: "Already watched",
+
+  // System notifications
+  101: "Desktop alerts",
+  102: "Turn on desktop alerts for Serious and watched disruptions",
+  103: "Turn off desktop alerts",
+  104: "Serious disruption",
+  105: "Escalated to Serious",
+
+  // Notification centre
+  106: "Notifications",
+  107: "Mark all read",
+  108: "Clear",
+  109: "Search notifications",
+  110: "No notifications yet",
+  111: "more",
+  112: "disruption updates",
+  113: "No notifications match",
+
+  // Spoken announcements
+  114: "And",
+  115: "more disruptions",
+  116: "Serious disruption, A2 Old Kent Road, lane closures",
+  117: "Announcements",
+  118: "Read out new and escalated disruptions",
+  119: "Voice",
+  120: "Browser default",
+  121: "Announce",
+  122: "Quiet hours",
+  123: "Chime for new",
+  124: "Chime for escalated",
+  125: "Test voice",
+  126: "Speech is not supported in this browser",
+  127: "to",
+  128: "None",
+  129: "Bell",
+  130: "Beep",
+  131: "Rising",
+  132: "Serious only",
+  133: "Moderate and above",
+  134: "All disruptions",
+
+  // Alert rules
+  135: "and",
+  136: "Rules",
+  137: "Add rule",
+  138: "No alert rules yet",
+  139: "Rule name",
+  140: "When a disruption is",
+  141: "Severity",
+  142: "Categories",
+  143: "e.g. Works, Collisions",
+  144: "Keywords in description",
+  145: "e.g. lane closure, burst main",
+  146: "Area",
+  147: "Anywhere",
+  148: "Only between",
+  149: "Actions",
+  150: "Toast",
+  151: "No toast",
+  152: "System notification",
+  153: "Sound",
+  154: "Webhook URL",
+  155: "Save rule",
+  156: "Cancel",
+  157: "Edit",
+  158: "Delete rule",
+  159: "Any",
+  160: "Info",
+  161: "Warning",
+  162: "Error",
+  163: "Enable rule",
+  164: "Pick at least one kind of change",
+  165: "Rule",
+
+  // Webhook targets
+  166: "Test",
+  167: "Webhooks",
+  168: "Add webhook",
+  169: "No webhook targets yet",
+  170: "Target name",
+  171: "Format",
+  172: "Slack",
+  173: "Microsoft Teams",
+  174: "Generic JSON",
+  175: "Send test",
+  176: "Save webhook",
+  177: "Delete webhook",
+  178: "Enable webhook",
+  179: "Delivery log",
+  180: "No deliveries yet",
+  181: "Clear",
+  182: "Delivered",
+  183: "Failed",
+  184: "attempts",
+  185: "Webhook Delivery Failed",
+  186: "webhook deliveries failed",
+  187: "Test Delivered",
+  188: "Test Failed",
+  189: "Nothing to Send",
+  190: "A test message needs at least one loaded disruption.",
+  191: "accepted the test message",
+  192: "Enter an http(s) URL",
+  193: "Post when a disruption is",
+  194: "changes",
+
+  // Snoozed and muted disruptions
+  195: "Muted",
+  196: "Snooze",
+  197: "1h",
+  198: "8h",
+  199: "1 day",
+  200: "1 week",
+  201: "Until severity changes",
+  202: "Restore",
+  203: "Restore all",
+  204: "Hide muted in the list and map",
+  205: "until",
+  206: "Mute until severity changes",
+
+  // Operator incident log
+  207: "Details",
+  208: "History",
+  209: "Acknowledge",
+  210: "Acknowledged",
+  211: "Assign",
+  212: "Assigned to",
+  213: "Assignee name",
+  214: "Unassign",
+  215: "Add note",
+  216: "Write a note",
+  217: "Mark handled",
+  218: "Handled",
+  219: "Reopen",
+  220: "No operator activity yet",
+  221: "Export incident log",
+  222: "Changed since acknowledged",
+  223: "Unassigned",
+  224: "Reopened",
+  225: "Note",
+
+  // Search query language
+  226: "Unknown field",
+  227: "needs a value",
+  228: "Expected one of:",
+  229: "Expected a time like 30m, 2h, 3d or 1w",
+  230: "can't be compared with < or >",
+  231: "Missing closing quote",
+  232: "Missing closing bracket",
+  233: "Unexpected closing bracket",
+  234: "Nothing to exclude after -",
+  235: "OR needs a term on both sides",
+  236: "Empty brackets",
+  237: "Query syntax",
+  238: "Severity, e.g. severity:serious or severity:>=moderate",
+  239: "Road or corridor, e.g. road:A406",
+  240: "Street name, e.g. street:\"Old Kent Road\"",
+  241: "Location text, e.g. location:Southwark",
+  242: "Category or sub-category, e.g. category:works",
+  243: "Active, scheduled or inactive (resolved)",
+  244: "Closures, provisional or recurring works, e.g. is:closure",
+  245: "Time since the last update, e.g. updated:<2h",
+  246: "Time until it starts (not yet started only), e.g. starts:<24h",
+  247: "Time until it is due to end (not yet ended only), e.g. ends:<3h",
+  248: "Exclude a whole word or phrase, e.g. -works",
+  249: "Match either side, e.g. road:A2 OR road:A20",
+  250: "Group terms, e.g. (is:closure OR severity:serious) road:A406",
+  251: "Match an exact phrase, e.g. \"gas main\"",
+
+  // Category facets
+  252: "Category",
+  253: "Sub-category",
+  254: "Other",
+  255: "By category",
+  256: "None ticked shows all",
+
+  // Time window filter and card timing labels
+  257: "When",
+  258: "Any time",
+  259: "Active now",
+  260: "Next 24h",
+  261: "This week",
+  262: "Custom",
+  263: "From",
+  264: "To",
+  265: "Starts",
+  266: "Ends",
+  267: "in",
+  268: "tomorrow",
+  269: "on",
+  270: "Overrunning",
+
+  // Status filter and resolved disruptions
+  271: "Status",
+  272: "Resolved in the last",
+  273: "Resolved",
+  274: "Scheduled"
 } as const;
 
 // Type for accessing text constants
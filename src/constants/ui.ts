@@ -21,5 +21,41 @@ export const UI_CONSTANTS = {
 // Timing constants
 export const TIMING_CONSTANTS = {
   REFRESH_INTERVAL_MS: 30 * 60 * 1000, // 30 minutes
+  REQUEST_TIMEOUT_MS: 15 * 1000,       // Per-attempt fetch timeout
+  RETRY_BASE_DELAY_MS: 1000,           // First retry waits up to 1s, doubling each time
+  RETRY_MAX_DELAY_MS: 30 * 1000,       // Longest wait between retries of one request
+  CIRCUIT_FAILURE_THRESHOLD: 2,        // Failed refreshes in a row (each already retried) before pausing TfL calls
+  CIRCUIT_COOLDOWN_MS: 45 * 60 * 1000, // 1.5 refresh intervals - skips one scheduled refresh, the next is the trial
+  NOTIFICATION_POLL_INTERVAL_MS: 60 * 1000, // Notification worker reads the page's saved snapshot; fetches wait a refresh interval
+  CLOCK_TICK_MS: 60 * 1000,            // Re-evaluates time filters and "starts in 3h" labels
+  RESOLVED_RETENTION_MS: 48 * 60 * 60 * 1000, // Cleared disruptions kept for the longest "resolved in" window
   TRANSITION_DURATION: 'duration-300'
 } as const;
+
+// localStorage keys for persisted user settings
+export const STORAGE_KEYS = {
+  HISTORY_RETENTION_HOURS: 'london-traffic:history-retention-hours',
+  WATCH_ZONES: 'london-traffic:watch-zones',
+  SAVED_WATCHES: 'london-traffic:saved-watches',
+  SYSTEM_NOTIFICATIONS: 'london-traffic:system-notifications',
+  ALERT_HISTORY: 'london-traffic:alert-history',
+  ANNOUNCEMENTS: 'london-traffic:announcements',
+  ALERT_RULES: 'london-traffic:alert-rules',
+  WEBHOOK_TARGETS: 'london-traffic:webhook-targets',
+  WEBHOOK_DELIVERIES: 'london-traffic:webhook-deliveries',
+  MUTES: 'london-traffic:mutes',
+  HIDE_MUTED: 'london-traffic:hide-muted',
+  INCIDENT_LOG: 'london-traffic:incident-log'
+} as const;
+
+// Map geography constants
+export const MAP_CONSTANTS = {
+  LONDON_CENTER: [51.5074, -0.1278] as [number, number], // [latitude, longitude]
+  // Bounding box for plausible London coordinates - anything outside is bad data
+  LONDON_BOUNDS: {
+    MIN_LAT: 51.2,
+    MAX_LAT: 51.8,
+    MIN_LNG: -0.8,
+    MAX_LNG: 0.4
+  }
+} as const;
@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import type { ActivityEntry, DisruptionChangeSet } from '../types/disruption';
+import { toActivityEntries } from '../utils/changeDetection';
+
+// Oldest entries are dropped past this, keeping long sessions light
+const MAX_ENTRIES = 200;
+
+/**
+ * Custom React hook collecting a session-long "what changed" feed
+ * 
+ * Appends the entries of every change set from useDisruptions, newest
+ * first, so the feed survives later refreshes that change nothing.
+ * The feed is capped at MAX_ENTRIES entries.
+ * 
+ * @param changeSet - Latest change set (null until the first load)
+ * @returns Object with the entries and a function to clear them
+ */
+export const useActivityFeed = (changeSet: DisruptionChangeSet | null) => {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+
+  // Each change set object is produced once per refresh, so this runs once per refresh
+  useEffect(() => {
+    if (!changeSet) return;
+    const newEntries = toActivityEntries(changeSet);
+    if (newEntries.length === 0) return;
+
+    setEntries(prev => [...newEntries, ...prev].slice(0, MAX_ENTRIES));
+  }, [changeSet]);
+
+  const clearEntries = () => setEntries([]);
+
+  return {
+    entries,
+    clearEntries
+  };
+};
@@ -0,0 +1,138 @@
+import { useState, useEffect, useRef } from 'react';
+import type { AlertOptions, AlertType } from '../components/AlertSystem';
+import type { AlertRule, DisruptionChangeSet, WatchZone } from '../types/disruption';
+import { loadAlertRules, saveAlertRules } from '../services/alertRuleStore';
+import { postWebhook, showSystemNotification } from '../services/alertActions';
+import { playChime } from '../services/speech';
+import {
+  buildRuleWebhookPayload,
+  describeRuleEvent,
+  evaluateAlertRules,
+  type AlertRuleMatch
+} from '../utils/alertRules';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+// Matched changes listed in one toast or notification; the rest are counted
+const MAX_LISTED_EVENTS = 3;
+
+/**
+ * Summarises a rule's matches as one message
+ * e.g. "New: A2 Old Kent Road (Serious); Cleared: Tower Bridge; and 2 more"
+ */
+const describeMatch = (match: AlertRuleMatch): string => {
+  const listed = match.events.slice(0, MAX_LISTED_EVENTS).map(describeRuleEvent);
+  const remaining = match.events.length - listed.length;
+  if (remaining > 0) listed.push(`${TEXT_CONSTANTS[135]} ${remaining} ${TEXT_CONSTANTS[111]}`);
+  return listed.join('; ');
+};
+
+/**
+ * Custom React hook for user-defined alert rules
+ * 
+ * Rules pair conditions (change type, severity, category, keywords, watch
+ * zone, time of day) with actions (toast, system notification, sound,
+ * webhook). Every refresh's change set is evaluated once against the enabled
+ * rules; each rule that matches runs its actions once with all its matches.
+ * Rules are saved in localStorage.
+ * 
+ * @param changeSet - Latest change set from useDisruptions
+ * @param zones - Saved watch zones, for area conditions
+ * @param onShowAlert - Callback for showing alerts to users
+ * @returns Object with the rules and rule management functions
+ */
+export const useAlertRules = (
+  changeSet: DisruptionChangeSet | null,
+  zones: WatchZone[],
+  onShowAlert: (type: AlertType, title: string, message: string, options?: AlertOptions) => void
+) => {
+  const [rules, setRules] = useState<AlertRule[]>(loadAlertRules);
+
+  // Latest values for the change set effect, which should only run per refresh
+  const rulesRef = useRef(rules);
+  const zonesRef = useRef(zones);
+  const onShowAlertRef = useRef(onShowAlert);
+  useEffect(() => {
+    rulesRef.current = rules;
+    zonesRef.current = zones;
+    onShowAlertRef.current = onShowAlert;
+  });
+
+  // Persist every edit
+  useEffect(() => {
+    saveAlertRules(rules);
+  }, [rules]);
+
+  // Run the actions of every rule the refresh matches
+  useEffect(() => {
+    if (!changeSet) return;
+    const matches = evaluateAlertRules(changeSet, rulesRef.current, zonesRef.current);
+
+    matches.forEach(match => {
+      const { rule, events } = match;
+      const message = describeMatch(match);
+
+      if (rule.actions.toast) {
+        onShowAlertRef.current(rule.actions.toast, rule.name, message, { groupKey: `rule:${rule.id}` });
+      }
+      if (rule.actions.systemNotification) {
+        showSystemNotification({
+          tag: `rule:${rule.id}`,
+          title: rule.name,
+          body: message,
+          disruptionId: events[0].disruption.id
+        }).catch(error => console.warn(`Rule "${rule.name}" notification failed:`, error));
+      }
+      if (rule.actions.sound !== 'none') {
+        void playChime(rule.actions.sound);
+      }
+      if (rule.actions.webhookUrl) {
+        postWebhook(rule.actions.webhookUrl, buildRuleWebhookPayload(match, changeSet.detectedAt))
+          .catch(error => {
+            console.warn(`Rule "${rule.name}" webhook failed:`, error);
+            onShowAlertRef.current(
+              'warning',
+              'Webhook Failed',
+              `Rule "${rule.name}" could not reach ${rule.actions.webhookUrl}.`
+            );
+          });
+      }
+    });
+  }, [changeSet]);
+
+  /**
+   * Adds a rule or replaces the saved rule with the same id
+   * Asks for notification permission when the rule needs it
+   */
+  const saveRule = (rule: AlertRule) => {
+    setRules(prev =>
+      prev.some(item => item.id === rule.id)
+        ? prev.map(item => (item.id === rule.id ? rule : item))
+        : [...prev, rule]
+    );
+
+    if (rule.actions.systemNotification && 'Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().then(permission => {
+        if (permission !== 'granted') {
+          onShowAlert(
+            'warning',
+            'Notifications Blocked',
+            `Rule "${rule.name}" will skip system notifications until they are allowed.`
+          );
+        }
+      });
+    }
+  };
+
+  /**
+   * Deletes a rule
+   */
+  const removeRule = (id: string) => {
+    setRules(prev => prev.filter(rule => rule.id !== id));
+  };
+
+  return {
+    rules,
+    saveRule,
+    removeRule
+  };
+};
@@ -0,0 +1,198 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { Alert, AlertHistoryEntry, AlertOptions, AlertType } from '../components/AlertSystem';
+import { STORAGE_KEYS } from '../constants/ui';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+// Toasts on screen at once; the rest wait for a free slot
+const MAX_VISIBLE_ALERTS = 3;
+// Waiting toasts beyond this are dropped (lowest priority, oldest first) - history keeps them
+const MAX_QUEUED_ALERTS = 20;
+// Alerts with the same group key this close together merge into one toast
+const BURST_WINDOW_MS = 10 * 1000;
+// Merged alerts listed in one toast
+const MAX_DETAILS = 10;
+// Past alerts kept in the notification centre
+const MAX_HISTORY_ENTRIES = 100;
+const DEFAULT_DURATION_MS = 5000;
+
+// Higher priority toasts are shown first and survive the queue cap
+const TYPE_PRIORITY: Record<AlertType, number> = { error: 3, warning: 2, info: 1, success: 0 };
+
+/**
+ * Shared group for alerts raised by change detection (watch zones, saved watches...)
+ * A busy refresh shows one "N disruption updates" toast instead of one per source
+ */
+export const DISRUPTION_UPDATES_GROUP: AlertOptions = {
+  groupKey: 'disruption-updates',
+  groupTitle: count => `${count} ${TEXT_CONSTANTS[112]}`
+};
+
+/**
+ * Orders alerts by priority, then newest first
+ */
+const byPriority = (a: Alert, b: Alert) =>
+  TYPE_PRIORITY[b.type] - TYPE_PRIORITY[a.type] || b.updatedAt - a.updatedAt;
+
+/**
+ * Title to show for an alert, taking merges into account
+ * e.g. groupTitle(5) = "5 disruption alerts"
+ */
+export const getAlertTitle = (alert: Alert): string =>
+  alert.count > 1 && alert.groupTitle ? alert.groupTitle(alert.count) : alert.title;
+
+/**
+ * Reads the saved notification centre history
+ */
+const loadHistory = (): AlertHistoryEntry[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEYS.ALERT_HISTORY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter((entry): entry is AlertHistoryEntry =>
+          !!entry && typeof entry.id === 'string' && typeof entry.title === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Hook for managing alerts
+ * 
+ * Provides functions to add, remove, and manage alerts, and keeps the
+ * notification centre history. Keeps the toast stack readable:
+ * - Identical alerts (same type, title and message) fold into one toast with a count
+ * - Alerts sharing a group key within BURST_WINDOW_MS merge into one toast
+ *   listing each of them, titled by groupTitle (e.g. "5 new disruptions")
+ * - At most MAX_VISIBLE_ALERTS toasts show at once, errors first
+ * - Every alert is also recorded in the history with read/unread state
+ */
+export const useAlerts = () => {
+  // All live toasts (visible and waiting); mirrored in a ref so merges read the latest list
+  const [allAlerts, setAllAlerts] = useState<Alert[]>([]);
+  const alertsRef = useRef<Alert[]>([]);
+
+  const [history, setHistory] = useState<AlertHistoryEntry[]>(loadHistory);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.ALERT_HISTORY, JSON.stringify(history));
+  }, [history]);
+
+  const commitAlerts = (next: Alert[]) => {
+    alertsRef.current = next;
+    setAllAlerts(next);
+  };
+
+  const addAlert = useCallback((alertData: Pick<Alert, 'type' | 'title' | 'message'> & AlertOptions) => {
+    const now = Date.now();
+    const groupKey = alertData.groupKey ?? `${alertData.type}|${alertData.title}`;
+    const detail = `${alertData.title}: ${alertData.message}`;
+
+    const existing = alertsRef.current.find(alert =>
+      (alert.type === alertData.type && alert.title === alertData.title && alert.message === alertData.message) ||
+      (alert.groupKey === groupKey && now - alert.updatedAt <= BURST_WINDOW_MS)
+    );
+
+    let alert: Alert;
+    if (existing) {
+      const isDuplicate = existing.details.includes(detail);
+      alert = {
+        ...existing,
+        type: TYPE_PRIORITY[alertData.type] > TYPE_PRIORITY[existing.type] ? alertData.type : existing.type,
+        message: alertData.message,
+        count: existing.count + 1,
+        details: isDuplicate ? existing.details : [detail, ...existing.details].slice(0, MAX_DETAILS),
+        // A sticky alert stays sticky; otherwise the timer restarts with the newest duration
+        duration: existing.duration === 0 ? 0 : alertData.duration ?? existing.duration,
+        action: alertData.action ?? existing.action,
+        updatedAt: now
+      };
+    } else {
+      alert = {
+        ...alertData,
+        id: `alert-${now}-${Math.random().toString(36).slice(2, 11)}`,
+        groupKey,
+        count: 1,
+        details: [detail],
+        duration: alertData.duration ?? DEFAULT_DURATION_MS,
+        updatedAt: now
+      };
+    }
+
+    // Newest on top; drop the least important waiting toasts past the cap
+    const next = [alert, ...alertsRef.current.filter(item => item.id !== alert.id)]
+      .sort(byPriority)
+      .slice(0, MAX_VISIBLE_ALERTS + MAX_QUEUED_ALERTS);
+    commitAlerts(next);
+
+    const entry: AlertHistoryEntry = {
+      id: alert.id,
+      type: alert.type,
+      title: getAlertTitle(alert),
+      message: alert.count > 1 && alert.details.length > 1 ? alert.details.join('\n') : alert.message,
+      count: alert.count,
+      createdAt: new Date(now).toISOString(),
+      read: false
+    };
+    setHistory(prev => [entry, ...prev.filter(item => item.id !== alert.id)].slice(0, MAX_HISTORY_ENTRIES));
+
+    return alert.id;
+  }, []);
+
+  const removeAlert = useCallback((id: string) => {
+    commitAlerts(alertsRef.current.filter(alert => alert.id !== id));
+  }, []);
+
+  const clearAllAlerts = useCallback(() => {
+    commitAlerts([]);
+  }, []);
+
+  // Convenience methods for different alert types
+  const showError = useCallback((title: string, message: string, options?: AlertOptions) => {
+    return addAlert({ type: 'error', title, message, duration: 0, ...options });
+  }, [addAlert]);
+
+  const showWarning = useCallback((title: string, message: string, options?: AlertOptions) => {
+    return addAlert({ type: 'warning', title, message, ...options });
+  }, [addAlert]);
+
+  const showInfo = useCallback((title: string, message: string, options?: AlertOptions) => {
+    return addAlert({ type: 'info', title, message, ...options });
+  }, [addAlert]);
+
+  const showSuccess = useCallback((title: string, message: string, options?: AlertOptions) => {
+    return addAlert({ type: 'success', title, message, ...options });
+  }, [addAlert]);
+
+  // Notification centre
+  const markRead = useCallback((id: string) => {
+    setHistory(prev => prev.map(entry => (entry.id === id ? { ...entry, read: true } : entry)));
+  }, []);
+
+  const markAllRead = useCallback(() => {
+    setHistory(prev => prev.map(entry => ({ ...entry, read: true })));
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    setHistory([]);
+  }, []);
+
+  const alerts = useMemo(() => allAlerts.slice(0, MAX_VISIBLE_ALERTS), [allAlerts]);
+  const unreadCount = history.filter(entry => !entry.read).length;
+
+  return {
+    alerts,                                         // Visible toasts, highest priority first
+    queuedCount: allAlerts.length - alerts.length,  // Toasts waiting for a free slot
+    history,
+    unreadCount,
+    addAlert,
+    removeAlert,
+    clearAllAlerts,
+    showError,
+    showWarning,
+    showInfo,
+    showSuccess,
+    markRead,
+    markAllRead,
+    clearHistory
+  };
+};
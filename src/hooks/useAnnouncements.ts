@@ -0,0 +1,157 @@
+import { useState, useEffect, useRef } from 'react';
+import type { AlertType } from '../components/AlertSystem';
+import type { AnnouncementSettings, ChimeStyle, DisruptionChangeSet } from '../types/disruption';
+import {
+  loadAnnouncementSettings,
+  saveAnnouncementSettings
+} from '../services/announcementSettingsStore';
+import {
+  isSpeechSupported,
+  listVoices,
+  playChime,
+  speak,
+  stopSpeaking,
+  unlockAudio
+} from '../services/speech';
+import { findAnnouncements } from '../utils/announcements';
+import { isWithinDailyWindow } from '../utils/timeWindows';
+import { useErrorHandler } from './useErrorHandler';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+// Disruptions read out per refresh; the rest are summed up in one sentence
+const MAX_ANNOUNCEMENTS_PER_REFRESH = 3;
+
+/**
+ * Custom React hook for spoken announcements (control-room mode)
+ * 
+ * Reads out new and escalated disruptions at or above the chosen severity,
+ * each preceded by the chime for its kind, e.g. "Serious disruption,
+ * A2 Old Kent Road, lane closures". Driven by the same change sets as the
+ * activity feed, so each refresh is announced once. Nothing is spoken during
+ * quiet hours, on the initial load or while announcements are off.
+ * Announcements from consecutive refreshes queue up rather than overlap.
+ * 
+ * @param changeSet - Latest change set from useDisruptions
+ * @param onShowAlert - Callback for showing alerts to users
+ * @returns Object with the settings, available voices and announcement controls
+ */
+export const useAnnouncements = (
+  changeSet: DisruptionChangeSet | null,
+  onShowAlert: (type: AlertType, title: string, message: string) => void
+) => {
+  const { handleBrowserCompatibility } = useErrorHandler({ onShowAlert });
+  const [settings, setSettings] = useState<AnnouncementSettings>(loadAnnouncementSettings);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(listVoices);
+
+  // Latest settings for the change set effect, which should only run per refresh
+  const settingsRef = useRef(settings);
+  useEffect(() => {
+    settingsRef.current = settings;
+  });
+
+  // Announcements play one after another; bumping the generation drops queued ones
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    saveAnnouncementSettings(settings);
+  }, [settings]);
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!isSpeechSupported()) return;
+    const handleVoicesChanged = () => setVoices(listVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', handleVoicesChanged);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+  }, []);
+
+  // Stop talking when announcements are turned off
+  useEffect(() => {
+    if (settings.enabled) return;
+    generationRef.current += 1;
+    stopSpeaking();
+  }, [settings.enabled]);
+
+  /**
+   * Queues sentences to be read out, each after its chime
+   */
+  const enqueue = (items: { text: string; chime: ChimeStyle }[]) => {
+    const generation = generationRef.current;
+    queueRef.current = queueRef.current.then(async () => {
+      for (const item of items) {
+        if (generation !== generationRef.current) return;
+        await playChime(item.chime);
+        if (generation !== generationRef.current) return;
+        await speak(item.text, settingsRef.current.voiceURI);
+      }
+    });
+  };
+
+  // Announce each refresh's new and escalated disruptions
+  useEffect(() => {
+    const current = settingsRef.current;
+    if (!changeSet || !current.enabled || !isSpeechSupported()) return;
+    if (isWithinDailyWindow(new Date(changeSet.detectedAt), current.quietHours)) return;
+
+    const announcements = findAnnouncements(changeSet, current.minSeverity);
+    if (announcements.length === 0) return;
+
+    const items: { text: string; chime: ChimeStyle }[] = announcements
+      .slice(0, MAX_ANNOUNCEMENTS_PER_REFRESH)
+      .map(announcement => ({ text: announcement.text, chime: current.chimes[announcement.kind] }));
+    const remaining = announcements.length - items.length;
+    if (remaining > 0) {
+      items.push({ text: `${TEXT_CONSTANTS[114]} ${remaining} ${TEXT_CONSTANTS[115]}`, chime: 'none' });
+    }
+    enqueue(items);
+  }, [changeSet]);
+
+  /**
+   * Changes some of the settings
+   */
+  const updateSettings = (changes: Partial<AnnouncementSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  /**
+   * Turns announcements on; must run from a click so the browser allows audio
+   */
+  const enable = () => {
+    if (!isSpeechSupported()) {
+      handleBrowserCompatibility('Speech synthesis', 'Alerts will keep appearing on screen only.');
+      return;
+    }
+    unlockAudio();
+    updateSettings({ enabled: true });
+    onShowAlert('success', 'Announcements On', 'New and escalated disruptions will be read out.');
+  };
+
+  /**
+   * Turns announcements off and stops anything being read out
+   */
+  const disable = () => {
+    updateSettings({ enabled: false });
+  };
+
+  /**
+   * Reads out a sample announcement with the current voice and "new" chime
+   */
+  const testAnnouncement = () => {
+    if (!isSpeechSupported()) {
+      handleBrowserCompatibility('Speech synthesis', 'Alerts will keep appearing on screen only.');
+      return;
+    }
+    unlockAudio();
+    enqueue([{ text: TEXT_CONSTANTS[116], chime: settings.chimes.new }]);
+  };
+
+  return {
+    settings,
+    voices,
+    isSupported: isSpeechSupported(),
+    updateSettings,
+    enable,
+    disable,
+    testAnnouncement
+  };
+};
@@ -0,0 +1,27 @@
+import { useSyncExternalStore } from 'react';
+import type { CircuitBreaker, CircuitBreakerSnapshot } from '../services/circuitBreaker';
+
+// Reported for sources without a breaker (fixtures, replay) - they never trip
+const CLOSED_SNAPSHOT: CircuitBreakerSnapshot = {
+  state: 'closed',
+  consecutiveFailures: 0,
+  retryAt: null
+};
+
+const subscribeToNothing = () => () => {};
+const getClosedSnapshot = () => CLOSED_SNAPSHOT;
+
+/**
+ * Custom React hook exposing a circuit breaker's live state
+ * 
+ * Re-renders whenever the breaker opens, half-opens or closes, so the
+ * header can show when TfL calls are paused and when they will resume.
+ * 
+ * @param breaker - Breaker to observe (undefined = always closed)
+ * @returns CircuitBreakerSnapshot - Current state, failure count and retry time
+ */
+export const useCircuitBreaker = (breaker?: CircuitBreaker): CircuitBreakerSnapshot =>
+  useSyncExternalStore(
+    breaker?.subscribe ?? subscribeToNothing,
+    breaker?.getSnapshot ?? getClosedSnapshot
+  );
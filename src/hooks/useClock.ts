@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { TIMING_CONSTANTS } from '../constants/ui';
+
+/**
+ * Custom React hook for the current time, updated on a fixed tick
+ *
+ * Lets time-based filters ("active now") and labels ("starts in 3h") move on
+ * between data refreshes, which can be half an hour apart.
+ *
+ * @param intervalMs - How often to update (defaults to once a minute)
+ * @returns number - Current time in ms, as of the last tick
+ */
+export const useClock = (intervalMs: number = TIMING_CONSTANTS.CLOCK_TICK_MS): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
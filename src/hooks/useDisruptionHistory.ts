@@ -0,0 +1,144 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { DisruptionSnapshot, FilterState } from '../types/disruption';
+import { getActiveDisruptionSource, type DisruptionSource } from '../services/disruptionSource';
+import {
+  getHistoryRetentionHours,
+  listHistoryTimes,
+  loadHistorySnapshot,
+  pruneHistory,
+  setHistoryRetentionHours
+} from '../services/historyStore';
+import { calculateCounts, calculateFacets, filterDisruptions } from './useDisruptions';
+
+/**
+ * Custom React hook for timeline playback of recorded refreshes
+ * 
+ * While inactive it only keeps the list of recorded times up to date.
+ * When activated, it loads the snapshot at the selected time and applies
+ * the user's current filters to it, so the map and list can render the
+ * past exactly like live data. Time filters and card timing labels are both
+ * measured from the snapshot's capture time (see `referenceTime`).
+ *
+ * @param filters - Current filter preferences (applied to the historical data)
+ * @param refreshKey - Changes on every live refresh (new history entry)
+ * @param source - Feed whose history to read (defaults to the configured source)
+ * @returns Object with playback state, the historical view and controls
+ */
+export const useDisruptionHistory = (
+  filters: FilterState,
+  refreshKey: Date | null,
+  source: DisruptionSource = getActiveDisruptionSource()
+) => {
+  // Whether the timeline replaces the live view
+  const [isActive, setIsActive] = useState(false);
+
+  // Recorded capture times, oldest first
+  const [times, setTimes] = useState<string[]>([]);
+
+  // Capture time being replayed (null = latest recorded)
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+
+  // Snapshot loaded for the selected time
+  const [snapshot, setSnapshot] = useState<DisruptionSnapshot | null>(null);
+
+  const [retentionHours, setRetentionHoursState] = useState(getHistoryRetentionHours);
+
+  // Bumped after a prune so the list of times is re-read
+  const [pruneCount, setPruneCount] = useState(0);
+
+  // Reload the list of recorded times after every refresh and prune
+  useEffect(() => {
+    let isCancelled = false;
+
+    listHistoryTimes(source.kind)
+      .then(recorded => {
+        if (!isCancelled) setTimes(recorded);
+      })
+      .catch(error => console.warn('Could not read history:', error));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [refreshKey, pruneCount, source]);
+
+  // The moment actually shown - the chosen time, or the newest recording
+  const activeTime = selectedTime && times.includes(selectedTime)
+    ? selectedTime
+    : times[times.length - 1] ?? null;
+
+  // Load the snapshot for the active time while the timeline is open
+  useEffect(() => {
+    if (!isActive || !activeTime) {
+      setSnapshot(null);
+      return;
+    }
+    let isCancelled = false;
+
+    loadHistorySnapshot(source.kind, activeTime)
+      .then(loaded => {
+        if (!isCancelled) setSnapshot(loaded);
+      })
+      .catch(error => console.warn('Could not load history snapshot:', error));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isActive, activeTime, source]);
+
+  // The replayed moment - what "now" means for time filters and card labels
+  const referenceTime = snapshot ? Date.parse(snapshot.capturedAt) : null;
+
+  // Historical data filtered exactly like the live view, as of its capture time
+  // ("active now" means active at that moment)
+  const historicalDisruptions = useMemo(
+    () => (snapshot && referenceTime !== null ? filterDisruptions(snapshot.disruptions, filters, referenceTime) : []),
+    [snapshot, referenceTime, filters]
+  );
+
+  const historicalCounts = useMemo(
+    () => calculateCounts(snapshot?.disruptions ?? []),
+    [snapshot]
+  );
+
+  const historicalFacets = useMemo(
+    () => (snapshot && referenceTime !== null
+      ? calculateFacets(snapshot.disruptions, filters, referenceTime)
+      : { statuses: [], categories: [], subCategories: [] }),
+    [snapshot, referenceTime, filters]
+  );
+
+  /**
+   * Opens or closes the timeline; opening starts at the newest recording
+   */
+  const toggleHistory = useCallback(() => {
+    setIsActive(prev => !prev);
+    setSelectedTime(null);
+  }, []);
+
+  /**
+   * Changes how long history is kept and prunes immediately
+   */
+  const updateRetention = useCallback((hours: number) => {
+    setHistoryRetentionHours(hours);
+    setRetentionHoursState(hours);
+    pruneHistory(source.kind, hours)
+      .then(() => setPruneCount(count => count + 1))
+      .catch(error => console.warn('Could not prune history:', error));
+  }, [source]);
+
+  return {
+    isActive,
+    times,
+    activeTime,
+    snapshot,
+    referenceTime,                     // Capture time being replayed (ms), null while live
+    historicalDisruptions,
+    historicalCounts,
+    historicalFacets,
+    retentionHours,
+
+    toggleHistory,
+    selectTime: setSelectedTime,
+    updateRetention
+  };
+};
@@ -1,38 +1,168 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import type { Disruption, FilterState, LoadingState } from '../types/disruption';
-import { TflApiService } from '../services/tflApi';
+import type {
+  Disruption,
+  DisruptionChangeSet,
+  DisruptionSnapshot,
+  FilterFacets,
+  FilterState,
+  LoadingState,
+  RejectionReason,
+  ValidationReport
+} from '../types/disruption';
+import {
+  getActiveDisruptionSource,
+  LIVE_SOURCE_KINDS,
+  type DisruptionSource,
+  type DisruptionSourceKind
+} from '../services/disruptionSource';
 import { TEXT_CONSTANTS } from '../constants/text';
 import { TIMING_CONSTANTS } from '../constants/ui';
 import { useErrorHandler } from './useErrorHandler';
+import { useCircuitBreaker } from './useCircuitBreaker';
+import { HttpError, isAbortError } from '../services/httpClient';
+import { loadLastGoodSnapshot, saveLastGoodSnapshot } from '../services/snapshotStore';
+import { recordHistorySnapshot } from '../services/historyStore';
+import {
+  getCategoryValue,
+  getSubCategoryValue,
+  REJECTION_REASON_LABELS,
+  sortFacetCounts
+} from '../utils/disruptionUtils';
+import { createEmptyChangeSet, diffDisruptions, mergeDisruptions } from '../utils/changeDetection';
+import { sortByRelevance } from '../utils/search';
+import { isInTimeWindow } from '../utils/timeWindows';
+import { isResolved, isWithinResolvedWindow, trackResolvedDisruptions } from '../utils/resolvedDisruptions';
+import { compileQuery, type CompiledQuery, type DisruptionPredicate } from '../utils/queryLanguage';
+
+// Filters applied by filterDisruptions, named so facet counts can leave their own out
+type FilterPredicateName =
+  | 'status'
+  | 'resolvedWindow'
+  | 'severity'
+  | 'corridor'
+  | 'category'
+  | 'subCategory'
+  | 'time'
+  | 'query';
+
+/**
+ * Builds the predicate for each user filter
+ * 
+ * @param filters - User's current filter preferences
+ * @param query - The compiled search box query
+ * @param now - Reference time for the time filter (ms)
+ */
+const buildFilterPredicates = (
+  filters: FilterState,
+  query: CompiledQuery,
+  now: number
+): Record<FilterPredicateName, DisruptionPredicate> => ({
+  // Status facet - active disruptions by default, resolved ones when ticked
+  status: disruption => filters.statuses.size === 0 || filters.statuses.has(disruption.status),
+  // Resolved disruptions only stay listed for a few hours after they cleared
+  resolvedWindow: disruption => isWithinResolvedWindow(disruption, filters.resolvedWithinHours, now),
+  // Filter by severity level - check if user has selected this severity
+  severity: disruption => filters.severities.has(disruption.severity),
+  // Filter by road corridor - corridor ids are compared case-insensitively
+  corridor: disruption => !filters.corridorId ||
+    disruption.corridorIds.some(id => id.toLowerCase() === filters.corridorId),
+  // Category facets - nothing ticked means every value
+  category: disruption => filters.categories.size === 0 || filters.categories.has(getCategoryValue(disruption)),
+  subCategory: disruption => filters.subCategories.size === 0 ||
+    filters.subCategories.has(getSubCategoryValue(disruption)),
+  // Time filter on start and end times
+  time: disruption => isInTimeWindow(disruption, filters.timeWindow, now),
+  query: query.predicate
+});
 
 /**
  * Pure function to filter disruptions based on user criteria
  * 
- * This function applies multiple filters to the disruption list:
- * - Status filter: Only shows active disruptions
+ * This function runs every disruption through a pipeline of predicates:
+ * - Status filter: Shows only the ticked statuses (all but resolved by default); resolved
+ *   disruptions only within the "resolved in the last N hours" window
  * - Severity filter: Shows only selected severity levels
- * - Search filter: Matches location names against search query
+ * - Corridor filter: Shows only disruptions on the selected road corridor
+ * - Category and sub-category filters: Shows only the ticked values (all when none are)
+ * - Time filter: Active now, starting in the next 24h, this week or a date range
+ * - Search: The search box query (see utils/queryLanguage) - plain words are a
+ *   typo-tolerant full-text search over location, street names, status update
+ *   and description; fields, "-", OR and brackets refine it
+ * Results are then ranked by the query's free text, best match first.
  * 
  * @param disruptions - Complete list of disruptions from API
  * @param filters - User's current filter preferences
- * @returns Filtered array of disruptions matching all criteria
+ * @param now - Reference time for time filters and relative query times (ms)
+ * @returns Filtered array of disruptions matching all criteria (ranked when searching)
  */
-const filterDisruptions = (disruptions: Disruption[], filters: FilterState): Disruption[] => {
-  return disruptions.filter(disruption => {
-    // Only show active disruptions - hide resolved/inactive ones
-    if (disruption.status !== 'Active') return false;
-    
-    // Filter by severity level - check if user has selected this severity
-    if (!filters.severities.has(disruption.severity)) return false;
-    
-    // Filter by search query - case-insensitive location search
-    if (filters.searchQuery) {
-      const query = filters.searchQuery.toLowerCase();
-      return disruption.location.toLowerCase().includes(query);
+export const filterDisruptions = (disruptions: Disruption[], filters: FilterState, now = Date.now()): Disruption[] => {
+  const query = compileQuery(filters.searchQuery, now);
+  const predicates = Object.values(buildFilterPredicates(filters, query, now));
+
+  const matching = disruptions.filter(disruption => predicates.every(predicate => predicate(disruption)));
+
+  // Rank last - it orders what the predicates leave
+  return query.rankText ? sortByRelevance(matching, query.rankText) : matching;
+};
+
+/**
+ * Pure function to calculate the status, category and sub-category facets
+ * 
+ * Each facet is counted with every other filter applied but its own, so a
+ * count is what the list would gain by ticking that box:
+ * - Statuses: always Active, Scheduled and Inactive (resolved), counting
+ *   resolved disruptions within the resolved window only
+ * - Categories: every category of the ticked statuses, even those with no matches
+ * - Sub-categories: those within the selected categories (all when none are)
+ * Ticked values stay listed after they drop out of the data, so they can be unticked.
+ * 
+ * @param disruptions - Complete list of disruptions from API
+ * @param filters - User's current filter preferences
+ * @param now - Reference time for time filters and relative query times (ms)
+ * @returns FilterFacets - Values with counts, statuses in fixed order, the rest most common first
+ */
+export const calculateFacets = (
+  disruptions: Disruption[],
+  filters: FilterState,
+  now = Date.now()
+): FilterFacets => {
+  const { status, resolvedWindow, category, subCategory, ...others } = buildFilterPredicates(
+    filters,
+    compileQuery(filters.searchQuery, now),
+    now
+  );
+  const otherPredicates = Object.values(others);
+  const statusCounts = new Map<string, number>([['Active', 0], ['Scheduled', 0], ['Inactive', 0]]);
+  const categoryCounts = new Map(Array.from(filters.categories, value => [value, 0]));
+  const subCategoryCounts = new Map(Array.from(filters.subCategories, value => [value, 0]));
+
+  for (const disruption of disruptions.filter(resolvedWindow)) {
+    const matchesOthers = otherPredicates.every(predicate => predicate(disruption));
+    const matchesCategories = category(disruption) && subCategory(disruption);
+    statusCounts.set(
+      disruption.status,
+      (statusCounts.get(disruption.status) ?? 0) + (matchesOthers && matchesCategories ? 1 : 0)
+    );
+
+    if (!status(disruption)) continue;
+
+    const categoryValue = getCategoryValue(disruption);
+    categoryCounts.set(
+      categoryValue,
+      (categoryCounts.get(categoryValue) ?? 0) + (matchesOthers && subCategory(disruption) ? 1 : 0)
+    );
+
+    if (category(disruption)) {
+      const subCategoryValue = getSubCategoryValue(disruption);
+      subCategoryCounts.set(subCategoryValue, (subCategoryCounts.get(subCategoryValue) ?? 0) + (matchesOthers ? 1 : 0));
     }
-    
-    return true;
-  });
+  }
+
+  return {
+    statuses: Array.from(statusCounts, ([value, count]) => ({ value, count })),
+    categories: sortFacetCounts(categoryCounts),
+    subCategories: sortFacetCounts(subCategoryCounts)
+  };
 };
 
 /**
@@ -43,37 +173,85 @@ const filterDisruptions = (disruptions: Disruption[], filters: FilterState): Dis
  * - Count of moderate disruptions (medium priority)
  * - Count of minor disruptions (low priority)
  * - Total count of all disruptions
+ * Resolved disruptions (TfL's "Recently Cleared") are left out.
  * 
  * @param disruptions - Complete list of disruptions to count
  * @returns Object with counts for each severity level plus total
  */
-const calculateCounts = (disruptions: Disruption[]) => ({
-  severe: disruptions.filter(d => d.severity === TEXT_CONSTANTS[7]).length,
-  moderate: disruptions.filter(d => d.severity === TEXT_CONSTANTS[8]).length,
-  minor: disruptions.filter(d => d.severity === TEXT_CONSTANTS[9]).length,
-  total: disruptions.length
-});
+export const calculateCounts = (disruptions: Disruption[]) => {
+  const current = disruptions.filter(d => !isResolved(d));
+  return {
+    severe: current.filter(d => d.severity === TEXT_CONSTANTS[7]).length,
+    moderate: current.filter(d => d.severity === TEXT_CONSTANTS[8]).length,
+    minor: current.filter(d => d.severity === TEXT_CONSTANTS[9]).length,
+    total: current.length
+  };
+};
+
+/**
+ * Builds a short human-readable summary of the most common rejection reasons
+ * e.g. "3 missing coordinates, 1 outside London bounds"
+ *
+ * @param report - Validation report from the latest fetch
+ * @returns Comma-separated summary of the top three reasons
+ */
+const summarizeRejections = (report: ValidationReport): string =>
+  Object.entries(report.reasonCounts)
+    .sort(([, a], [, b]) => (b ?? 0) - (a ?? 0))
+    .slice(0, 3)
+    .map(([reason, count]) => `${count} ${REJECTION_REASON_LABELS[reason as RejectionReason].toLowerCase()}`)
+    .join(', ');
+
+// Fallback alert callback so the error handler hook is always called unconditionally
+const noopAlert = () => {};
+
+/**
+ * Saves a refresh for offline use and history playback
+ * Failures only cost us the fallback or that point on the timeline
+ */
+const persistSnapshot = (kind: DisruptionSourceKind, snapshot: DisruptionSnapshot): void => {
+  saveLastGoodSnapshot(kind, snapshot)
+    .catch(storageError => console.warn('Could not save offline snapshot:', storageError));
+  recordHistorySnapshot(kind, snapshot)
+    .catch(storageError => console.warn('Could not record history snapshot:', storageError));
+};
 
 /**
  * Custom React hook for managing traffic disruption data and state
  * 
  * This hook centralizes all disruption-related functionality:
- * - Fetches data from TfL API on mount and at regular intervals
+ * - Fetches data from the active DisruptionSource on mount and at regular intervals
+ * - Applies refreshes incrementally and exposes what changed as a change set
+ * - Cancels superseded requests and reports the source's circuit breaker state
+ * - Waits out a server's Retry-After instead of refreshing early
+ * - Persists the last good feed and falls back to it on startup or failure
+ * - Records every refresh in the history store for timeline playback
  * - Manages loading states and error handling
+ * - Reports records dropped by validation (data quality)
  * - Provides filtering capabilities for users
  * - Tracks when data was last updated
  * - Handles manual refresh requests
  * - Supports alert notifications for data events
  * 
  * @param onShowAlert - Optional callback for showing alerts to users
+ * @param now - Current time (ms), ticking so time filters move on between refreshes
+ * @param source - Feed to read disruptions from (defaults to the configured source)
  * @returns Object containing disruption data, loading states, and control functions
  */
-export const useDisruptions = (onShowAlert?: (type: 'error' | 'warning' | 'info' | 'success', title: string, message: string) => void) => {
-  // Initialize error handler with alert callback  
-  const errorHandler = onShowAlert ? useErrorHandler({ onShowAlert }) : null;
+export const useDisruptions = (
+  onShowAlert: ((type: 'error' | 'warning' | 'info' | 'success', title: string, message: string) => void) | undefined,
+  now: number,
+  source: DisruptionSource = getActiveDisruptionSource()
+) => {
+  // Initialize error handler with alert callback (no-op when no callback is given)
+  const errorHandler = useErrorHandler({ onShowAlert: onShowAlert ?? noopAlert });
   
   // Core data state - stores all disruptions fetched from API
   const [disruptions, setDisruptions] = useState<Disruption[]>([]);
+
+  // Disruptions that cleared while the app was open (session only, like the
+  // activity feed); kept apart so counts, alerts and corridors ignore them
+  const [resolvedDisruptions, setResolvedDisruptions] = useState<Disruption[]>([]);
   
   // Loading and error state management for UI feedback
   const [loadingState, setLoadingState] = useState<LoadingState>({
@@ -85,11 +263,40 @@ export const useDisruptions = (onShowAlert?: (type: 'error' | 'warning' | 'info'
   const [filters, setFilters] = useState<FilterState>({
     // Show all severity levels by default
     severities: new Set([TEXT_CONSTANTS[7], TEXT_CONSTANTS[8], TEXT_CONSTANTS[9]]),
-    searchQuery: ''     // No search filter initially
+    statuses: new Set(['Active', 'Scheduled']), // Hide resolved disruptions by default
+    resolvedWithinHours: 6,        // Resolved window once they are shown
+    searchQuery: '',    // No search filter initially
+    corridorId: null,   // All corridors initially
+    categories: new Set(),    // Every category initially
+    subCategories: new Set(), // Every sub-category initially
+    timeWindow: { preset: 'any', from: '', to: '' } // Any start/end time initially
   });
   
   // Timestamp tracking for showing "last updated" to users
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  // Data quality report from the latest validation run (null until first load)
+  const [validationReport, setValidationReport] = useState<ValidationReport | null>(null);
+
+  // What changed in the latest refresh (null until first load)
+  const [changeSet, setChangeSet] = useState<DisruptionChangeSet | null>(null);
+
+  // Capture time of the data on screen when it isn't fresh (saved snapshot or
+  // data from before a failed refresh); null while the latest refresh succeeded
+  const [staleSince, setStaleSince] = useState<Date | null>(null);
+
+  // Time of the last successful fetch this session (for staleSince on failure)
+  const lastSuccessAt = useRef<Date | null>(null);
+
+  // Latest disruption list, readable from the long-lived refresh interval
+  // (the state value would be stale inside its closure)
+  const previousDisruptions = useRef<Disruption[]>([]);
+
+  // Rejected count from the previous run - only warn when the data quality changes
+  const lastRejectedCount = useRef(0);
+
+  // Report of the last feed that had a body - still current after a 304
+  const lastReport = useRef<ValidationReport | null>(null);
   
   // Ref to track if this is the first data load (prevents notifications on initial load)
   const isInitialLoad = useRef(true);
@@ -97,70 +304,138 @@ export const useDisruptions = (onShowAlert?: (type: 'error' | 'warning' | 'info'
   // Ref to store interval ID for automatic data refresh (enables cleanup)
   const intervalRef = useRef<number | null>(null);
 
+  // In-flight request - aborted when a newer refresh starts or on unmount
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Server asked us to come back later (Retry-After): automatic refreshes wait
+  // until then and a one-off refresh is scheduled for that time
+  const retryAtRef = useRef(0);
+  const retryTimerRef = useRef<number | null>(null);
+
+  // Live circuit breaker state of the source (always closed for demo sources)
+  const circuitState = useCircuitBreaker(source.circuitBreaker);
+
   /**
    * Memoized filtered disruptions for performance optimization
    * 
    * This prevents unnecessary recalculation of filtered results:
-   * - Only recalculates when disruptions or filters change
+   * - Only recalculates when disruptions, filters or the minute change
    * - Avoids expensive filtering on every render
    * - Improves performance with large datasets
    */
+  // Feed plus cleared disruptions - what the filters (and status facet) choose from
+  const filterableDisruptions = useMemo(
+    () => [...disruptions, ...resolvedDisruptions],
+    [disruptions, resolvedDisruptions]
+  );
+
   const filteredDisruptions = useMemo(() => 
-    filterDisruptions(disruptions, filters), 
-    [disruptions, filters]
+    filterDisruptions(filterableDisruptions, filters, now), 
+    [filterableDisruptions, filters, now]
   );
 
   // Simple counting - calculate directly
   const disruptionCounts = calculateCounts(disruptions);
 
+  // Status and category filter options with live counts
+  const facets = useMemo(
+    () => calculateFacets(filterableDisruptions, filters, now),
+    [filterableDisruptions, filters, now]
+  );
+
   /**
    * Main data fetching function with error handling and state management
    * 
    * This function handles the complete data fetch lifecycle:
    * - Sets loading state to show spinner
-   * - Calls TfL API service to get fresh data
-   * - Checks for new severe disruptions (for notifications)
+   * - Calls the disruption source to get fresh data (304 = nothing changed)
+   * - Diffs against the previous refresh and merges changed records only
+   * - Exposes the change set (alert rules decide what to notify about)
    * - Updates all relevant state variables
    * - Handles errors gracefully with user-friendly messages
    * 
    * @param isManualRefresh - True if user triggered refresh, false for automatic
    */
   const fetchDisruptions = useCallback(async (isManualRefresh = false) => {
+    // Server asked us to wait - the scheduled retry (or the user) refreshes instead
+    if (!isManualRefresh && Date.now() < retryAtRef.current) return;
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    // Only the newest refresh may update state - cancel whatever is still running
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
       // Show loading spinner while fetching
       setLoadingState(prev => ({ ...prev, isLoading: true }));
       
-      // Fetch fresh data from TfL API
-      const data = await TflApiService.getTrafficDisruptions();
-      
-      // Check for new severe disruptions (notification logic)
-      // Only on automatic updates, not manual refresh or initial load
-      if (!isInitialLoad.current && !isManualRefresh) {
-        const newSevereCount = data.filter(disruption => 
-          disruption.severity === TEXT_CONSTANTS[7] && 
-          !disruptions.some(existing => existing.id === disruption.id)
-        ).length;
-        
-        // Log new severe disruptions for user awareness
-        if (newSevereCount > 0) {
-          console.log(`${newSevereCount} new severe disruption(s) detected`);
-          
-          // Show alert for new severe disruptions
-          if (onShowAlert) {
-            onShowAlert(
-              'warning',
-              'New Severe Disruptions',
-              `${newSevereCount} new severe disruption${newSevereCount > 1 ? 's' : ''} detected in London`
-            );
-          }
+      // Fetch fresh data from the active source (live TfL, fixture or replay)
+      const update = await source.getTrafficDisruptions(controller.signal);
+      if (controller.signal.aborted) return;
+      const fetchedAt = new Date();
+
+      // Feed unchanged since the last fetch - keep data and report, record an empty change set
+      if (update.notModified) {
+        setChangeSet(createEmptyChangeSet(fetchedAt.toISOString()));
+        setLastUpdated(fetchedAt);
+        setStaleSince(null);
+        setLoadingState({ isLoading: false, error: null });
+        lastSuccessAt.current = fetchedAt;
+
+        // Still a point on the timeline (and a fresher offline copy): the same data, confirmed now
+        if (lastReport.current) {
+          persistSnapshot(source.kind, {
+            capturedAt: fetchedAt.toISOString(),
+            disruptions: previousDisruptions.current,
+            report: lastReport.current
+          });
         }
+        return;
+      }
+
+      const { disruptions: data, report } = update;
+
+      // Surface dropped records instead of losing them silently
+      // Only alert when the number of rejected items changes, not on every refresh
+      if (report.rejected > 0 && report.rejected !== lastRejectedCount.current) {
+        errorHandler.handleDataValidationError(
+          `${report.rejected} of ${report.total} disruptions were skipped`,
+          summarizeRejections(report)
+        );
       }
+      lastRejectedCount.current = report.rejected;
+      lastReport.current = report;
+      
+      // Work out what changed since the previous refresh
+      const changes = diffDisruptions(previousDisruptions.current, data, {
+        isInitial: isInitialLoad.current,
+        detectedAt: fetchedAt.toISOString()
+      });
+      const merged = mergeDisruptions(previousDisruptions.current, data);
+      previousDisruptions.current = merged;
+      
+      // Alerts about the changes (new Serious disruptions etc.) come from the
+      // alert rules, which are evaluated against the change set
       
       // Update all state with fresh data
-      setDisruptions(data);                                    // Store new disruption data
-      setLastUpdated(new Date());                             // Record when data was fetched
+      setDisruptions(merged);                                  // Store merged disruption data
+      setChangeSet(changes);                                   // Expose what changed
+      setResolvedDisruptions(prev => trackResolvedDisruptions( // Keep what cleared for the status filter
+        prev, changes.removed, merged, fetchedAt.getTime(), TIMING_CONSTANTS.RESOLVED_RETENTION_MS
+      ));
+      setValidationReport(report);                             // Keep data quality report
+      setLastUpdated(fetchedAt);                              // Record when data was fetched
+      setStaleSince(null);                                    // Data on screen is fresh again
       setLoadingState({ isLoading: false, error: null });    // Clear loading state
       isInitialLoad.current = false;                          // Mark initial load as complete
+      lastSuccessAt.current = fetchedAt;
+
+      // Persist for offline use and history
+      persistSnapshot(source.kind, { capturedAt: fetchedAt.toISOString(), disruptions: merged, report });
       
       // Show success alert for initial load or successful refresh after error
       if (onShowAlert && (isInitialLoad.current || isManualRefresh)) {
@@ -172,15 +447,33 @@ export const useDisruptions = (onShowAlert?: (type: 'error' | 'warning' | 'info'
       }
       
     } catch (error) {
+      // Superseded by a newer refresh or unmounted - that request owns the state now
+      if (isAbortError(error) || controller.signal.aborted) return;
+
       // Handle any errors during fetch process using centralized error handler
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
       setLoadingState({ 
         isLoading: false, 
         error: errorMessage
       });
+
+      // Keep showing what we had; before any success the saved snapshot (if any) is on screen
+      if (lastSuccessAt.current) {
+        setStaleSince(lastSuccessAt.current);
+      }
+
+      // Come back when the server said to (e.g. the proxy before its first poll)
+      if (error instanceof HttpError && error.retryAfterMs !== null) {
+        retryAtRef.current = Date.now() + error.retryAfterMs;
+        retryTimerRef.current = setTimeout(() => {
+          retryTimerRef.current = null;
+          retryAtRef.current = 0;
+          fetchDisruptions();
+        }, error.retryAfterMs);
+      }
       
       // Use specialized error handler if available, fallback to basic alert
-      if (errorHandler && error instanceof Error) {
+      if (onShowAlert && error instanceof Error) {
         errorHandler.handleApiError(error, 'traffic data loading');
       } else if (onShowAlert) {
         onShowAlert(
@@ -190,7 +483,27 @@ export const useDisruptions = (onShowAlert?: (type: 'error' | 'warning' | 'info'
         );
       }
     }
-  }, [disruptions]); // Depend on current disruptions for new severe disruption detection
+  }, [source]); // Previous data is read from a ref, so the callback stays stable
+
+  /**
+   * Shows the persisted snapshot until the first live load succeeds
+   * 
+   * Runs alongside the first fetch; whichever finishes first is shown, but a
+   * snapshot never overwrites live data. The first live load still counts as
+   * the initial load, so snapshot-to-live differences don't raise alerts.
+   */
+  const restoreSnapshot = useCallback(async () => {
+    try {
+      const snapshot = await loadLastGoodSnapshot(source.kind);
+      if (!snapshot || !isInitialLoad.current) return;
+
+      setDisruptions(snapshot.disruptions);
+      setValidationReport(snapshot.report);
+      setStaleSince(new Date(snapshot.capturedAt));
+    } catch (storageError) {
+      console.warn('Could not load offline snapshot:', storageError);
+    }
+  }, [source]);
 
   /**
    * Manual refresh function for user-triggered updates
@@ -227,6 +540,9 @@ export const useDisruptions = (onShowAlert?: (type: 'error' | 'warning' | 'info'
    * - Returns cleanup function to prevent memory leaks
    */
   useEffect(() => {
+    // Show the saved snapshot while the first live fetch is in flight
+    restoreSnapshot();
+
     // Fetch data immediately when component mounts
     fetchDisruptions();
 
@@ -249,6 +565,7 @@ export const useDisruptions = (onShowAlert?: (type: 'error' | 'warning' | 'info'
    * 
    * Ensures interval is properly cleared even if main effect cleanup fails:
    * - Defensive programming against memory leaks
+   * - Cancels any request still in flight
    * - Runs on component unmount
    */
   useEffect(() => {
@@ -256,6 +573,10 @@ export const useDisruptions = (onShowAlert?: (type: 'error' | 'warning' | 'info'
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+      }
+      abortRef.current?.abort();
     };
   }, []);
 
@@ -263,15 +584,25 @@ export const useDisruptions = (onShowAlert?: (type: 'error' | 'warning' | 'info'
   return {
     // Processed data ready for UI consumption
     disruptions: filteredDisruptions,
+    allDisruptions: disruptions,       // Unfiltered, for cross-cutting panels (corridors etc.)
     loadingState,
     lastUpdated,
     disruptionCounts,
+    facets,
+    validationReport,
+    changeSet,                         // What the latest refresh added/removed/changed
+    staleSince,                        // Set when showing saved/old data instead of fresh data
     
     // Actions
     updateFilters,
     refreshData,
     
     // Filter state (if needed by components)
-    filters
+    filters,
+
+    // Feed the data comes from (for "demo data" indicators)
+    sourceLabel: source.label,
+    isLiveSource: LIVE_SOURCE_KINDS.includes(source.kind),
+    circuitState
   };
 };
@@ -1,5 +1,8 @@
 import { useCallback } from 'react';
 import type { AlertType } from '../components/AlertSystem';
+import { HttpError, TimeoutError } from '../services/httpClient';
+import { CircuitOpenError } from '../services/circuitBreaker';
+import { InvalidPayloadError } from '../services/disruptionValidation';
 
 interface ErrorHandlerProps {
   onShowAlert: (type: AlertType, title: string, message: string) => void;
@@ -25,8 +28,52 @@ export const useErrorHandler = ({ onShowAlert }: ErrorHandlerProps) => {
     console.error(`Error during ${context}:`, error);
     const message = error.message.toLowerCase();
     
+    // Circuit breaker open - requests are paused on purpose, not failing
+    if (error instanceof CircuitOpenError) {
+      onShowAlert(
+        'warning',
+        'Live Data Paused',
+        `Traffic data service kept failing, so requests are paused until ${error.retryAt.toLocaleTimeString()}.`,
+      );
+    }
+    // Rate limiting with a known wait time (Retry-After)
+    else if (error instanceof HttpError && error.status === 429) {
+      const wait = error.retryAfterMs !== null
+        ? `${Math.ceil(error.retryAfterMs / 1000)} seconds`
+        : 'a moment';
+      onShowAlert(
+        'warning',
+        'Too Many Requests',
+        `Traffic data service asked us to wait ${wait} before refreshing the data for ${context} again.`,
+      );
+    }
+    // Upstream not ready yet and said when to come back (e.g. the proxy before its first poll)
+    else if (error instanceof HttpError && error.retryAfterMs !== null) {
+      const retryAt = new Date(Date.now() + error.retryAfterMs);
+      onShowAlert(
+        'info',
+        'Data Not Ready Yet',
+        `Traffic data service is not ready for ${context} yet. Retrying automatically at ${retryAt.toLocaleTimeString()}.`,
+      );
+    }
+    // Request took too long (after retries)
+    else if (error instanceof TimeoutError) {
+      onShowAlert(
+        'error',
+        'Request Timed Out',
+        `Traffic data service did not respond in time during ${context}. Please try again shortly.`,
+      );
+    }
+    // Feed answered with something other than a disruption list - keep what we have
+    else if (error instanceof InvalidPayloadError) {
+      onShowAlert(
+        'error',
+        'Unexpected Data',
+        `Traffic data service returned data in an unexpected format during ${context}. The last loaded data is still shown.`,
+      );
+    }
     // Network connectivity issues
-    if (message.includes('network') || message.includes('fetch')) {
+    else if (message.includes('network') || message.includes('fetch')) {
       onShowAlert(
         'error',
         'Connection Problem',
@@ -0,0 +1,123 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { Disruption, DisruptionChangeSet, IncidentAction, IncidentRecord } from '../types/disruption';
+import { loadIncidentRecords, saveIncidentRecords } from '../services/incidentLogStore';
+import {
+  applyIncidentAction,
+  buildIncidentLogExport,
+  lapseAcknowledgements,
+  removeAcknowledgedChanges
+} from '../utils/incidentLog';
+
+// Records kept; the least recently updated are dropped first
+const MAX_INCIDENT_RECORDS = 500;
+
+/**
+ * Saves JSON as a file through a temporary download link
+ */
+const downloadJson = (fileName: string, data: unknown) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Keeps the most recently updated records within the cap
+ */
+const capRecords = (records: IncidentRecord[]): IncidentRecord[] =>
+  records.length <= MAX_INCIDENT_RECORDS
+    ? records
+    : [...records].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)).slice(0, MAX_INCIDENT_RECORDS);
+
+/**
+ * Custom React hook for the operator incident log
+ * 
+ * Dispatchers acknowledge, assign, annotate and mark disruptions handled;
+ * every action is a timestamped history entry on the disruption's record.
+ * Acknowledged disruptions stop alerting until they change: the hook returns
+ * an alertable change set without them, and the first real change (severity,
+ * status update or clearance) ends the acknowledgement and is alerted as
+ * usual. Records are saved in localStorage and can be exported as JSON.
+ * The acknowledged records are also returned on their own, for the
+ * notification worker to apply the same rule.
+ * 
+ * @param changeSet - Latest change set from useDisruptions, for ending acknowledgements
+ * @param unmutedChangeSet - Same change set with muted disruptions removed (from useMutes)
+ * @returns Object with the records, the acknowledged ones, the alertable change set and operator actions
+ */
+export const useIncidentLog = (
+  changeSet: DisruptionChangeSet | null,
+  unmutedChangeSet: DisruptionChangeSet | null
+) => {
+  const [records, setRecords] = useState<IncidentRecord[]>(loadIncidentRecords);
+
+  const recordsById = useMemo(
+    () => new Map(records.map(record => [record.disruptionId, record])),
+    [records]
+  );
+
+  useEffect(() => {
+    saveIncidentRecords(records);
+  }, [records]);
+
+  // Latest records for filtering; read when a new change set arrives so an
+  // operator action doesn't hand the alerting hooks a "new" change set
+  const recordsByIdRef = useRef(recordsById);
+  useEffect(() => {
+    recordsByIdRef.current = recordsById;
+  });
+
+  // Just what acknowledgement checks read - history can be long
+  const acknowledgedRecords = useMemo(
+    () => records
+      .filter(record => record.acknowledgement)
+      .map(record => ({ ...record, history: [] })),
+    [records]
+  );
+
+  const alertableChangeSet = useMemo(
+    () => (unmutedChangeSet ? removeAcknowledgedChanges(unmutedChangeSet, recordsByIdRef.current) : null),
+    [unmutedChangeSet]
+  );
+
+  // End acknowledgements of disruptions that changed
+  useEffect(() => {
+    if (!changeSet || changeSet.isInitial) return;
+    const lapsed = lapseAcknowledgements(changeSet, recordsByIdRef.current);
+    if (lapsed.length === 0) return;
+    const lapsedById = new Map(lapsed.map(record => [record.disruptionId, record]));
+    setRecords(prev => prev.map(record => lapsedById.get(record.disruptionId) ?? record));
+  }, [changeSet]);
+
+  /**
+   * Records an operator action against a disruption
+   */
+  const recordAction = (disruption: Disruption, action: IncidentAction) => {
+    setRecords(prev => {
+      const existing = prev.find(record => record.disruptionId === disruption.id);
+      const updated = applyIncidentAction(existing, disruption, action);
+      return capRecords(existing
+        ? prev.map(record => (record === existing ? updated : record))
+        : [...prev, updated]);
+    });
+  };
+
+  /**
+   * Downloads the whole log as a JSON file
+   */
+  const exportLog = () => {
+    const data = buildIncidentLogExport(records);
+    downloadJson(`incident-log-${data.exportedAt.slice(0, 10)}.json`, data);
+  };
+
+  return {
+    records,
+    recordsById,
+    acknowledgedRecords,
+    alertableChangeSet,
+    recordAction,
+    exportLog
+  };
+};
@@ -0,0 +1,121 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { Disruption, DisruptionChangeSet, DisruptionMute, MuteMode } from '../types/disruption';
+import { loadMutes, saveMutes } from '../services/muteStore';
+import { createMute, indexMutes, isMuteExpired, removeMutedChanges } from '../utils/mutes';
+import { removeResolvedChanges } from '../utils/resolvedDisruptions';
+import { STORAGE_KEYS } from '../constants/ui';
+
+// Longest delay setTimeout accepts; longer snoozes are re-checked when it fires
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Custom React hook for snoozed and muted disruptions
+ * 
+ * A disruption can be snoozed for a while or muted until its severity
+ * changes. Muted disruptions are dimmed (or hidden) in the list and map and
+ * left out of every alert: the hook returns an alertable change set with
+ * their changes (and those of resolved disruptions) removed, which the
+ * alerting hooks use instead of the raw one.
+ * Mutes end on their own - at the snooze time, on a severity change or when
+ * the disruption leaves the feed. Mutes and the hide setting are saved in
+ * localStorage.
+ * 
+ * @param changeSet - Latest change set from useDisruptions
+ * @param disruptions - Full current feed (unfiltered)
+ * @returns Object with the mutes, the alertable change set and functions to mute and restore
+ */
+export const useMutes = (changeSet: DisruptionChangeSet | null, disruptions: Disruption[]) => {
+  const [mutes, setMutes] = useState<DisruptionMute[]>(loadMutes);
+
+  // Hide muted disruptions instead of dimming them
+  const [hideMuted, setHideMuted] = useState(
+    () => localStorage.getItem(STORAGE_KEYS.HIDE_MUTED) === 'true'
+  );
+
+  // Bumped when the next snooze ends, to re-check expiry without a refresh
+  const [expiryCheck, setExpiryCheck] = useState(0);
+
+  useEffect(() => {
+    saveMutes(mutes);
+  }, [mutes]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.HIDE_MUTED, String(hideMuted));
+  }, [hideMuted]);
+
+  // Drop mutes that have run out or whose disruption has left the feed
+  useEffect(() => {
+    if (!changeSet) return; // Feed not loaded yet - every disruption would look gone
+    const current = new Map(disruptions.map(disruption => [disruption.id, disruption]));
+    const now = new Date();
+    setMutes(prev => {
+      const kept = prev.filter(mute =>
+        current.has(mute.disruptionId) && !isMuteExpired(mute, current.get(mute.disruptionId), now));
+      return kept.length === prev.length ? prev : kept;
+    });
+  }, [changeSet, disruptions, expiryCheck]);
+
+  // Wake up when the next snooze ends
+  useEffect(() => {
+    const nextEnd = Math.min(
+      ...mutes.filter(mute => mute.until !== null).map(mute => Date.parse(mute.until as string))
+    );
+    if (!Number.isFinite(nextEnd)) return;
+    const timer = setTimeout(
+      () => setExpiryCheck(count => count + 1),
+      Math.min(Math.max(nextEnd - Date.now(), 0), MAX_TIMER_DELAY_MS)
+    );
+    return () => clearTimeout(timer);
+  }, [mutes]);
+
+  // Latest mutes for filtering; read when a new change set arrives so muting
+  // something doesn't hand the alerting hooks a "new" change set to re-alert on
+  const mutesRef = useRef(mutes);
+  useEffect(() => {
+    mutesRef.current = mutes;
+  });
+
+  const alertableChangeSet = useMemo(
+    () => (changeSet ? removeMutedChanges(removeResolvedChanges(changeSet), mutesRef.current) : null),
+    [changeSet]
+  );
+
+  const mutedIds = useMemo(() => new Set(indexMutes(mutes).keys()), [mutes]);
+
+  /**
+   * Mutes a disruption, replacing any earlier mute for it
+   * 
+   * @param disruption - Disruption to mute
+   * @param mode - Snooze or until the severity changes
+   * @param durationMs - Snooze length
+   */
+  const mute = (disruption: Disruption, mode: MuteMode, durationMs?: number) => {
+    const entry = createMute(disruption, mode, durationMs);
+    setMutes(prev => [...prev.filter(item => item.disruptionId !== disruption.id), entry]);
+  };
+
+  /**
+   * Restores a muted disruption
+   */
+  const unmute = (disruptionId: string) => {
+    setMutes(prev => prev.filter(item => item.disruptionId !== disruptionId));
+  };
+
+  /**
+   * Restores every muted disruption
+   */
+  const unmuteAll = () => {
+    setMutes([]);
+  };
+
+  return {
+    mutes,
+    mutedIds,
+    hideMuted,
+    setHideMuted,
+    alertableChangeSet,
+    mute,
+    unmute,
+    unmuteAll
+  };
+};
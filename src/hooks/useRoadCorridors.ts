@@ -0,0 +1,109 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { CorridorSummary, Disruption, RoadCorridor } from '../types/disruption';
+import { getActiveDisruptionSource, type DisruptionSource } from '../services/disruptionSource';
+import { isAbortError } from '../services/httpClient';
+import { isResolved } from '../utils/resolvedDisruptions';
+
+/**
+ * Pure function to join corridors with the disruptions affecting them
+ * 
+ * - Counts unresolved disruptions (and Serious ones) per corridor via corridorIds
+ * - Adds corridors that disruptions mention but the /Road feed doesn't list,
+ *   with an "Unknown" status, so no disruption is unreachable from the panel
+ * - Sorts busiest corridors first (Serious count, then total), then by name
+ * 
+ * @param corridors - Corridors from the source's /Road data
+ * @param disruptions - Complete (unfiltered) list of disruptions
+ * @returns CorridorSummary[] - One entry per corridor
+ */
+const summarizeCorridors = (corridors: RoadCorridor[], disruptions: Disruption[]): CorridorSummary[] => {
+  const byId = new Map<string, CorridorSummary>(
+    corridors.map(corridor => [corridor.id, { corridor, disruptionCount: 0, seriousCount: 0 }])
+  );
+
+  disruptions
+    .filter(disruption => !isResolved(disruption))
+    .forEach(disruption => {
+      disruption.corridorIds.forEach(rawId => {
+        const id = rawId.toLowerCase();
+        if (!byId.has(id)) {
+          byId.set(id, {
+            corridor: {
+              id,
+              displayName: rawId.toUpperCase(),
+              statusSeverity: 'Unknown',
+              statusSeverityDescription: ''
+            },
+            disruptionCount: 0,
+            seriousCount: 0
+          });
+        }
+        const summary = byId.get(id)!;
+        summary.disruptionCount += 1;
+        if (disruption.severity === 'Serious') summary.seriousCount += 1;
+      });
+    });
+
+  return [...byId.values()].sort((a, b) =>
+    b.seriousCount - a.seriousCount ||
+    b.disruptionCount - a.disruptionCount ||
+    a.corridor.displayName.localeCompare(b.corridor.displayName, 'en', { numeric: true })
+  );
+};
+
+/**
+ * Custom React hook for road corridor statuses
+ * 
+ * Asks the disruption source for the corridor list every time the
+ * disruption data refreshes (a conditional request, so an unchanged list is
+ * served from the source's cache), and joins it with the current disruptions.
+ * Corridor failures are logged but never block the disruption view.
+ * 
+ * @param disruptions - Complete (unfiltered) list of disruptions
+ * @param refreshKey - Changes on every disruption refresh (e.g. lastUpdated)
+ * @param source - Feed to read corridors from (defaults to the configured source)
+ * @returns Object with corridor summaries and the loading flag
+ */
+export const useRoadCorridors = (
+  disruptions: Disruption[],
+  refreshKey: Date | null,
+  source: DisruptionSource = getActiveDisruptionSource()
+) => {
+  const [corridors, setCorridors] = useState<RoadCorridor[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Re-fetch corridor statuses alongside each disruption refresh
+  useEffect(() => {
+    if (!refreshKey) return;
+    // Cancels the request when a newer refresh starts or the component unmounts
+    const controller = new AbortController();
+
+    const loadCorridors = async () => {
+      setIsLoading(true);
+      try {
+        const data = await source.getRoadCorridors(controller.signal);
+        if (!controller.signal.aborted) setCorridors(data);
+      } catch (error) {
+        // Keep the previous corridor list - statuses are secondary to disruptions
+        if (!isAbortError(error)) console.error('Failed to fetch road corridors:', error);
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    loadCorridors();
+    return () => {
+      controller.abort();
+    };
+  }, [refreshKey, source]);
+
+  const corridorSummaries = useMemo(
+    () => summarizeCorridors(corridors, disruptions),
+    [corridors, disruptions]
+  );
+
+  return {
+    corridorSummaries,
+    isLoading
+  };
+};
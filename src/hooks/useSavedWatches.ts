@@ -0,0 +1,109 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { Disruption, DisruptionChangeSet, SavedWatch } from '../types/disruption';
+import { loadSavedWatches, saveSavedWatches } from '../services/savedWatchStore';
+import {
+  describeSavedWatchEvent,
+  findSavedWatchEvents,
+  normalizeWatchTerm,
+  summarizeSavedWatches,
+  type SavedWatchEvent
+} from '../utils/savedWatches';
+import { TEXT_CONSTANTS } from '../constants/text';
+import { DISRUPTION_UPDATES_GROUP } from './useAlerts';
+import type { AlertOptions } from '../components/AlertSystem';
+
+/**
+ * Custom React hook for watched roads and saved searches
+ * 
+ * - Loads and saves watches in localStorage
+ * - Keeps live match counts for the sidebar
+ * - Raises a notification when a refresh adds, re-grades or clears a
+ *   matching disruption (one notification per watch per refresh)
+ * 
+ * @param changeSet - Latest change set from useDisruptions (null until the first load)
+ * @param disruptions - Complete (unfiltered) list of disruptions
+ * @param onShowAlert - Callback for showing alerts to users
+ * @returns Object with the watches, their summaries and watch management functions
+ */
+export const useSavedWatches = (
+  changeSet: DisruptionChangeSet | null,
+  disruptions: Disruption[],
+  onShowAlert: (type: 'error' | 'warning' | 'info' | 'success', title: string, message: string, options?: AlertOptions) => void
+) => {
+  const [watches, setWatches] = useState<SavedWatch[]>(loadSavedWatches);
+
+  // Latest values for the change set effect, which should only run per refresh
+  const watchesRef = useRef(watches);
+  const onShowAlertRef = useRef(onShowAlert);
+  useEffect(() => {
+    watchesRef.current = watches;
+    onShowAlertRef.current = onShowAlert;
+  });
+
+  // Persist every edit
+  useEffect(() => {
+    saveSavedWatches(watches);
+  }, [watches]);
+
+  // Notify about changes to matching disruptions
+  useEffect(() => {
+    if (!changeSet) return;
+    const events = findSavedWatchEvents(changeSet, watchesRef.current);
+
+    const byWatch = new Map<string, SavedWatchEvent[]>();
+    events.forEach(event => {
+      byWatch.set(event.watch.id, [...(byWatch.get(event.watch.id) ?? []), event]);
+    });
+
+    byWatch.forEach(watchEvents => {
+      const isSerious = watchEvents.some(
+        event => event.kind !== 'cleared' && event.disruption.severity === 'Serious'
+      );
+      onShowAlertRef.current(
+        isSerious ? 'warning' : 'info',
+        `${TEXT_CONSTANTS[98]}: ${watchEvents[0].watch.term}`,
+        watchEvents.map(describeSavedWatchEvent).join('; '),
+        DISRUPTION_UPDATES_GROUP
+      );
+    });
+  }, [changeSet]);
+
+  const watchSummaries = useMemo(
+    () => summarizeSavedWatches(watches, disruptions),
+    [watches, disruptions]
+  );
+
+  /**
+   * Checks whether a term is already watched (case- and whitespace-insensitive)
+   */
+  const isWatched = (term: string) =>
+    watches.some(watch => normalizeWatchTerm(watch.term) === normalizeWatchTerm(term));
+
+  /**
+   * Saves a road or search term as a watch
+   * Blank and already-watched terms are ignored
+   */
+  const addWatch = (term: string) => {
+    const trimmed = term.trim();
+    if (!trimmed || isWatched(trimmed)) return;
+    setWatches(prev => [
+      ...prev,
+      { id: crypto.randomUUID(), term: trimmed, createdAt: new Date().toISOString() }
+    ]);
+  };
+
+  /**
+   * Deletes a watch
+   */
+  const removeWatch = (id: string) => {
+    setWatches(prev => prev.filter(watch => watch.id !== id));
+  };
+
+  return {
+    watches,
+    watchSummaries,
+    isWatched,
+    addWatch,
+    removeWatch
+  };
+};
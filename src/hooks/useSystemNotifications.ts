@@ -0,0 +1,192 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { AlertType } from '../components/AlertSystem';
+import type {
+  DisruptionMute,
+  IncidentRecord,
+  NotificationPageMessage,
+  NotificationWorkerMessage,
+  SavedWatch
+} from '../types/disruption';
+import { getActiveDisruptionSource, type DisruptionSource } from '../services/disruptionSource';
+import {
+  clearNotificationWorkerState,
+  loadNotificationWorkerConfig,
+  saveNotificationWorkerConfig
+} from '../services/notificationWorkerStore';
+import { useErrorHandler } from './useErrorHandler';
+import { STORAGE_KEYS, TIMING_CONSTANTS } from '../constants/ui';
+
+// Worker script: the TypeScript module under the dev server, the built bundle in production
+const WORKER_URL = import.meta.env.DEV ? '/src/workers/notificationWorker.ts' : '/notification-worker.js';
+
+/**
+ * Checks for both APIs desktop alerts need
+ */
+const isSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+/**
+ * Custom React hook for opt-in desktop (system) notifications
+ * 
+ * Turning alerts on asks for notification permission, then registers the
+ * notification service worker and hands it the feed URL, saved watches,
+ * muted disruptions and acknowledged incidents through IndexedDB. The worker checks the feed in the background and notifies
+ * about Serious and watched disruptions while the tab isn't focused. While
+ * the app is open it reads the snapshot this page saves on each refresh
+ * instead of fetching the feed again. While
+ * alerts are on, the page also wakes the worker on every interval, because
+ * browsers stop idle service workers.
+ * 
+ * Unsupported browsers get a compatibility alert instead of a permission prompt.
+ * 
+ * @param watches - Saved watches the worker should notify about
+ * @param mutes - Muted disruptions the worker should leave out
+ * @param acknowledged - Acknowledged incident records the worker should leave out until they change
+ * @param onShowAlert - Callback for showing alerts to users
+ * @param onSelectDisruption - Called with a disruption id when a notification is clicked
+ * @param source - Feed the worker should poll (defaults to the configured source)
+ * @returns Object with the alert state and functions to turn alerts on and off
+ */
+export const useSystemNotifications = (
+  watches: SavedWatch[],
+  mutes: DisruptionMute[],
+  acknowledged: IncidentRecord[],
+  onShowAlert: (type: AlertType, title: string, message: string) => void,
+  onSelectDisruption: (disruptionId: string) => void,
+  source: DisruptionSource = getActiveDisruptionSource()
+) => {
+  const { handleBrowserCompatibility } = useErrorHandler({ onShowAlert });
+
+  // Browser permission; 'unsupported' when the APIs are missing
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    () => (isSupported() ? Notification.permission : 'unsupported')
+  );
+
+  // User's choice, remembered across sessions
+  const [isEnabled, setIsEnabled] = useState(
+    () => localStorage.getItem(STORAGE_KEYS.SYSTEM_NOTIFICATIONS) === 'true'
+  );
+
+  // Sources without a plain feed URL (e.g. replay) can't be polled in the background
+  const endpoint = useMemo(() => source.getFeedEndpoint?.() ?? null, [source]);
+
+  // Permission can be revoked in browser settings at any time
+  const isActive = isEnabled && permission === 'granted' && !!endpoint;
+
+  const onSelectDisruptionRef = useRef(onSelectDisruption);
+  useEffect(() => {
+    onSelectDisruptionRef.current = onSelectDisruption;
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.SYSTEM_NOTIFICATIONS, String(isEnabled));
+  }, [isEnabled]);
+
+  // Keep the worker's settings in sync and wake it on every interval
+  useEffect(() => {
+    if (!isSupported()) return;
+    let cancelled = false;
+    let pingTimer: ReturnType<typeof setInterval> | null = null;
+
+    const sync = async () => {
+      if (!isActive || !endpoint) {
+        // Stop the worker and forget its last check, so turning alerts back on
+        // doesn't report everything that changed in between
+        const config = await loadNotificationWorkerConfig();
+        if (config?.enabled) await saveNotificationWorkerConfig({ ...config, enabled: false });
+        await clearNotificationWorkerState();
+        return;
+      }
+
+      const intervalMs = TIMING_CONSTANTS.NOTIFICATION_POLL_INTERVAL_MS;
+      await saveNotificationWorkerConfig({
+        enabled: true,
+        feedUrl: new URL(endpoint.url, window.location.href).href,
+        feedFormat: endpoint.format,
+        sourceKind: source.kind,
+        intervalMs,
+        watches,
+        mutes,
+        acknowledged
+      });
+      const registration = await navigator.serviceWorker.register(WORKER_URL, { type: 'module' });
+      if (cancelled) return;
+
+      // A freshly installed worker checks on activation; later pings keep it going
+      const ping = () => {
+        const message: NotificationWorkerMessage = { type: 'poll' };
+        registration.active?.postMessage(message);
+      };
+      ping();
+      pingTimer = setInterval(ping, intervalMs);
+    };
+
+    sync().catch(error => console.error('Failed to set up desktop alerts:', error));
+    return () => {
+      cancelled = true;
+      if (pingTimer) clearInterval(pingTimer);
+    };
+  }, [isActive, endpoint, source, watches, mutes, acknowledged]);
+
+  // Notification clicks select the disruption in the page
+  useEffect(() => {
+    if (!isSupported()) return;
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data as NotificationPageMessage | undefined;
+      if (message?.type === 'select-disruption') onSelectDisruptionRef.current(message.disruptionId);
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+
+  /**
+   * Turns desktop alerts on, asking for permission first
+   */
+  const enable = async () => {
+    if (!isSupported()) {
+      handleBrowserCompatibility('Desktop notifications', 'Alerts will keep appearing inside the page only.');
+      return;
+    }
+    if (!endpoint) {
+      onShowAlert(
+        'warning',
+        'Desktop Alerts Unavailable',
+        `Background checks are not available for ${source.label}.`
+      );
+      return;
+    }
+
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    if (result === 'granted') {
+      setIsEnabled(true);
+      onShowAlert(
+        'success',
+        'Desktop Alerts On',
+        'You will be notified about Serious and watched disruptions while this tab is in the background.'
+      );
+    } else {
+      onShowAlert(
+        'warning',
+        'Notifications Blocked',
+        result === 'denied'
+          ? 'Notifications are blocked for this site. Allow them in your browser settings to use desktop alerts.'
+          : 'Desktop alerts stay off until notifications are allowed.'
+      );
+    }
+  };
+
+  /**
+   * Turns desktop alerts off (the permission itself stays granted)
+   */
+  const disable = () => {
+    setIsEnabled(false);
+  };
+
+  return {
+    isActive,
+    permission,
+    enable,
+    disable
+  };
+};
@@ -48,7 +48,7 @@ export const useUIState = (updateFilters: (filters: Partial<FilterState>) => voi
    * This function provides a "Clear All" functionality that:
    * - Clears any selected disruption (hides detail view)
    * - Resets severity filters to show all types (Serious, Moderate, Minimal)
-   * - Clears any search query text
+   * - Clears any search query text and corridor selection
    * - Returns the app to its initial state
    * 
    * Triggered by:
@@ -64,8 +64,18 @@ export const useUIState = (updateFilters: (filters: Partial<FilterState>) => voi
     updateFilters({
       // Show all severity levels by default (using text constants for consistency)
       severities: new Set([TEXT_CONSTANTS[7], TEXT_CONSTANTS[8], TEXT_CONSTANTS[9]]),
+      // Active and scheduled disruptions, resolved window back to its default
+      statuses: new Set(['Active', 'Scheduled']),
+      resolvedWithinHours: 6,
       // Clear any search text
-      searchQuery: ''
+      searchQuery: '',
+      // Show every road corridor
+      corridorId: null,
+      // Show every category and sub-category
+      categories: new Set(),
+      subCategories: new Set(),
+      // Any start/end time
+      timeWindow: { preset: 'any', from: '', to: '' }
     });
   };
 
@@ -0,0 +1,118 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type {
+  Disruption,
+  DisruptionChangeSet,
+  WatchZone,
+  WatchZoneShape
+} from '../types/disruption';
+import { loadWatchZones, saveWatchZones } from '../services/watchZoneStore';
+import { findWatchZoneEvents, summarizeWatchZones, type WatchZoneEvent } from '../utils/watchZones';
+import { TEXT_CONSTANTS } from '../constants/text';
+import { DISRUPTION_UPDATES_GROUP } from './useAlerts';
+import type { AlertOptions } from '../components/AlertSystem';
+
+/**
+ * Builds the alert text for one zone's events from a single refresh
+ * Several events collapse into one alert so a busy refresh doesn't flood the stack
+ */
+const describeZoneEvents = (events: WatchZoneEvent[]) => {
+  const [first] = events;
+  const hasEntered = events.some(event => event.kind === 'entered');
+  const title = `${hasEntered ? TEXT_CONSTANTS[90] : TEXT_CONSTANTS[91]} ${first.zone.name}`;
+  const message = events
+    .map(({ disruption, kind }) =>
+      kind === 'escalated'
+        ? `${disruption.location} is now ${disruption.severity}`
+        : `${disruption.location} (${disruption.severity})`
+    )
+    .join('; ');
+  const isSerious = events.some(event => event.disruption.severity === 'Serious');
+  return { title, message, isSerious };
+};
+
+/**
+ * Custom React hook for user-drawn watch zones
+ * 
+ * - Loads and saves zones in localStorage
+ * - Counts the disruptions inside each zone for the map badges
+ * - Raises an alert when a refresh brings a disruption into a zone or
+ *   escalates one already inside (one alert per zone per refresh)
+ * 
+ * @param changeSet - Latest change set from useDisruptions (null until the first load)
+ * @param disruptions - Complete (unfiltered) list of disruptions
+ * @param onShowAlert - Callback for showing alerts to users
+ * @returns Object with zones, their summaries and zone management functions
+ */
+export const useWatchZones = (
+  changeSet: DisruptionChangeSet | null,
+  disruptions: Disruption[],
+  onShowAlert: (type: 'error' | 'warning' | 'info' | 'success', title: string, message: string, options?: AlertOptions) => void
+) => {
+  const [zones, setZones] = useState<WatchZone[]>(loadWatchZones);
+
+  // Latest values for the change set effect, which should only run per refresh
+  const zonesRef = useRef(zones);
+  const onShowAlertRef = useRef(onShowAlert);
+  useEffect(() => {
+    zonesRef.current = zones;
+    onShowAlertRef.current = onShowAlert;
+  });
+
+  // Persist every edit
+  useEffect(() => {
+    saveWatchZones(zones);
+  }, [zones]);
+
+  // Alert on disruptions entering or escalating inside a zone
+  useEffect(() => {
+    if (!changeSet) return;
+    const events = findWatchZoneEvents(changeSet, zonesRef.current);
+
+    const byZone = new Map<string, WatchZoneEvent[]>();
+    events.forEach(event => {
+      byZone.set(event.zone.id, [...(byZone.get(event.zone.id) ?? []), event]);
+    });
+
+    byZone.forEach(zoneEvents => {
+      const { title, message, isSerious } = describeZoneEvents(zoneEvents);
+      onShowAlertRef.current(isSerious ? 'warning' : 'info', title, message, DISRUPTION_UPDATES_GROUP);
+    });
+  }, [changeSet]);
+
+  const zoneSummaries = useMemo(
+    () => summarizeWatchZones(zones, disruptions),
+    [zones, disruptions]
+  );
+
+  /**
+   * Adds a newly drawn zone
+   * 
+   * @param name - Name entered by the user (blank names get a numbered default)
+   * @param shape - Drawn circle or polygon
+   */
+  const addZone = (name: string, shape: WatchZoneShape) => {
+    setZones(prev => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        name: name.trim() || `${TEXT_CONSTANTS[93]} ${prev.length + 1}`,
+        shape,
+        createdAt: new Date().toISOString()
+      }
+    ]);
+  };
+
+  /**
+   * Deletes a zone
+   */
+  const removeZone = (id: string) => {
+    setZones(prev => prev.filter(zone => zone.id !== id));
+  };
+
+  return {
+    zones,
+    zoneSummaries,
+    addZone,
+    removeZone
+  };
+};
@@ -0,0 +1,169 @@
+import { useState, useEffect, useRef } from 'react';
+import type { AlertOptions, AlertType } from '../components/AlertSystem';
+import type {
+  Disruption,
+  DisruptionChangeSet,
+  WatchZone,
+  WebhookDelivery,
+  WebhookTarget
+} from '../types/disruption';
+import {
+  loadWebhookDeliveries,
+  loadWebhookTargets,
+  saveWebhookDeliveries,
+  saveWebhookTargets
+} from '../services/webhookStore';
+import { deliverWebhook } from '../services/alertActions';
+import { listChangeEvents, matchesRuleConditions, type ChangeEvent } from '../utils/alertRules';
+import { buildWebhookPayload } from '../utils/webhookPayloads';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+// Delivery log entries kept (newest first)
+const MAX_DELIVERY_LOG_ENTRIES = 50;
+
+// Failed deliveries from one refresh share a toast
+const FAILURE_ALERT_OPTIONS: AlertOptions = {
+  groupKey: 'webhook-failures',
+  groupTitle: count => `${count} ${TEXT_CONSTANTS[186]}`
+};
+
+/**
+ * Custom React hook for outbound webhook targets
+ * 
+ * Posts each refresh's changes to chat and incident tools (Slack blocks,
+ * Teams adaptive cards or generic JSON). Every target has its own filters,
+ * using the same conditions as alert rules, and gets at most one post per
+ * refresh with all its matching changes. Transient failures are retried;
+ * every delivery (and its attempts, status and error) lands in the delivery
+ * log. Targets and the log are saved in localStorage.
+ * 
+ * @param changeSet - Latest change set from useDisruptions
+ * @param zones - Saved watch zones, for area filters
+ * @param disruptions - Current disruptions, used for test messages
+ * @param onShowAlert - Callback for showing alerts to users
+ * @returns Object with the targets, the delivery log and management functions
+ */
+export const useWebhooks = (
+  changeSet: DisruptionChangeSet | null,
+  zones: WatchZone[],
+  disruptions: Disruption[],
+  onShowAlert: (type: AlertType, title: string, message: string, options?: AlertOptions) => void
+) => {
+  const [targets, setTargets] = useState<WebhookTarget[]>(loadWebhookTargets);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>(loadWebhookDeliveries);
+
+  // Latest values for the change set effect, which should only run per refresh
+  const targetsRef = useRef(targets);
+  const zonesRef = useRef(zones);
+  const onShowAlertRef = useRef(onShowAlert);
+  useEffect(() => {
+    targetsRef.current = targets;
+    zonesRef.current = zones;
+    onShowAlertRef.current = onShowAlert;
+  });
+
+  // Persist every edit
+  useEffect(() => {
+    saveWebhookTargets(targets);
+  }, [targets]);
+
+  useEffect(() => {
+    saveWebhookDeliveries(deliveries);
+  }, [deliveries]);
+
+  /**
+   * Posts changes to one target and records the outcome in the log
+   */
+  const send = async (target: WebhookTarget, events: ChangeEvent[], detectedAt: string, isTest: boolean) => {
+    const sentAt = new Date().toISOString();
+    const result = await deliverWebhook(target.url, buildWebhookPayload(target, events, detectedAt, isTest));
+    const delivery: WebhookDelivery = {
+      id: crypto.randomUUID(),
+      targetId: target.id,
+      targetName: target.name,
+      sentAt,
+      eventCount: events.length,
+      isTest,
+      ...result
+    };
+    setDeliveries(prev => [delivery, ...prev].slice(0, MAX_DELIVERY_LOG_ENTRIES));
+    return delivery;
+  };
+
+  // Post each refresh's matching changes to every enabled target
+  useEffect(() => {
+    if (!changeSet || changeSet.isInitial) return;
+    const events = listChangeEvents(changeSet);
+    const now = new Date(changeSet.detectedAt);
+
+    targetsRef.current
+      .filter(target => target.enabled)
+      .forEach(target => {
+        const matched = events.filter(event =>
+          matchesRuleConditions(event, target.filters, zonesRef.current, now));
+        if (matched.length === 0) return;
+
+        send(target, matched, changeSet.detectedAt, false).then(delivery => {
+          if (delivery.status === 'failed') {
+            onShowAlertRef.current(
+              'warning',
+              TEXT_CONSTANTS[185],
+              `${target.name}: ${delivery.error}`,
+              FAILURE_ALERT_OPTIONS
+            );
+          }
+        });
+      });
+  }, [changeSet]);
+
+  /**
+   * Sends a test message with the most severe current disruption
+   */
+  const sendTest = async (target: WebhookTarget) => {
+    const sample = disruptions[0];
+    if (!sample) {
+      onShowAlert('warning', TEXT_CONSTANTS[189], TEXT_CONSTANTS[190]);
+      return;
+    }
+    const delivery = await send(target, [{ trigger: 'added', disruption: sample }], new Date().toISOString(), true);
+    if (delivery.status === 'delivered') {
+      onShowAlert('success', TEXT_CONSTANTS[187], `${target.name} ${TEXT_CONSTANTS[191]} (HTTP ${delivery.httpStatus}).`);
+    } else {
+      onShowAlert('warning', TEXT_CONSTANTS[188], `${target.name}: ${delivery.error}`);
+    }
+  };
+
+  /**
+   * Adds a target or replaces the saved target with the same id
+   */
+  const saveTarget = (target: WebhookTarget) => {
+    setTargets(prev =>
+      prev.some(item => item.id === target.id)
+        ? prev.map(item => (item.id === target.id ? target : item))
+        : [...prev, target]
+    );
+  };
+
+  /**
+   * Deletes a target (its log entries stay)
+   */
+  const removeTarget = (id: string) => {
+    setTargets(prev => prev.filter(target => target.id !== id));
+  };
+
+  /**
+   * Empties the delivery log
+   */
+  const clearDeliveries = () => {
+    setDeliveries([]);
+  };
+
+  return {
+    targets,
+    deliveries,
+    saveTarget,
+    removeTarget,
+    sendTest,
+    clearDeliveries
+  };
+};
@@ -0,0 +1,95 @@
+/**
+ * Alert Actions - Side effects alert rules and webhook targets trigger outside
+ * the page (system notifications and webhooks); toasts and sounds are handled in the page
+ */
+import type { SystemNotification } from "../types/disruption";
+import { fetchWithRetry, HttpError } from "./httpClient";
+
+// Extra attempts for a webhook target after a transient failure
+const WEBHOOK_RETRIES = 2;
+
+/**
+ * Checks whether system notifications can be shown right now
+ */
+export const canShowSystemNotifications = (): boolean =>
+  typeof window !== "undefined" && "Notification" in window && Notification.permission === "granted";
+
+/**
+ * Shows a system notification
+ *
+ * Goes through the notification service worker when it is registered, so a
+ * click selects the disruption like the worker's own notifications do; falls
+ * back to a plain page notification that focuses the tab.
+ *
+ * @param notification - Notification to show
+ */
+export const showSystemNotification = async (notification: SystemNotification): Promise<void> => {
+  if (!canShowSystemNotifications()) return;
+  const { tag, title, body, disruptionId } = notification;
+
+  const registration = "serviceWorker" in navigator
+    ? await navigator.serviceWorker.getRegistration()
+    : undefined;
+  if (registration) {
+    await registration.showNotification(title, { tag, body, data: { disruptionId } });
+    return;
+  }
+
+  const pageNotification = new Notification(title, { tag, body });
+  pageNotification.onclick = () => window.focus();
+};
+
+/**
+ * POSTs a JSON body to a webhook URL
+ * Retried like feed requests (timeouts, 5xx, 429); 4xx responses fail at once
+ *
+ * @param url - Webhook URL
+ * @param body - JSON-serialisable payload
+ * @throws HttpError | TimeoutError | TypeError - When delivery fails after retries
+ */
+export const postWebhook = async (url: string, body: unknown): Promise<void> => {
+  await fetchWithRetry(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }, { retries: 1 });
+};
+
+// Outcome of posting to a webhook target, retries included
+export interface WebhookDeliveryResult {
+  status: "delivered" | "failed";
+  attempts: number;
+  httpStatus: number | null;                     // Last response status (null for network errors)
+  error: string | null;                          // Last failure message
+}
+
+/**
+ * Posts a payload to a webhook target and reports how it went
+ * Never throws - failures are returned so they can be logged per delivery
+ *
+ * @param url - Webhook URL
+ * @param body - JSON-serialisable payload
+ * @param retries - Extra attempts after a transient failure (timeouts, 5xx, 429)
+ */
+export const deliverWebhook = async (
+  url: string,
+  body: unknown,
+  retries = WEBHOOK_RETRIES
+): Promise<WebhookDeliveryResult> => {
+  let attempts = 1;
+  try {
+    const response = await fetchWithRetry(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }, { retries, onRetry: () => { attempts += 1; } });
+    return { status: "delivered", attempts, httpStatus: response.status, error: null };
+  } catch (error) {
+    return {
+      status: "failed",
+      attempts,
+      httpStatus: error instanceof HttpError ? error.status : null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
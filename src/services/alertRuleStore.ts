@@ -0,0 +1,114 @@
+/**
+ * Alert Rule Store - Keeps user-defined alert rules in localStorage
+ * The first load (nothing saved yet) starts from the built-in rules
+ */
+import type { AlertRule, AlertRuleConditions } from "../types/disruption";
+import { STORAGE_KEYS } from "../constants/ui";
+
+const TRIGGERS = ["added", "escalated", "reduced", "updated", "cleared"];
+const SEVERITIES = ["Serious", "Moderate", "Minimal"];
+const TOAST_TYPES = ["info", "warning", "error"];
+const CHIME_STYLES = ["none", "bell", "beep", "rising"];
+
+/**
+ * Creates a rule that matches new disruptions of any kind and shows an info toast
+ *
+ * @param name - Rule name shown in alerts
+ */
+export const createAlertRule = (name: string): AlertRule => ({
+  id: crypto.randomUUID(),
+  name,
+  enabled: true,
+  conditions: {
+    triggers: ["added"],
+    severities: [],
+    categories: [],
+    keywords: [],
+    zoneId: null,
+    timeOfDay: { enabled: false, start: "07:00", end: "19:00" },
+  },
+  actions: { toast: "info", systemNotification: false, sound: "none", webhookUrl: null },
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Rules a fresh install starts with - the alert the app always raised for new Serious disruptions
+ */
+const createDefaultAlertRules = (): AlertRule[] => {
+  const rule = createAlertRule("New Serious disruptions");
+  return [{
+    ...rule,
+    conditions: { ...rule.conditions, severities: ["Serious"] },
+    actions: { ...rule.actions, toast: "warning" },
+  }];
+};
+
+const isStringArray = (value: unknown, allowed?: string[]): value is string[] =>
+  Array.isArray(value) &&
+  value.every(item => typeof item === "string" && (!allowed || allowed.includes(item)));
+
+/**
+ * Type guard for stored rule conditions (also used for webhook target filters)
+ */
+export const isAlertRuleConditions = (value: unknown): value is AlertRuleConditions => {
+  if (!value || typeof value !== "object") return false;
+  const conditions = value as Record<string, unknown>;
+  const timeOfDay = conditions.timeOfDay as Record<string, unknown> | undefined;
+  return (
+    isStringArray(conditions.triggers, TRIGGERS) &&
+    conditions.triggers.length > 0 &&
+    isStringArray(conditions.severities, SEVERITIES) &&
+    isStringArray(conditions.categories) &&
+    isStringArray(conditions.keywords) &&
+    (conditions.zoneId === null || typeof conditions.zoneId === "string") &&
+    !!timeOfDay &&
+    typeof timeOfDay.enabled === "boolean" &&
+    typeof timeOfDay.start === "string" &&
+    typeof timeOfDay.end === "string"
+  );
+};
+
+/**
+ * Type guard for a stored rule - drops entries edited into a broken state
+ */
+const isAlertRule = (value: unknown): value is AlertRule => {
+  if (!value || typeof value !== "object") return false;
+  const rule = value as Record<string, unknown>;
+  const actions = rule.actions as Record<string, unknown> | undefined;
+  return (
+    typeof rule.id === "string" &&
+    typeof rule.name === "string" &&
+    typeof rule.enabled === "boolean" &&
+    typeof rule.createdAt === "string" &&
+    isAlertRuleConditions(rule.conditions) &&
+    !!actions &&
+    (actions.toast === null || TOAST_TYPES.includes(actions.toast as string)) &&
+    typeof actions.systemNotification === "boolean" &&
+    CHIME_STYLES.includes(actions.sound as string) &&
+    (actions.webhookUrl === null || typeof actions.webhookUrl === "string")
+  );
+};
+
+/**
+ * Reads the saved rules
+ *
+ * @returns AlertRule[] - Valid rules in the order they were created; the built-in
+ *   rules when nothing has been saved yet
+ */
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEYS.ALERT_RULES);
+    if (raw === null) return createDefaultAlertRules();
+    const stored: unknown = JSON.parse(raw);
+    return Array.isArray(stored) ? stored.filter(isAlertRule) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Saves the complete list of rules
+ */
+export const saveAlertRules = (rules: AlertRule[]): void => {
+  localStorage.setItem(STORAGE_KEYS.ALERT_RULES, JSON.stringify(rules));
+};
@@ -0,0 +1,66 @@
+/**
+ * Announcement Settings Store - Keeps the spoken announcement settings in localStorage
+ */
+import type { AnnouncementSettings, ChimeStyle } from "../types/disruption";
+import { SEVERITY_RANK } from "../utils/disruptionUtils";
+import { STORAGE_KEYS } from "../constants/ui";
+
+const CHIME_STYLES: ChimeStyle[] = ["none", "bell", "beep", "rising"];
+
+// Off until turned on; Serious only, quiet overnight
+export const DEFAULT_ANNOUNCEMENT_SETTINGS: AnnouncementSettings = {
+  enabled: false,
+  voiceURI: null,
+  minSeverity: "Serious",
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+  chimes: { new: "bell", escalated: "rising" },
+};
+
+const isChimeStyle = (value: unknown): value is ChimeStyle =>
+  CHIME_STYLES.includes(value as ChimeStyle);
+
+/**
+ * Reads the saved settings
+ * Missing or broken fields fall back to their defaults one by one, so an older
+ * saved version keeps the choices it does have
+ *
+ * @returns AnnouncementSettings - Complete settings
+ */
+export const loadAnnouncementSettings = (): AnnouncementSettings => {
+  const defaults = DEFAULT_ANNOUNCEMENT_SETTINGS;
+  let stored: Record<string, unknown>;
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEYS.ANNOUNCEMENTS) ?? "null");
+    if (!parsed || typeof parsed !== "object") return defaults;
+    stored = parsed as Record<string, unknown>;
+  } catch {
+    return defaults;
+  }
+
+  const quietHours = (stored.quietHours ?? {}) as Record<string, unknown>;
+  const chimes = (stored.chimes ?? {}) as Record<string, unknown>;
+
+  return {
+    enabled: typeof stored.enabled === "boolean" ? stored.enabled : defaults.enabled,
+    voiceURI: typeof stored.voiceURI === "string" ? stored.voiceURI : null,
+    minSeverity: typeof stored.minSeverity === "string" && stored.minSeverity in SEVERITY_RANK
+      ? stored.minSeverity as AnnouncementSettings["minSeverity"]
+      : defaults.minSeverity,
+    quietHours: {
+      enabled: typeof quietHours.enabled === "boolean" ? quietHours.enabled : defaults.quietHours.enabled,
+      start: typeof quietHours.start === "string" ? quietHours.start : defaults.quietHours.start,
+      end: typeof quietHours.end === "string" ? quietHours.end : defaults.quietHours.end,
+    },
+    chimes: {
+      new: isChimeStyle(chimes.new) ? chimes.new : defaults.chimes.new,
+      escalated: isChimeStyle(chimes.escalated) ? chimes.escalated : defaults.chimes.escalated,
+    },
+  };
+};
+
+/**
+ * Saves the complete settings
+ */
+export const saveAnnouncementSettings = (settings: AnnouncementSettings): void => {
+  localStorage.setItem(STORAGE_KEYS.ANNOUNCEMENTS, JSON.stringify(settings));
+};
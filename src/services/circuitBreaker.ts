@@ -0,0 +1,143 @@
+/**
+ * Circuit Breaker - Stops calling a failing upstream until it has had time to recover
+ * closed -> open after repeated failures, open -> half-open after a cooldown,
+ * half-open -> closed on the first success (or back to open on failure);
+ * while half-open only one trial request is in flight at a time
+ */
+
+// Where the breaker is in its cycle
+export type CircuitState = "closed" | "open" | "half-open";
+
+// Immutable view of the breaker for the UI
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;                   // Failed requests since the last success
+  retryAt: string | null;                        // ISO time the next trial request is allowed (open only)
+}
+
+// Tuning knobs for a breaker instance
+export interface CircuitBreakerOptions {
+  failureThreshold: number;                      // Consecutive failures that open the circuit
+  cooldownMs: number;                            // Minimum time to stay open before a trial request
+}
+
+type CircuitListener = (snapshot: CircuitBreakerSnapshot) => void;
+
+/**
+ * Thrown instead of making a request while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly retryAt: Date;
+
+  constructor(retryAt: Date) {
+    super(`Live data paused after repeated failures - retrying at ${retryAt.toLocaleTimeString()}`);
+    this.name = "CircuitOpenError";
+    this.retryAt = retryAt;
+  }
+}
+
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+  private readonly listeners = new Set<CircuitListener>();
+  private snapshot: CircuitBreakerSnapshot = { state: "closed", consecutiveFailures: 0, retryAt: null };
+  private trialInFlight = false;                 // Half-open trial request still waiting for its outcome
+
+  /**
+   * @param options - Failure threshold and cooldown for this upstream
+   */
+  constructor(options: CircuitBreakerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Returns the current state (a new object only when something changed,
+   * so it can back useSyncExternalStore)
+   */
+  getSnapshot = (): CircuitBreakerSnapshot => this.snapshot;
+
+  /**
+   * Registers a listener for state changes
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe = (listener: CircuitListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Gate to call before every request
+   *
+   * Moves an open circuit to half-open once its cooldown has passed,
+   * letting a single trial request through. Other callers are turned away
+   * until that trial records a success or failure (or is released).
+   *
+   * @throws CircuitOpenError - While the circuit is open or a trial is in flight
+   */
+  assertCanRequest(): void {
+    const { state, retryAt } = this.snapshot;
+    if (state === "half-open") {
+      // A failing trial reopens the circuit for a full cooldown from about now
+      if (this.trialInFlight) throw new CircuitOpenError(new Date(Date.now() + this.options.cooldownMs));
+      this.trialInFlight = true;
+      return;
+    }
+    if (state !== "open" || !retryAt) return;
+
+    const retryTime = new Date(retryAt);
+    if (Date.now() < retryTime.getTime()) {
+      throw new CircuitOpenError(retryTime);
+    }
+    this.trialInFlight = true;
+    this.update({ state: "half-open", retryAt: null });
+  }
+
+  /**
+   * Ends a trial request without an outcome (cancelled, or told to come back
+   * later), so the next caller can make the trial instead
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Records a request that reached the upstream and got a usable answer
+   */
+  recordSuccess(): void {
+    this.trialInFlight = false;
+    if (this.snapshot.state === "closed" && this.snapshot.consecutiveFailures === 0) return;
+    this.update({ state: "closed", consecutiveFailures: 0, retryAt: null });
+  }
+
+  /**
+   * Records a failed request (after its own retries were exhausted)
+   *
+   * A server asking us to come back later (a long Retry-After) is not a
+   * failure - callers wait until then instead of reporting it here.
+   */
+  recordFailure(): void {
+    this.trialInFlight = false;
+    const consecutiveFailures = this.snapshot.consecutiveFailures + 1;
+    const shouldOpen =
+      this.snapshot.state === "half-open" ||
+      consecutiveFailures >= this.options.failureThreshold;
+
+    if (!shouldOpen) {
+      this.update({ consecutiveFailures });
+      return;
+    }
+
+    this.update({
+      state: "open",
+      consecutiveFailures,
+      retryAt: new Date(Date.now() + this.options.cooldownMs).toISOString(),
+    });
+  }
+
+  private update(changes: Partial<CircuitBreakerSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
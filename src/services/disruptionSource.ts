@@ -0,0 +1,117 @@
+/**
+ * Disruption Sources - Pluggable feeds of traffic disruption data
+ * Hooks talk to a DisruptionSource, never to a specific API, so the app can run
+ * against live TfL, a static fixture or a recorded session without code changes
+ */
+import type { DisruptionSourceKind, FeedUpdate, RoadCorridor } from "../types/disruption";
+import type { CircuitBreaker } from "./circuitBreaker";
+import { TflApiService } from "./tflApi";
+import { FixtureDisruptionSource } from "./fixtureSource";
+import { ReplayDisruptionSource } from "./replaySource";
+import { ProxyDisruptionSource } from "./proxySource";
+
+/**
+ * Contract every disruption feed implements
+ *
+ * Implementations fetch their raw data however they like but must return it
+ * through validateDisruptions, so every source yields the same typed result
+ * and data quality report. Sources that can tell the feed hasn't changed
+ * (e.g. HTTP 304) return { notModified: true } instead of a payload.
+ * Both methods accept an AbortSignal and must reject with an AbortError when
+ * it fires, so hooks can cancel superseded or unmounted requests.
+ */
+export interface DisruptionSource {
+  readonly kind: DisruptionSourceKind;           // Which implementation this is
+  readonly label: string;                        // Short name shown in the header
+  readonly circuitBreaker?: CircuitBreaker;      // Upstream breaker, for sources behind a real API
+  getTrafficDisruptions(signal?: AbortSignal): Promise<FeedUpdate>;
+  getRoadCorridors(signal?: AbortSignal): Promise<RoadCorridor[]>; // Major roads with their overall status
+  getFeedEndpoint?(): FeedEndpoint;              // Plain URL of the feed, for background polling
+}
+
+// Where a background poller (the notification service worker) can read the same feed
+export interface FeedEndpoint {
+  url: string;                                   // Absolute or relative to the page
+  format: "tfl" | "proxy";                       // Raw TfL records or a ProxySnapshot
+}
+
+// Available source implementations (the type lives with the shared types, so
+// DOM-free code such as the notification worker can use it)
+export type { DisruptionSourceKind };
+
+const SOURCE_KINDS: DisruptionSourceKind[] = ["tfl", "proxy", "fixture", "replay"];
+
+// Kinds that show real TfL data (no "demo data" badge)
+export const LIVE_SOURCE_KINDS: DisruptionSourceKind[] = ["tfl", "proxy"];
+
+// Defaults for the bundled demo data in /public/fixtures
+const DEFAULT_FIXTURE_URL = "/fixtures/disruptions.json";
+const DEFAULT_REPLAY_URL = "/fixtures/session.json";
+const DEFAULT_CORRIDOR_FIXTURE_URL = "/fixtures/corridors.json";
+
+// Same-origin path; the Vite dev server forwards it to the local proxy
+const DEFAULT_PROXY_URL = "/api";
+
+/**
+ * Reads the configured source kind
+ *
+ * Resolution order:
+ * 1. "?source=" URL parameter - switch a running deployment to demo data
+ * 2. VITE_DISRUPTION_SOURCE environment variable
+ * 3. Live TfL as the default
+ *
+ * @returns DisruptionSourceKind - A known kind (unknown values fall back to "tfl")
+ */
+const resolveSourceKind = (): DisruptionSourceKind => {
+  const fromUrl = typeof window !== "undefined"
+    ? new URLSearchParams(window.location.search).get("source")
+    : null;
+  const configured = fromUrl ?? import.meta.env.VITE_DISRUPTION_SOURCE;
+
+  if (configured && SOURCE_KINDS.includes(configured as DisruptionSourceKind)) {
+    return configured as DisruptionSourceKind;
+  }
+  if (configured) {
+    console.warn(`Unknown disruption source "${configured}", falling back to live TfL`);
+  }
+  return "tfl";
+};
+
+/**
+ * Creates a disruption source of the given kind
+ *
+ * @param kind - Source implementation to create
+ * @returns DisruptionSource - Ready-to-use source instance
+ */
+export const createDisruptionSource = (kind: DisruptionSourceKind): DisruptionSource => {
+  switch (kind) {
+    case "fixture":
+      return new FixtureDisruptionSource(
+        import.meta.env.VITE_FIXTURE_URL || DEFAULT_FIXTURE_URL,
+        import.meta.env.VITE_CORRIDOR_FIXTURE_URL || DEFAULT_CORRIDOR_FIXTURE_URL
+      );
+    case "replay":
+      return new ReplayDisruptionSource(
+        import.meta.env.VITE_REPLAY_URL || DEFAULT_REPLAY_URL,
+        import.meta.env.VITE_CORRIDOR_FIXTURE_URL || DEFAULT_CORRIDOR_FIXTURE_URL
+      );
+    case "proxy":
+      return new ProxyDisruptionSource(import.meta.env.VITE_PROXY_URL || DEFAULT_PROXY_URL);
+    case "tfl":
+      return new TflApiService(import.meta.env.VITE_API_BASE_URL);
+  }
+};
+
+// Lazily created, app-wide source instance
+let activeSource: DisruptionSource | null = null;
+
+/**
+ * Returns the source selected by configuration
+ * The instance is shared so per-source state (e.g. replay position) survives re-renders
+ */
+export const getActiveDisruptionSource = (): DisruptionSource => {
+  if (!activeSource) {
+    activeSource = createDisruptionSource(resolveSourceKind());
+  }
+  return activeSource;
+};
@@ -0,0 +1,346 @@
+/**
+ * Disruption Validation - Turns raw TfL records into typed Disruptions and corridors
+ * Every dropped record is counted and explained in a ValidationReport
+ */
+import type {
+  Disruption,
+  DisruptionShape,
+  DisruptionStatus,
+  DisruptionStreet,
+  LngLat,
+  RecurringSchedule,
+  RejectedRecord,
+  RejectionReason,
+  RoadCorridor,
+  ValidationResult,
+} from "../types/disruption";
+import { getShapeAnchor, parseGeoJsonGeometry, parseMultiLineString } from "../utils/geometry";
+import { SEVERITY_RANK } from "../utils/disruptionUtils";
+import { MAP_CONSTANTS } from "../constants/ui";
+
+// Severity values the app knows how to display and rank
+const KNOWN_SEVERITIES = Object.keys(SEVERITY_RANK);
+
+// TfL status text (lower-cased) to the states the app tells apart
+const STATUS_MAP = new Map<string, DisruptionStatus>([
+  ["active", "Active"],
+  ["active long term", "Active"],
+  ["recurring works", "Active"],
+  ["scheduled", "Scheduled"],
+  ["recently cleared", "Inactive"],
+  ["inactive", "Inactive"],
+]);
+
+/**
+ * Normalises a raw TfL status
+ *
+ * @returns DisruptionStatus, or undefined when missing or unknown
+ */
+const toStatus = (value: unknown): DisruptionStatus | undefined =>
+  STATUS_MAP.get(optionalString(value)?.trim().toLowerCase() ?? "");
+
+/**
+ * The payload as a whole isn't a disruption list (an error page, a changed API shape)
+ * Thrown instead of reporting an empty feed, so the data on screen and the
+ * last good snapshot are kept
+ */
+export class InvalidPayloadError extends Error {
+  constructor(received: string) {
+    super(`Unexpected disruption feed format: expected a list, got ${received}`);
+    this.name = "InvalidPayloadError";
+  }
+}
+
+/**
+ * Reads an optional, non-empty string field from a raw API record
+ *
+ * @param value - Raw field value of unknown type
+ * @returns The string, or undefined when missing, empty or not a string
+ */
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() !== "" ? value : undefined;
+
+/**
+ * Reads the marker point from a raw TfL "geography" field
+ *
+ * @param geography - Raw geography object (expected { coordinates: [lng, lat] })
+ * @returns [longitude, latitude] or null when missing/malformed
+ */
+const toPoint = (geography: unknown): LngLat | null => {
+  if (!geography || typeof geography !== "object") return null;
+  const coordinates = (geography as { coordinates?: unknown }).coordinates;
+  if (
+    Array.isArray(coordinates) &&
+    coordinates.length >= 2 &&
+    typeof coordinates[0] === "number" &&
+    typeof coordinates[1] === "number"
+  ) {
+    return [coordinates[0], coordinates[1]];
+  }
+  return null;
+};
+
+/**
+ * Extracts drawable road segments from a raw TfL record
+ *
+ * Prefers roadDisruptionLines (the detailed per-road lines, excluding diversion
+ * routes) and falls back to the coarser "geometry" field when there are none.
+ *
+ * @param data - Raw API record
+ * @returns DisruptionShape[] - Lines/polygons to draw (empty if none)
+ */
+const toShapes = (data: Record<string, unknown>): DisruptionShape[] => {
+  const lines = Array.isArray(data.roadDisruptionLines)
+    ? data.roadDisruptionLines.flatMap((line: unknown) => {
+        if (!line || typeof line !== "object") return [];
+        const raw = line as Record<string, unknown>;
+        return raw.isDiversion === true ? [] : parseMultiLineString(raw.multiLineString);
+      })
+    : [];
+
+  return lines.length > 0 ? lines : parseGeoJsonGeometry(data.geometry);
+};
+
+/**
+ * Extracts the affected streets from a raw TfL "streets" array
+ *
+ * Entries without a name are dropped; closure and direction text are optional.
+ *
+ * @param value - Raw "streets" field (expected to be an array of objects)
+ * @returns DisruptionStreet[] - Clean street list (empty if none are usable)
+ */
+const toStreets = (value: unknown): DisruptionStreet[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((street: unknown) => {
+    if (!street || typeof street !== "object") return [];
+    const raw = street as Record<string, unknown>;
+    const name = optionalString(raw.name);
+    if (!name) return [];
+
+    return [{
+      name,
+      closure: optionalString(raw.closure),
+      directions: optionalString(raw.directions),
+    }];
+  });
+};
+
+/**
+ * Extracts recurring time windows from a raw TfL "recurringSchedules" array
+ *
+ * @param value - Raw "recurringSchedules" field
+ * @returns RecurringSchedule[] - Windows with both a start and an end time
+ */
+const toRecurringSchedules = (value: unknown): RecurringSchedule[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((schedule: unknown) => {
+    if (!schedule || typeof schedule !== "object") return [];
+    const raw = schedule as Record<string, unknown>;
+    const startTime = optionalString(raw.startTime);
+    const endTime = optionalString(raw.endTime);
+    return startTime && endTime ? [{ startTime, endTime }] : [];
+  });
+};
+
+/**
+ * Checks whether a [longitude, latitude] pair lies within the London area
+ */
+const isWithinLondon = ([longitude, latitude]: LngLat): boolean => {
+  const bounds = MAP_CONSTANTS.LONDON_BOUNDS;
+  return (
+    latitude >= bounds.MIN_LAT &&
+    latitude <= bounds.MAX_LAT &&
+    longitude >= bounds.MIN_LNG &&
+    longitude <= bounds.MAX_LNG
+  );
+};
+
+/**
+ * Runs every check against a raw record and collects all failures
+ *
+ * Unlike a simple boolean guard, this reports every reason a record fails,
+ * so the data quality report shows the full picture for each dropped item.
+ *
+ * @param data - Raw API record (already known to be an object)
+ * @param position - Resolved marker position, or null if none could be found
+ * @returns RejectionReason[] - Empty when the record is valid
+ */
+const findRejectionReasons = (
+  data: Record<string, unknown>,
+  position: LngLat | null
+): RejectionReason[] => {
+  const reasons: RejectionReason[] = [];
+
+  // Basic string fields - must exist and be non-empty
+  if (!optionalString(data.id)) reasons.push("missing-id");
+  if (!optionalString(data.location)) reasons.push("missing-location");
+  if (!optionalString(data.comments)) reasons.push("missing-comments");
+  if (!optionalString(data.currentUpdate)) reasons.push("missing-current-update");
+  if (!optionalString(data.status)) reasons.push("missing-status");
+  else if (!toStatus(data.status)) reasons.push("unknown-status");
+
+  // Severity must be one the UI can colour and rank
+  const severity = optionalString(data.severity);
+  if (!severity) reasons.push("missing-severity");
+  else if (!KNOWN_SEVERITIES.includes(severity)) reasons.push("unknown-severity");
+
+  // Position - a point, or line/polygon geometry to derive one from
+  if (!position) reasons.push("missing-coordinates");
+  else if (!isWithinLondon(position)) reasons.push("out-of-bounds");
+
+  return reasons;
+};
+
+/**
+ * Transforms a validated TfL record into our standardized Disruption format
+ *
+ * Key transformations:
+ * - Extracts the fields our app needs, including scheduling and classification data
+ * - Parses line/polygon geometry into drawable shapes
+ * - Normalizes optional TfL fields (missing values become undefined or empty arrays)
+ *
+ * @param data - Raw API record that passed findRejectionReasons
+ * @param position - Resolved marker position
+ * @param shapes - Parsed road segments
+ * @returns Disruption - Clean, typed object matching our application's data structure
+ */
+const toDisruption = (
+  data: Record<string, unknown>,
+  position: LngLat,
+  shapes: DisruptionShape[]
+): Disruption => {
+  const streets = toStreets(data.streets);
+
+  return {
+    id: data.id as string, // Unique identifier for tracking
+    location: data.location as string, // Human-readable location name
+    severity: data.severity as Disruption["severity"], // Priority level (Serious/Moderate/Minimal)
+    comments: data.comments as string, // Detailed description of the disruption
+    currentUpdate: data.currentUpdate as string, // Latest status information
+    status: toStatus(data.status) as DisruptionStatus, // Normalised state (Active/Scheduled/Inactive)
+    // Format: [longitude, latitude] as expected by mapping libraries
+    // Line-only records get a point on their first segment as the fallback pin
+    geography: { coordinates: position },
+    shapes, // Affected road segments drawn as polylines/polygons
+    // Classification - tells planned works apart from collisions and hazards
+    category: optionalString(data.category),
+    subCategory: optionalString(data.subCategory),
+    // Scheduling - when the disruption starts, ends and was last touched
+    startDateTime: optionalString(data.startDateTime),
+    endDateTime: optionalString(data.endDateTime),
+    lastModifiedTime: optionalString(data.lastModifiedTime),
+    currentUpdateDateTime: optionalString(data.currentUpdateDateTime),
+    // Road network context
+    corridorIds: Array.isArray(data.corridorIds)
+      ? data.corridorIds.filter((id: unknown): id is string => typeof id === "string")
+      : [],
+    streets,
+    // TfL sets hasClosures on most records; fall back to the street closures when it doesn't
+    hasClosures: typeof data.hasClosures === "boolean"
+      ? data.hasClosures
+      : streets.some(street => !!street.closure && street.closure !== "Open"),
+    isProvisional: typeof data.isProvisional === "boolean" ? data.isProvisional : undefined,
+    recurringSchedules: toRecurringSchedules(data.recurringSchedules),
+  };
+};
+
+/**
+ * Validates a raw TfL disruption payload and builds a rejection report
+ *
+ * This is the single entry point for turning feed data into Disruptions:
+ * 1. Checks every item and records all the reasons it fails
+ * 2. Transforms valid items into our standardized format
+ * 3. Sorts the result by severity (Serious first)
+ * 4. Summarizes what was dropped, per reason and per item
+ *
+ * @param payload - Parsed JSON body of /Road/all/Disruption (expected to be an array)
+ * @returns ValidationResult - Typed disruptions plus the ValidationReport
+ * @throws InvalidPayloadError - The payload is not an array
+ */
+export const validateDisruptions = (payload: unknown): ValidationResult => {
+  if (!Array.isArray(payload)) {
+    throw new InvalidPayloadError(payload === null ? "null" : typeof payload);
+  }
+  const items: unknown[] = payload;
+  const disruptions: Disruption[] = [];
+  const rejectedRecords: RejectedRecord[] = [];
+  const reasonCounts: Partial<Record<RejectionReason, number>> = {};
+
+  items.forEach(item => {
+    // Prevents errors when the API returns null, undefined, or primitive values
+    if (!item || typeof item !== "object") {
+      rejectedRecords.push({ id: null, location: null, reasons: ["not-an-object"] });
+      return;
+    }
+
+    const data = item as Record<string, unknown>;
+    const shapes = toShapes(data);
+    const position = toPoint(data.geography) ?? getShapeAnchor(shapes);
+    const reasons = findRejectionReasons(data, position);
+
+    if (reasons.length > 0 || !position) {
+      rejectedRecords.push({
+        id: optionalString(data.id) ?? null,
+        location: optionalString(data.location) ?? null,
+        reasons,
+      });
+      return;
+    }
+
+    disruptions.push(toDisruption(data, position, shapes));
+  });
+
+  rejectedRecords.forEach(record =>
+    record.reasons.forEach(reason => {
+      reasonCounts[reason] = (reasonCounts[reason] ?? 0) + 1;
+    })
+  );
+
+  // Sort in descending order (highest priority first)
+  // This ensures Serious disruptions appear at the top of the list
+  disruptions.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+
+  return {
+    disruptions,
+    report: {
+      total: items.length,
+      accepted: disruptions.length,
+      rejected: rejectedRecords.length,
+      reasonCounts,
+      rejectedRecords,
+      validatedAt: new Date().toISOString(),
+    },
+  };
+};
+
+/**
+ * Validates a raw TfL /Road payload into road corridors
+ *
+ * Corridors without an id are dropped; missing display names fall back to the
+ * upper-cased id and missing statuses to "Unknown", so every corridor that
+ * disruptions refer to can still be listed.
+ *
+ * @param payload - Parsed JSON body of /Road (expected to be an array)
+ * @returns RoadCorridor[] - Corridors sorted by display name
+ */
+export const validateRoadCorridors = (payload: unknown): RoadCorridor[] => {
+  const items: unknown[] = Array.isArray(payload) ? payload : [];
+
+  return items
+    .flatMap(item => {
+      if (!item || typeof item !== "object") return [];
+      const data = item as Record<string, unknown>;
+      const id = optionalString(data.id);
+      if (!id) return [];
+
+      return [{
+        id: id.toLowerCase(),
+        displayName: optionalString(data.displayName) ?? id.toUpperCase(),
+        statusSeverity: optionalString(data.statusSeverity) ?? "Unknown",
+        statusSeverityDescription: optionalString(data.statusSeverityDescription) ?? "",
+      }];
+    })
+    .sort((a, b) => a.displayName.localeCompare(b.displayName, "en", { numeric: true }));
+};
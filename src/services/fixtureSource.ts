@@ -0,0 +1,81 @@
+/**
+ * Fixture Source - Serves disruption data from a static JSON file
+ * Lets the app be demoed and developed without hitting the TfL API
+ */
+import type { FeedUpdate, RoadCorridor } from "../types/disruption";
+import type { DisruptionSource, FeedEndpoint } from "./disruptionSource";
+import { validateDisruptions, validateRoadCorridors } from "./disruptionValidation";
+import { fetchIfModified, type CacheValidators } from "./httpClient";
+
+/**
+ * Fetches and parses a JSON fixture file
+ *
+ * @param url - Fixture URL (usually under /fixtures)
+ * @param signal - Optional cancellation signal
+ * @throws Error - When the file cannot be loaded
+ */
+export const fetchFixture = async (url: string, signal?: AbortSignal): Promise<unknown> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Fixture request failed: ${response.status} (${url})`);
+  }
+  return response.json();
+};
+
+export class FixtureDisruptionSource implements DisruptionSource {
+  readonly kind = "fixture" as const;
+  readonly label = "Fixture data";
+  private readonly url: string;
+  private readonly corridorUrl: string;
+  private readonly validators: CacheValidators = {};
+
+  /**
+   * @param url - URL of a JSON file in TfL /Road/all/Disruption format
+   * @param corridorUrl - URL of a JSON file in TfL /Road format
+   */
+  constructor(url: string, corridorUrl: string) {
+    this.url = url;
+    this.corridorUrl = corridorUrl;
+  }
+
+  /**
+   * Loads the fixture file and runs it through the shared validation layer
+   *
+   * The fixture is raw TfL-shaped data, so validation, sorting and the
+   * data quality report behave exactly as they do for the live feed.
+   * Uses conditional requests, so editing the file is picked up on the next
+   * refresh while an untouched file reports { notModified: true }.
+   *
+   * @param signal - Optional cancellation signal
+   * @returns Promise<FeedUpdate> - Disruptions and report from the fixture
+   * @throws Error - When the fixture file cannot be loaded
+   */
+  async getTrafficDisruptions(signal?: AbortSignal): Promise<FeedUpdate> {
+    const result = await fetchIfModified(
+      this.url,
+      this.validators,
+      async response => validateDisruptions(await response.json()),
+      { signal, retries: 0 }
+    );
+    if (!result) return { notModified: true };
+
+    return { notModified: false, ...result };
+  }
+
+  /**
+   * The fixture file itself - editing it is picked up by background polling too
+   */
+  getFeedEndpoint(): FeedEndpoint {
+    return { url: this.url, format: "tfl" };
+  }
+
+  /**
+   * Loads the corridor fixture file
+   *
+   * @param signal - Optional cancellation signal
+   * @returns Promise<RoadCorridor[]> - Corridors from the fixture
+   */
+  async getRoadCorridors(signal?: AbortSignal): Promise<RoadCorridor[]> {
+    return validateRoadCorridors(await fetchFixture(this.corridorUrl, signal));
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * History Store - Records every refresh in IndexedDB for timeline playback
+ * Answers "what did the network look like at 8am?" for as long as the
+ * configured retention allows
+ */
+import type { DisruptionSnapshot, DisruptionSourceKind } from "../types/disruption";
+import { requestToPromise, STORES, withStore } from "./localDatabase";
+import { STORAGE_KEYS } from "../constants/ui";
+
+// Stored record - the snapshot tagged with the source it came from
+interface HistoryEntry extends DisruptionSnapshot {
+  sourceKind: DisruptionSourceKind;
+}
+
+// Retention choices offered in the timeline, in hours
+export const HISTORY_RETENTION_OPTIONS = [6, 24, 72, 168] as const;
+const DEFAULT_RETENTION_HOURS = 24;
+
+/**
+ * Key range covering one source's entries between two ISO times
+ * ISO strings sort chronologically, so string bounds work as time bounds
+ */
+const rangeFor = (kind: DisruptionSourceKind, from = "", to = "\uffff", excludeUpper = false) =>
+  IDBKeyRange.bound([kind, from], [kind, to], false, excludeUpper);
+
+/**
+ * Reads the retention setting (hours of history to keep)
+ */
+export const getHistoryRetentionHours = (): number => {
+  const stored = Number(localStorage.getItem(STORAGE_KEYS.HISTORY_RETENTION_HOURS));
+  return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_RETENTION_HOURS;
+};
+
+/**
+ * Saves the retention setting; applied on the next prune
+ */
+export const setHistoryRetentionHours = (hours: number): void => {
+  localStorage.setItem(STORAGE_KEYS.HISTORY_RETENTION_HOURS, String(hours));
+};
+
+/**
+ * Deletes entries older than the retention window
+ *
+ * @param kind - Source whose history to prune
+ * @param retentionHours - Hours to keep (defaults to the saved setting)
+ */
+export const pruneHistory = async (
+  kind: DisruptionSourceKind,
+  retentionHours = getHistoryRetentionHours()
+): Promise<void> => {
+  const cutoff = new Date(Date.now() - retentionHours * 60 * 60 * 1000).toISOString();
+  await withStore(STORES.HISTORY, "readwrite", store =>
+    requestToPromise(store.delete(rangeFor(kind, "", cutoff, true)))
+  );
+};
+
+/**
+ * Records one refresh and prunes anything past the retention window
+ *
+ * @param kind - Source the data came from
+ * @param snapshot - Validated disruptions, report and capture time
+ */
+export const recordHistorySnapshot = async (
+  kind: DisruptionSourceKind,
+  snapshot: DisruptionSnapshot
+): Promise<void> => {
+  const entry: HistoryEntry = { ...snapshot, sourceKind: kind };
+  await withStore(STORES.HISTORY, "readwrite", store => requestToPromise(store.put(entry)));
+  await pruneHistory(kind);
+};
+
+/**
+ * Lists the capture times recorded for a source, oldest first
+ * Only keys are read, so this stays cheap however large the snapshots are
+ *
+ * @returns Promise<string[]> - ISO capture times
+ */
+export const listHistoryTimes = async (kind: DisruptionSourceKind): Promise<string[]> => {
+  const keys = await withStore(STORES.HISTORY, "readonly", store =>
+    requestToPromise(store.getAllKeys(rangeFor(kind)))
+  );
+  return keys.map(key => (key as [string, string])[1]);
+};
+
+/**
+ * Loads the snapshot recorded at a given time
+ *
+ * @param kind - Source to read
+ * @param capturedAt - One of the times from listHistoryTimes
+ * @returns Promise<DisruptionSnapshot | null> - null if it has since been pruned
+ */
+export const loadHistorySnapshot = async (
+  kind: DisruptionSourceKind,
+  capturedAt: string
+): Promise<DisruptionSnapshot | null> => {
+  const entry = await withStore(STORES.HISTORY, "readonly", store =>
+    requestToPromise<HistoryEntry | undefined>(store.get([kind, capturedAt]))
+  );
+  return entry ?? null;
+};
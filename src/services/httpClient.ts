@@ -0,0 +1,290 @@
+/**
+ * HTTP Client - Shared fetch helpers for disruption sources
+ * Conditional requests let an unchanged feed cost a 304 instead of a full payload;
+ * timeouts, retries with backoff and an optional circuit breaker keep a flaky
+ * upstream from hanging or being hammered
+ */
+import type { CircuitBreaker } from "./circuitBreaker";
+import { TIMING_CONSTANTS } from "../constants/ui";
+
+// HTTP caching validators remembered between requests to the same URL
+export interface CacheValidators {
+  etag?: string;                                 // Last ETag response header
+  lastModified?: string;                         // Last Last-Modified response header
+}
+
+// Resilience settings for a single logical request
+export interface RequestOptions {
+  signal?: AbortSignal;                          // Caller cancellation (unmount, newer refresh)
+  timeoutMs?: number;                            // Per-attempt timeout
+  retries?: number;                              // Extra attempts after the first one
+  baseDelayMs?: number;                          // Backoff base - doubles every attempt
+  maxDelayMs?: number;                           // Backoff ceiling; longer Retry-After values are left to the caller
+  breaker?: CircuitBreaker;                      // Upstream circuit breaker, if any
+  onRetry?: (attempt: number, error: Error) => void; // Called before each retry (1 = first retry)
+}
+
+const DEFAULT_REQUEST_OPTIONS = {
+  timeoutMs: TIMING_CONSTANTS.REQUEST_TIMEOUT_MS,
+  retries: 2,
+  baseDelayMs: TIMING_CONSTANTS.RETRY_BASE_DELAY_MS,
+  maxDelayMs: TIMING_CONSTANTS.RETRY_MAX_DELAY_MS,
+} as const;
+
+/**
+ * Non-2xx response (other than 304 Not Modified)
+ * The message keeps the "API request failed: <status>" format callers log
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly retryAfterMs: number | null;          // Parsed Retry-After header, if sent
+
+  constructor(status: number, retryAfterMs: number | null) {
+    super(`API request failed: ${status}`);
+    this.name = "HttpError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * A single attempt took longer than its timeout
+ */
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs / 1000}s`);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Checks whether an error comes from the caller cancelling the request
+ * Cancelled requests are expected and should never be shown to the user
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date)
+ *
+ * @param value - Raw header value
+ * @returns Delay in milliseconds, or null when missing/unparseable
+ */
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Exponential backoff with "full jitter": a random delay up to base * 2^attempt
+ * Spreads retries from many clients instead of synchronising them
+ *
+ * @param attempt - Zero-based retry number
+ */
+const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+/**
+ * Transient failures worth retrying: network errors, timeouts, 408, 429 and 5xx
+ */
+const isRetryable = (error: unknown): boolean =>
+  error instanceof TimeoutError ||
+  error instanceof TypeError ||
+  (error instanceof HttpError &&
+    (error.status === 408 || error.status === 429 || error.status >= 500));
+
+/**
+ * Waits for the given time unless the caller cancels first
+ *
+ * @throws DOMException(AbortError) - When the signal aborts during the wait
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Runs one fetch attempt with its own timeout, linked to the caller's signal
+ *
+ * The timeout and the caller's signal stay in force until `read` settles, so
+ * a body that stalls or is cancelled halfway fails the attempt instead of
+ * hanging. The body stream is tied to the attempt's signal, which is also
+ * passed to `read` for any work it does after the bytes arrive.
+ *
+ * @throws TimeoutError - When the attempt (including read) exceeds timeoutMs
+ * @throws DOMException(AbortError) - When the caller cancels
+ */
+const fetchWithTimeout = async <T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  read: (response: Response, signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return await read(response, controller.signal);
+  } catch (error) {
+    if (timedOut) throw new TimeoutError(timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+/**
+ * Retry loop shared by fetchWithRetry and fetchIfModified
+ * Each attempt's timeout covers `read`, which only sees 2xx and 304 responses.
+ */
+const requestWithRetry = async <T>(
+  url: string,
+  init: RequestInit,
+  options: RequestOptions,
+  read: (response: Response, signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const { signal, breaker } = options;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_OPTIONS.timeoutMs;
+  const retries = options.retries ?? DEFAULT_REQUEST_OPTIONS.retries;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_REQUEST_OPTIONS.baseDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_REQUEST_OPTIONS.maxDelayMs;
+
+  for (let attempt = 0; ; attempt++) {
+    breaker?.assertCanRequest();
+
+    try {
+      const result = await fetchWithTimeout(url, init, timeoutMs, signal, async (response, attemptSignal) => {
+        if (!response.ok && response.status !== 304) {
+          throw new HttpError(response.status, parseRetryAfter(response.headers.get("Retry-After")));
+        }
+        return read(response, attemptSignal);
+      });
+      breaker?.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) {
+        // A cancelled trial must not leave a half-open breaker waiting on it
+        breaker?.releaseTrial();
+        throw error;
+      }
+
+      const retryAfterMs = error instanceof HttpError ? error.retryAfterMs ?? 0 : 0;
+      // Server named a time to come back - the caller waits until then
+      if (retryAfterMs > maxDelayMs) {
+        breaker?.releaseTrial();
+        throw error;
+      }
+
+      if (!isRetryable(error) || attempt >= retries) {
+        // Client errors (4xx other than 408/429) and bodies that don't parse
+        // mean the upstream is up
+        if (isRetryable(error)) breaker?.recordFailure();
+        else breaker?.recordSuccess();
+        throw error;
+      }
+
+      // The retry asks the breaker again, as a trial of its own if half-open
+      breaker?.releaseTrial();
+      const delay = Math.max(getBackoffDelay(attempt, baseDelayMs, maxDelayMs), retryAfterMs);
+      options.onRetry?.(attempt + 1, error as Error);
+      console.warn(`Request to ${url} failed (${(error as Error).message}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+/**
+ * Fetches a URL with timeouts, retries and circuit breaking
+ *
+ * Flow per attempt:
+ * 1. Ask the circuit breaker (throws CircuitOpenError while open)
+ * 2. Fetch with a per-attempt timeout, cancellable through options.signal
+ * 3. Turn non-2xx responses (except 304) into HttpError
+ * 4. Retry transient failures after max(backoff with jitter, Retry-After);
+ *    a Retry-After longer than maxDelayMs is not waited out here - the
+ *    HttpError carries it so the caller can come back at that time
+ *
+ * Cancellation and a long Retry-After are never counted as upstream failures:
+ * the first is ours, the second is the server answering on purpose (e.g. the
+ * proxy warming up). The timeout ends once the headers arrive; use
+ * fetchIfModified when the body read should be covered too.
+ *
+ * @param url - Resource to fetch
+ * @param init - Fetch options (signal is managed here)
+ * @param options - Resilience settings
+ * @returns Promise<Response> - A 2xx or 304 response
+ * @throws HttpError | TimeoutError | CircuitOpenError | TypeError | DOMException(AbortError)
+ */
+export const fetchWithRetry = (
+  url: string,
+  init: RequestInit = {},
+  options: RequestOptions = {}
+): Promise<Response> => requestWithRetry(url, init, options, async response => response);
+
+/**
+ * Performs a conditional GET using previously seen cache validators
+ *
+ * Sends If-None-Match / If-Modified-Since when validators are known. The
+ * response body is handed to `read` (parse and validate) within the
+ * attempt's timeout and cancellation, and the new validators are only kept
+ * once it succeeded and the request wasn't cancelled - otherwise the next
+ * request would get a 304 for data that was never applied. The browser cache is bypassed so the 304 reaches us instead
+ * of being turned into a cached 200.
+ *
+ * @param url - Resource to fetch
+ * @param validators - Validators owned by the caller; updated in place
+ * @param read - Turns the 2xx response into the caller's data; the signal aborts
+ *               on timeout or cancellation
+ * @param options - Timeout, retry, cancellation and breaker settings
+ * @returns Promise<T | null> - What read returned, or null for 304 Not Modified
+ * @throws Same errors as fetchWithRetry, anything read throws, or
+ *         DOMException(AbortError) when cancelled while reading
+ */
+export const fetchIfModified = async <T>(
+  url: string,
+  validators: CacheValidators,
+  read: (response: Response, signal: AbortSignal) => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T | null> => {
+  const headers = new Headers();
+  if (validators.etag) headers.set("If-None-Match", validators.etag);
+  if (validators.lastModified) headers.set("If-Modified-Since", validators.lastModified);
+
+  const outcome = await requestWithRetry(url, { headers, cache: "no-store" }, options, async (response, signal) => {
+    if (response.status === 304) return null;
+    const result = await read(response, signal);
+    signal.throwIfAborted();
+    return { result, etag: response.headers.get("ETag"), lastModified: response.headers.get("Last-Modified") };
+  });
+  if (!outcome) return null;
+
+  validators.etag = outcome.etag ?? undefined;
+  validators.lastModified = outcome.lastModified ?? undefined;
+  return outcome.result;
+};
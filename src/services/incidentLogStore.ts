@@ -0,0 +1,68 @@
+/**
+ * Incident Log Store - Keeps operator incident records in localStorage
+ */
+import type { IncidentEventType, IncidentRecord } from "../types/disruption";
+import { STORAGE_KEYS } from "../constants/ui";
+
+const EVENT_TYPES: IncidentEventType[] = [
+  "acknowledged", "assigned", "unassigned", "note", "handled", "reopened", "changed",
+];
+
+/**
+ * Type guard for one history entry
+ */
+const isIncidentEvent = (value: unknown): boolean => {
+  if (!value || typeof value !== "object") return false;
+  const event = value as Record<string, unknown>;
+  return (
+    typeof event.id === "string" &&
+    EVENT_TYPES.includes(event.type as IncidentEventType) &&
+    typeof event.at === "string" &&
+    (event.text === null || typeof event.text === "string")
+  );
+};
+
+/**
+ * Type guard for a stored record - drops entries edited into a broken state
+ */
+const isIncidentRecord = (value: unknown): value is IncidentRecord => {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Record<string, unknown>;
+  const acknowledgement = record.acknowledgement as Record<string, unknown> | null;
+  return (
+    typeof record.disruptionId === "string" &&
+    typeof record.location === "string" &&
+    (acknowledgement === null || (
+      typeof acknowledgement === "object" &&
+      typeof acknowledgement.at === "string" &&
+      typeof acknowledgement.severity === "string" &&
+      typeof acknowledgement.currentUpdate === "string"
+    )) &&
+    (record.assignee === null || typeof record.assignee === "string") &&
+    typeof record.handled === "boolean" &&
+    Array.isArray(record.history) &&
+    record.history.every(isIncidentEvent) &&
+    typeof record.updatedAt === "string"
+  );
+};
+
+/**
+ * Reads the saved incident records
+ *
+ * @returns IncidentRecord[] - Valid records (empty if none)
+ */
+export const loadIncidentRecords = (): IncidentRecord[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEYS.INCIDENT_LOG) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isIncidentRecord) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Saves the complete incident log
+ */
+export const saveIncidentRecords = (records: IncidentRecord[]): void => {
+  localStorage.setItem(STORAGE_KEYS.INCIDENT_LOG, JSON.stringify(records));
+};
@@ -0,0 +1,91 @@
+/**
+ * Local Database - Thin promise wrapper around the app's IndexedDB database
+ * Stores are created here so every module shares one schema and version
+ */
+
+const DATABASE_NAME = "london-traffic";
+const DATABASE_VERSION = 3;
+
+// Object stores in the database
+export const STORES = {
+  LAST_GOOD_SNAPSHOT: "lastGoodSnapshot",        // One DisruptionSnapshot per source kind
+  HISTORY: "history",                            // Every refresh, keyed [sourceKind, capturedAt]
+  NOTIFICATION_WORKER: "notificationWorker",     // Service worker "config" and "state" records
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens (and on first use creates/upgrades) the database
+ * The connection is shared; a failed open is retried on the next call
+ *
+ * @throws Error - When IndexedDB is unavailable (e.g. some private browsing modes)
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      // Each check creates what a given version added, so any older database upgrades cleanly
+      if (!database.objectStoreNames.contains(STORES.LAST_GOOD_SNAPSHOT)) {
+        database.createObjectStore(STORES.LAST_GOOD_SNAPSHOT);
+      }
+      if (!database.objectStoreNames.contains(STORES.HISTORY)) {
+        database.createObjectStore(STORES.HISTORY, { keyPath: ["sourceKind", "capturedAt"] });
+      }
+      if (!database.objectStoreNames.contains(STORES.NOTIFICATION_WORKER)) {
+        database.createObjectStore(STORES.NOTIFICATION_WORKER);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    databasePromise = null;
+    throw error;
+  });
+
+  return databasePromise;
+};
+
+/**
+ * Runs work inside a transaction on one store and resolves once it commits
+ *
+ * @param storeName - Store to open
+ * @param mode - "readonly" or "readwrite"
+ * @param work - Receives the store; its return value is passed through
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  const result = await work(transaction.objectStore(storeName));
+  await done;
+  return result;
+};
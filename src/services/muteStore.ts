@@ -0,0 +1,45 @@
+/**
+ * Mute Store - Keeps snoozed and muted disruptions in localStorage
+ */
+import type { DisruptionMute, MuteMode } from "../types/disruption";
+import { STORAGE_KEYS } from "../constants/ui";
+
+const MODES: MuteMode[] = ["snooze", "until-severity-change"];
+const SEVERITIES = ["Serious", "Moderate", "Minimal"];
+
+/**
+ * Type guard for a stored mute - drops entries edited into a broken state
+ */
+const isDisruptionMute = (value: unknown): value is DisruptionMute => {
+  if (!value || typeof value !== "object") return false;
+  const mute = value as Record<string, unknown>;
+  return (
+    typeof mute.disruptionId === "string" &&
+    typeof mute.location === "string" &&
+    SEVERITIES.includes(mute.severity as string) &&
+    MODES.includes(mute.mode as MuteMode) &&
+    (mute.until === null || typeof mute.until === "string") &&
+    typeof mute.mutedAt === "string"
+  );
+};
+
+/**
+ * Reads the saved mutes
+ *
+ * @returns DisruptionMute[] - Valid mutes, oldest first (empty if none)
+ */
+export const loadMutes = (): DisruptionMute[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEYS.MUTES) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isDisruptionMute) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Saves the complete list of mutes
+ */
+export const saveMutes = (mutes: DisruptionMute[]): void => {
+  localStorage.setItem(STORAGE_KEYS.MUTES, JSON.stringify(mutes));
+};
@@ -0,0 +1,63 @@
+/**
+ * Notification Worker Store - Settings and last-seen feed of the notification
+ * service worker, kept in IndexedDB so the page and the worker share them and
+ * the worker survives being stopped and restarted by the browser
+ */
+import type { NotificationWorkerConfig, NotificationWorkerState } from "../types/disruption";
+import { requestToPromise, STORES, withStore } from "./localDatabase";
+
+// Record keys in the notificationWorker store
+const CONFIG_KEY = "config";
+const STATE_KEY = "state";
+
+/**
+ * Saves the worker settings (written by the page)
+ */
+export const saveNotificationWorkerConfig = async (config: NotificationWorkerConfig): Promise<void> => {
+  await withStore(STORES.NOTIFICATION_WORKER, "readwrite", store =>
+    requestToPromise(store.put(config, CONFIG_KEY))
+  );
+};
+
+/**
+ * Loads the worker settings
+ *
+ * @returns Promise<NotificationWorkerConfig | null> - null until notifications were turned on once
+ */
+export const loadNotificationWorkerConfig = async (): Promise<NotificationWorkerConfig | null> => {
+  const config = await withStore(STORES.NOTIFICATION_WORKER, "readonly", store =>
+    requestToPromise<NotificationWorkerConfig | undefined>(store.get(CONFIG_KEY))
+  );
+  return config ?? null;
+};
+
+/**
+ * Saves the feed seen at the latest check (written by the worker)
+ */
+export const saveNotificationWorkerState = async (state: NotificationWorkerState): Promise<void> => {
+  await withStore(STORES.NOTIFICATION_WORKER, "readwrite", store =>
+    requestToPromise(store.put(state, STATE_KEY))
+  );
+};
+
+/**
+ * Loads the feed seen at the latest check
+ *
+ * @returns Promise<NotificationWorkerState | null> - null before the first check
+ */
+export const loadNotificationWorkerState = async (): Promise<NotificationWorkerState | null> => {
+  const state = await withStore(STORES.NOTIFICATION_WORKER, "readonly", store =>
+    requestToPromise<NotificationWorkerState | undefined>(store.get(STATE_KEY))
+  );
+  return state && Array.isArray(state.disruptions) ? state : null;
+};
+
+/**
+ * Forgets the last-seen feed, so the next check starts fresh without
+ * notifying about everything that changed while notifications were off
+ */
+export const clearNotificationWorkerState = async (): Promise<void> => {
+  await withStore(STORES.NOTIFICATION_WORKER, "readwrite", store =>
+    requestToPromise(store.delete(STATE_KEY))
+  );
+};
@@ -0,0 +1,102 @@
+/**
+ * Proxy Source - Reads the normalised feed from the caching proxy (server/)
+ * The proxy polls TfL with the app_key server-side, so browsers never see the
+ * key and all tabs share one upstream quota
+ */
+import type { FeedUpdate, ProxySnapshot, RoadCorridor } from "../types/disruption";
+import type { DisruptionSource, FeedEndpoint } from "./disruptionSource";
+import { CircuitBreaker } from "./circuitBreaker";
+import { fetchIfModified, type CacheValidators } from "./httpClient";
+import { TIMING_CONSTANTS } from "../constants/ui";
+
+/**
+ * Type guard for the /api/disruptions response
+ */
+const isProxySnapshot = (value: unknown): value is ProxySnapshot =>
+  !!value &&
+  typeof value === "object" &&
+  Array.isArray((value as ProxySnapshot).disruptions) &&
+  !!(value as ProxySnapshot).report;
+
+export class ProxyDisruptionSource implements DisruptionSource {
+  readonly kind = "proxy" as const;
+  readonly label = "Live TfL (proxy)";
+  private readonly baseUrl: string;
+  private readonly validators: CacheValidators = {};
+  private readonly corridorValidators: CacheValidators = {};
+  private corridors: RoadCorridor[] = [];        // Last corridor list, served again on 304
+
+  // The proxy is our upstream now - stop calling it while it is down
+  readonly circuitBreaker = new CircuitBreaker({
+    failureThreshold: TIMING_CONSTANTS.CIRCUIT_FAILURE_THRESHOLD,
+    cooldownMs: TIMING_CONSTANTS.CIRCUIT_COOLDOWN_MS,
+  });
+
+  /**
+   * @param baseUrl - Proxy API root, e.g. "/api" (dev server forwards it) or "https://proxy.example/api"
+   */
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  /**
+   * Fetches the proxy's cached snapshot
+   *
+   * The data was already validated by the proxy with the shared validation
+   * layer, so it is used as-is; the report describes what the proxy dropped.
+   *
+   * @param signal - Optional cancellation signal
+   * @returns Promise<FeedUpdate> - Snapshot data, or { notModified: true } on 304
+   * @throws Error - When the proxy is unreachable or returns something unexpected
+   */
+  async getTrafficDisruptions(signal?: AbortSignal): Promise<FeedUpdate> {
+    const snapshot = await fetchIfModified(
+      `${this.baseUrl}/disruptions`,
+      this.validators,
+      async response => {
+        const body: unknown = await response.json();
+        if (!isProxySnapshot(body)) {
+          throw new Error("Proxy returned an unexpected response");
+        }
+        return body;
+      },
+      { signal, breaker: this.circuitBreaker }
+    );
+    if (!snapshot) return { notModified: true };
+
+    if (snapshot.isStale) {
+      console.warn(`Proxy is serving stale data from ${snapshot.fetchedAt}`);
+    }
+
+    return { notModified: false, disruptions: snapshot.disruptions, report: snapshot.report };
+  }
+
+  /**
+   * The proxy's snapshot endpoint - already validated, so pollers use it as-is
+   */
+  getFeedEndpoint(): FeedEndpoint {
+    return { url: `${this.baseUrl}/disruptions`, format: "proxy" };
+  }
+
+  /**
+   * Fetches the proxy's cached corridor list
+   * Conditional, so an unchanged list costs a 304; left out of the circuit
+   * breaker so corridor failures never pause the disruption feed
+   *
+   * @param signal - Optional cancellation signal
+   * @returns Promise<RoadCorridor[]> - Corridors as validated by the proxy
+   */
+  async getRoadCorridors(signal?: AbortSignal): Promise<RoadCorridor[]> {
+    const corridors = await fetchIfModified(
+      `${this.baseUrl}/corridors`,
+      this.corridorValidators,
+      async response => {
+        const body: unknown = await response.json();
+        return Array.isArray(body) ? (body as RoadCorridor[]) : [];
+      },
+      { signal }
+    );
+    if (corridors) this.corridors = corridors;
+    return this.corridors;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Replay Source - Plays back a recorded session of TfL responses
+ * Each refresh advances one frame, so change detection and alerts can be
+ * exercised against real-looking data that evolves over time
+ */
+import type { FeedUpdate, RoadCorridor } from "../types/disruption";
+import type { DisruptionSource } from "./disruptionSource";
+import { validateDisruptions, validateRoadCorridors } from "./disruptionValidation";
+import { fetchFixture } from "./fixtureSource";
+
+// One captured TfL response within a recorded session
+export interface RecordedFrame {
+  capturedAt: string;                            // ISO time the response was captured
+  payload: unknown[];                            // Raw /Road/all/Disruption body
+  corridors?: unknown[];                         // Raw /Road body, when it was captured
+}
+
+// File format of a recorded session
+export interface RecordedSession {
+  recordedAt: string;                            // ISO time the recording started
+  description?: string;                          // Free-text note about the session
+  frames: RecordedFrame[];                       // Responses in capture order
+}
+
+/**
+ * Type guard for a recorded session file
+ */
+const isRecordedSession = (value: unknown): value is RecordedSession =>
+  !!value &&
+  typeof value === "object" &&
+  Array.isArray((value as RecordedSession).frames) &&
+  (value as RecordedSession).frames.every(frame => Array.isArray(frame?.payload));
+
+export class ReplayDisruptionSource implements DisruptionSource {
+  readonly kind = "replay" as const;
+  readonly label = "Session replay";
+  private readonly url: string;
+  private readonly corridorUrl: string;
+  private session: RecordedSession | null = null;
+  private nextFrame = 0;
+
+  /**
+   * @param url - URL of a RecordedSession JSON file
+   * @param corridorUrl - Corridor fixture used when frames carry no corridor data
+   */
+  constructor(url: string, corridorUrl: string) {
+    this.url = url;
+    this.corridorUrl = corridorUrl;
+  }
+
+  /**
+   * Loads the session file once and caches it for subsequent frames
+   *
+   * @param signal - Optional cancellation signal
+   * @throws Error - When the file cannot be loaded or is not a recorded session
+   */
+  private async loadSession(signal?: AbortSignal): Promise<RecordedSession> {
+    if (this.session) return this.session;
+
+    const response = await fetch(this.url, { signal });
+    if (!response.ok) {
+      throw new Error(`Replay session request failed: ${response.status} (${this.url})`);
+    }
+
+    const data: unknown = await response.json();
+    if (!isRecordedSession(data) || data.frames.length === 0) {
+      throw new Error(`Replay session ${this.url} contains no frames`);
+    }
+
+    this.session = data;
+    return data;
+  }
+
+  /**
+   * Returns the next recorded frame, validated like a live response
+   *
+   * Frames advance on every delivered call; once the last frame has been
+   * played the source reports { notModified: true }, like a feed that has
+   * stopped changing. A cancelled call doesn't use up a frame.
+   *
+   * @param signal - Optional cancellation signal
+   * @returns Promise<FeedUpdate> - Disruptions and report for the frame
+   * @throws AbortError - When cancelled before the frame was delivered
+   */
+  async getTrafficDisruptions(signal?: AbortSignal): Promise<FeedUpdate> {
+    const session = await this.loadSession(signal);
+    // Superseded while the session loaded - keep the frame for the next call
+    signal?.throwIfAborted();
+    if (this.nextFrame >= session.frames.length) {
+      return { notModified: true };
+    }
+
+    const update = validateDisruptions(session.frames[this.nextFrame].payload);
+    this.nextFrame += 1;
+    return { notModified: false, ...update };
+  }
+
+  /**
+   * Returns corridor statuses for the frame last replayed
+   *
+   * Frames recorded with corridor data replay it; older recordings fall back
+   * to the static corridor fixture.
+   *
+   * @param signal - Optional cancellation signal
+   * @returns Promise<RoadCorridor[]> - Corridors for the current frame
+   */
+  async getRoadCorridors(signal?: AbortSignal): Promise<RoadCorridor[]> {
+    const session = await this.loadSession(signal);
+    const frame = session.frames[Math.min(Math.max(this.nextFrame - 1, 0), session.frames.length - 1)];
+
+    return validateRoadCorridors(frame.corridors ?? await fetchFixture(this.corridorUrl, signal));
+  }
+}
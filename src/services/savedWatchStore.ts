@@ -0,0 +1,40 @@
+/**
+ * Saved Watch Store - Keeps watched roads and search terms in localStorage
+ */
+import type { SavedWatch } from "../types/disruption";
+import { STORAGE_KEYS } from "../constants/ui";
+
+/**
+ * Type guard for a stored watch - drops entries edited into a broken state
+ */
+const isSavedWatch = (value: unknown): value is SavedWatch => {
+  if (!value || typeof value !== "object") return false;
+  const watch = value as Record<string, unknown>;
+  return (
+    typeof watch.id === "string" &&
+    typeof watch.term === "string" &&
+    watch.term.trim() !== "" &&
+    typeof watch.createdAt === "string"
+  );
+};
+
+/**
+ * Reads the saved watches
+ *
+ * @returns SavedWatch[] - Valid watches in the order they were saved (empty if none)
+ */
+export const loadSavedWatches = (): SavedWatch[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEYS.SAVED_WATCHES) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isSavedWatch) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Saves the complete list of watches
+ */
+export const saveSavedWatches = (watches: SavedWatch[]): void => {
+  localStorage.setItem(STORAGE_KEYS.SAVED_WATCHES, JSON.stringify(watches));
+};
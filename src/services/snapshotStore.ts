@@ -0,0 +1,38 @@
+/**
+ * Snapshot Store - Persists the last successfully loaded feed in IndexedDB
+ * Lets the app show recent data on startup or during an outage instead of
+ * an empty error screen
+ */
+import type { DisruptionSnapshot, DisruptionSourceKind } from "../types/disruption";
+import { requestToPromise, STORES, withStore } from "./localDatabase";
+
+/**
+ * Saves the latest good feed for a source, replacing the previous one
+ * Snapshots are kept per source kind so demo data never masquerades as live data
+ *
+ * @param kind - Source the data came from
+ * @param snapshot - Validated disruptions, report and capture time
+ */
+export const saveLastGoodSnapshot = async (
+  kind: DisruptionSourceKind,
+  snapshot: DisruptionSnapshot
+): Promise<void> => {
+  await withStore(STORES.LAST_GOOD_SNAPSHOT, "readwrite", store =>
+    requestToPromise(store.put(snapshot, kind))
+  );
+};
+
+/**
+ * Loads the last good feed for a source
+ *
+ * @param kind - Source to load the snapshot for
+ * @returns Promise<DisruptionSnapshot | null> - null when nothing was saved yet
+ */
+export const loadLastGoodSnapshot = async (
+  kind: DisruptionSourceKind
+): Promise<DisruptionSnapshot | null> => {
+  const snapshot = await withStore(STORES.LAST_GOOD_SNAPSHOT, "readonly", store =>
+    requestToPromise<DisruptionSnapshot | undefined>(store.get(kind))
+  );
+  return snapshot && Array.isArray(snapshot.disruptions) ? snapshot : null;
+};
@@ -0,0 +1,108 @@
+/**
+ * Speech - Reads announcements aloud (Web Speech API) and plays chimes (Web Audio API)
+ * Both APIs are optional; callers check isSpeechSupported before using them
+ */
+import type { ChimeStyle } from "../types/disruption";
+
+// Notes of each chime: [frequency Hz, start offset s, length s]
+const CHIME_NOTES: Record<Exclude<ChimeStyle, "none">, [number, number, number][]> = {
+  bell: [[880, 0, 0.6], [1320, 0, 0.4]],
+  beep: [[1000, 0, 0.12], [1000, 0.18, 0.12]],
+  rising: [[660, 0, 0.15], [880, 0.15, 0.15], [1100, 0.3, 0.25]],
+};
+
+// Shared audio context, created on first use (browsers cap how many a page may open)
+let audioContext: AudioContext | null = null;
+
+/**
+ * Checks for the Web Speech synthesis API
+ */
+export const isSpeechSupported = (): boolean =>
+  typeof window !== "undefined" && "speechSynthesis" in window && "SpeechSynthesisUtterance" in window;
+
+/**
+ * Lists the installed voices, English ones first
+ * Browsers load voices asynchronously - listen for "voiceschanged" and ask again
+ */
+export const listVoices = (): SpeechSynthesisVoice[] => {
+  if (!isSpeechSupported()) return [];
+  const isEnglish = (voice: SpeechSynthesisVoice) => voice.lang.toLowerCase().startsWith("en");
+  return [...window.speechSynthesis.getVoices()].sort(
+    (a, b) => Number(isEnglish(b)) - Number(isEnglish(a)) || a.name.localeCompare(b.name)
+  );
+};
+
+/**
+ * Lets audio play outside a user gesture
+ * Browsers start audio suspended until the page has been interacted with, so call
+ * this from a click handler (e.g. when announcements are turned on)
+ */
+export const unlockAudio = (): void => {
+  if (typeof AudioContext === "undefined") return;
+  audioContext ??= new AudioContext();
+  void audioContext.resume();
+};
+
+/**
+ * Plays a short chime
+ *
+ * @param style - Chime to play ("none" resolves immediately)
+ * @returns Promise<void> - Resolves once the chime has finished
+ */
+export const playChime = (style: ChimeStyle): Promise<void> => {
+  if (style === "none" || typeof AudioContext === "undefined") return Promise.resolve();
+  audioContext ??= new AudioContext();
+  const context = audioContext;
+  const notes = CHIME_NOTES[style];
+
+  notes.forEach(([frequency, offset, length]) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const startAt = context.currentTime + offset;
+    oscillator.type = "sine";
+    oscillator.frequency.value = frequency;
+    // Quick fade in and out avoids clicks
+    gain.gain.setValueAtTime(0, startAt);
+    gain.gain.linearRampToValueAtTime(0.3, startAt + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.001, startAt + length);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(startAt);
+    oscillator.stop(startAt + length);
+  });
+
+  const totalSeconds = Math.max(...notes.map(([, offset, length]) => offset + length));
+  return new Promise(resolve => setTimeout(resolve, totalSeconds * 1000));
+};
+
+/**
+ * Reads text aloud
+ *
+ * @param text - Sentence to speak
+ * @param voiceURI - Voice to use (browser default when null or no longer installed)
+ * @returns Promise<void> - Resolves when speaking ends, fails or is cancelled
+ */
+export const speak = (text: string, voiceURI: string | null): Promise<void> =>
+  new Promise(resolve => {
+    if (!isSpeechSupported()) {
+      resolve();
+      return;
+    }
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voice = voiceURI ? listVoices().find(item => item.voiceURI === voiceURI) : undefined;
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    } else {
+      utterance.lang = "en-GB";
+    }
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    window.speechSynthesis.speak(utterance);
+  });
+
+/**
+ * Stops the current announcement and drops any queued ones
+ */
+export const stopSpeaking = (): void => {
+  if (isSpeechSupported()) window.speechSynthesis.cancel();
+};
@@ -2,166 +2,144 @@
  * TfL API Service - Fetches London traffic disruption data
  * Simple, readable implementation with proper error handling
  */
-import type { Disruption } from "../types/disruption";
+import type { FeedUpdate, RoadCorridor } from "../types/disruption";
+import type { DisruptionSource, FeedEndpoint } from "./disruptionSource";
+import { CircuitBreaker, CircuitOpenError, type CircuitBreakerOptions } from "./circuitBreaker";
+import {
+  fetchIfModified,
+  HttpError,
+  isAbortError,
+  TimeoutError,
+  type CacheValidators,
+} from "./httpClient";
+import {
+  InvalidPayloadError,
+  validateDisruptions,
+  validateRoadCorridors,
+} from "./disruptionValidation";
 import { TEXT_CONSTANTS } from "../constants/text";
+import { TIMING_CONSTANTS } from "../constants/ui";
+
+export class TflApiService implements DisruptionSource {
+  readonly kind = "tfl" as const;
+  readonly label = "Live TfL";
+  private readonly apiBase: string;
+  private readonly appKey: string | undefined;
+  private readonly disruptionValidators: CacheValidators = {};
+  private readonly corridorValidators: CacheValidators = {};
+  private corridors: RoadCorridor[] = [];        // Last corridor list, served again on 304
+
+  // Guards disruption requests; corridors are secondary, so their failures don't count
+  readonly circuitBreaker: CircuitBreaker;
 
-export class TflApiService {
   /**
-   * Validates if an API response item contains all required disruption data
-   *
-   * This function acts as a type guard to ensure data integrity before processing.
-   * It checks for the presence and correct types of all required fields:
-   * - Basic fields: id, location, severity, comments, currentUpdate, status
-   * - Geography data: coordinates array with valid longitude/latitude numbers
-   *
-   * @param item - Raw data item from TfL API response (could be any structure)
-   * @returns boolean - true if item has all required fields with correct types
-   *
-   * Example usage:
-   * - Filters out incomplete API responses
-   * - Prevents runtime errors from missing data
-   * - Ensures only valid disruptions are processed
+   * @param apiBase - Base URL of the TfL Unified API (e.g. https://api.tfl.gov.uk)
+   * @param appKey - TfL app_key; only pass it server-side (see server/), never in the browser
+   * @param breakerOptions - Circuit breaker sized to the caller's refresh interval
+   *                         (defaults suit the browser's 30-minute refresh)
    */
-  private static hasRequiredData(item: unknown): boolean {
-    // First safety check - ensure we have an object to work with
-    // Prevents errors when API returns null, undefined, or primitive values
-    if (!item || typeof item !== "object") return false;
-
-    // Cast to generic object type for property access
-    // This is safe because we've already confirmed it's an object
-    const data = item as Record<string, unknown>;
-
-    // Comprehensive validation of all required fields
-    // Uses double negation (!!) to convert truthy values to boolean
-    return !!(
-      // Basic string fields - must exist and be truthy (not empty/null/undefined)
-      (
-        data.id &&
-        data.location &&
-        data.severity &&
-        data.comments &&
-        data.currentUpdate &&
-        data.status &&
-        // Geography object validation - required for map functionality
-        data.geography &&
-        typeof data.geography === "object" &&
-        data.geography !== null &&
-        "coordinates" in data.geography &&
-        // Coordinates array validation - must be array with at least 2 numeric values
-        // This ensures we have valid longitude and latitude for map plotting
-        Array.isArray((data.geography as any).coordinates) &&
-        (data.geography as any).coordinates.length >= 2 &&
-        typeof (data.geography as any).coordinates[0] === "number" &&
-        typeof (data.geography as any).coordinates[1] === "number"
-      )
-    );
+  constructor(
+    apiBase: string,
+    appKey?: string,
+    breakerOptions: CircuitBreakerOptions = {
+      failureThreshold: TIMING_CONSTANTS.CIRCUIT_FAILURE_THRESHOLD,
+      cooldownMs: TIMING_CONSTANTS.CIRCUIT_COOLDOWN_MS,
+    }
+  ) {
+    this.apiBase = apiBase.replace(/\/+$/, "");
+    this.appKey = appKey;
+    this.circuitBreaker = new CircuitBreaker(breakerOptions);
   }
 
   /**
-   * Transforms validated TfL API data into our standardized Disruption format
+   * Builds an API URL, appending the app_key when one was configured
    *
-   * This function converts raw API response data into our clean, typed Disruption object.
-   * It should only be called AFTER hasRequiredData() validation to ensure data safety.
-   *
-   * @param item - Validated raw API data (guaranteed to have all required fields)
-   * @returns Disruption - Clean, typed object matching our application's data structure
-   *
-   * Key transformations:
-   * - Extracts only the fields our app needs
-   * - Standardizes the geography coordinates format
-   * - Provides consistent data structure across the application
+   * @param path - Endpoint path, e.g. "/Road"
    */
-  private static toDisruption(item: unknown): Disruption {
-    // Safe type assertion - this item has already passed validation in hasRequiredData
-    // We know it contains all required fields with correct types
-    const data = item as any;
-
-    // Create clean Disruption object with only the data we need
-    // This eliminates extra API fields and ensures consistent structure
-    return {
-      id: data.id, // Unique identifier for tracking
-      location: data.location, // Human-readable location name
-      severity: data.severity, // Priority level (Severe/Moderate/Minor)
-      comments: data.comments, // Detailed description of the disruption
-      currentUpdate: data.currentUpdate, // Latest status information
-      status: data.status, // Current state (Active/Inactive)
-      geography: {
-        // Extract only longitude and latitude coordinates for map display
-        // Format: [longitude, latitude] as expected by mapping libraries
-        coordinates: [
-          data.geography.coordinates[0], // Longitude (east-west position)
-          data.geography.coordinates[1], // Latitude (north-south position)
-        ],
-      },
-    };
+  private buildUrl(path: string): string {
+    const url = `${this.apiBase}${path}`;
+    return this.appKey ? `${url}?app_key=${encodeURIComponent(this.appKey)}` : url;
   }
 
   /**
    * Fetches and processes traffic disruption data from the TfL API
    *
    * This is the main public method that handles the complete data flow:
-   * 1. Makes HTTP request to TfL Road Disruption API
-   * 2. Validates the response and handles HTTP errors
-   * 3. Filters out incomplete/invalid disruption data
+   * 1. Makes a conditional HTTP request to TfL Road Disruption API (ETag/Last-Modified),
+   *    with a timeout, retries with backoff and the circuit breaker
+   * 2. Short-circuits on 304 Not Modified, otherwise handles HTTP errors
+   * 3. Validates every item, recording why incomplete/invalid ones are dropped
    * 4. Transforms valid data into our standardized format
-   * 5. Returns clean array of disruptions ready for use
+   * 5. Returns clean disruptions ready for use plus the rejection report
    *
-   * @returns Promise<Disruption[]> - Array of valid, complete traffic disruptions
+   * The new ETag/Last-Modified are only kept after step 4 succeeded, so a body
+   * that failed or a cancelled refresh is fetched in full next time.
+   *
+   * @param signal - Cancels the request (e.g. on unmount or when a newer refresh starts)
+   * @returns Promise<FeedUpdate> - Valid traffic disruptions and the data quality report,
+   *          or { notModified: true } when the feed is unchanged
    * @throws Error - Network errors, API failures, or data parsing issues
    *
    * Error handling covers:
    * - Network connectivity issues
-   * - HTTP status errors (404, 500, etc.)
+   * - HTTP status errors (404, 500, etc.) as HttpError, keeping status and Retry-After
+   * - Timeouts (TimeoutError) and an open circuit (CircuitOpenError)
+   * - Cancellation (AbortError, rethrown untouched)
    * - Malformed JSON responses
+   * - Payloads that aren't a disruption list (InvalidPayloadError)
    * - Invalid data structures
    */
-  static async getTrafficDisruptions(): Promise<Disruption[]> {
-    const apiBase = import.meta.env.VITE_API_BASE_URL;
+  async getTrafficDisruptions(signal?: AbortSignal): Promise<FeedUpdate> {
     try {
       // Step 1: Make HTTP request to TfL API
-      // Fetches all current road disruptions across London
-      const response = await fetch(`${apiBase}/Road/all/Disruption`);
+      // Fetches all current road disruptions across London, unless unchanged.
+      // The cache validators are only kept once the body below was read and validated
+      const result = await fetchIfModified(
+        this.buildUrl("/Road/all/Disruption"),
+        this.disruptionValidators,
+        async response => {
+          // Step 2: HTTP errors were already turned into HttpError by the fetch layer
+
+          // Step 3: Parse JSON response data
+          // Shape is checked by validateDisruptions (a non-array throws)
+          const data: unknown = await response.json();
+
+          // Step 4: Validate, transform, and sort the data by severity
+          // Every dropped item is explained in the returned report
+          return validateDisruptions(data);
+        },
+        { signal, breaker: this.circuitBreaker }
+      );
+
+      // An unchanged feed costs nothing - no body to parse or validate
+      if (!result) {
+        return { notModified: true };
+      }
 
-      // Step 2: Check if the HTTP request was successful
-      // Handles server errors, API downtime, invalid endpoints
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status}`);
+      if (result.report.rejected > 0) {
+        console.warn("Rejected disruption records:", result.report.reasonCounts);
       }
 
-      // Step 3: Parse JSON response data
-      // Convert response body to JavaScript array
-      const data: unknown[] = await response.json();
-
-      // Log the raw data received from TfL API for debugging
-      console.log("Raw data received from TfL API:", data);
-      console.log("Total items received:", data.length);
-
-      // Step 4: Filter, transform, and sort the data by severity
-      // Process the raw API data into clean, usable disruption objects
-      const disruptions = data
-        .filter(this.hasRequiredData) // Remove incomplete/invalid items
-        .map(this.toDisruption)       // Transform to our standard format
-        .sort((a, b) => {             // Sort by severity priority
-          // Define severity order: Serious (highest priority) → Moderate → Minimal (lowest priority)
-          const severityOrder = { 
-            'Serious': 3,   // Highest priority - shows first
-            'Moderate': 2,  // Medium priority - shows second  
-            'Minimal': 1    // Lowest priority - shows last
-          };
-          
-          // Sort in descending order (highest priority first)
-          // This ensures Serious disruptions appear at the top of the list
-          return severityOrder[b.severity] - severityOrder[a.severity];
-        });
-
-      // Return the clean, validated, and sorted disruption data
-      return disruptions;
+      return { notModified: false, ...result };
     } catch (error) {
       // Comprehensive error handling for debugging and user experience
 
+      // Cancelled on purpose - nothing failed
+      if (isAbortError(error)) throw error;
+
       // Log detailed error information for developers
       console.error("Failed to fetch disruptions:", error);
 
+      // Typed fetch-layer errors carry status/Retry-After for the error handler
+      if (
+        error instanceof HttpError ||
+        error instanceof TimeoutError ||
+        error instanceof CircuitOpenError ||
+        error instanceof InvalidPayloadError
+      ) {
+        throw error;
+      }
+
       // Provide specific error messages based on error type
       if (error instanceof TypeError) {
         // Network-related errors (no internet, DNS issues, etc.)
@@ -173,4 +151,35 @@ export class TflApiService {
       throw new Error(TEXT_CONSTANTS[32] || "Unable to load traffic data");
     }
   }
+
+  /**
+   * Fetches the status of every major road corridor from the TfL API
+   *
+   * Each corridor (A2, A406, A13...) carries an overall status severity;
+   * disruptions link to corridors through their corridorIds. Conditional
+   * requests mean an unchanged list costs a 304 and the cached one is returned.
+   * The circuit breaker is left out: a failing corridor list must not pause
+   * the disruption feed.
+   *
+   * @param signal - Cancels the request
+   * @returns Promise<RoadCorridor[]> - Corridors sorted by display name
+   * @throws Error - Network errors or API failures (see fetchIfModified)
+   */
+  async getRoadCorridors(signal?: AbortSignal): Promise<RoadCorridor[]> {
+    const corridors = await fetchIfModified(
+      this.buildUrl("/Road"),
+      this.corridorValidators,
+      async response => validateRoadCorridors(await response.json()),
+      { signal }
+    );
+    if (corridors) this.corridors = corridors;
+    return this.corridors;
+  }
+
+  /**
+   * The raw TfL disruption endpoint, including the app_key when one is set
+   */
+  getFeedEndpoint(): FeedEndpoint {
+    return { url: this.buildUrl("/Road/all/Disruption"), format: "tfl" };
+  }
 }
@@ -0,0 +1,66 @@
+/**
+ * Watch Zone Store - Keeps user-drawn watch zones in localStorage
+ * Zones are per browser; nothing is sent to a server
+ */
+import type { LngLat, WatchZone, WatchZoneShape } from "../types/disruption";
+import { STORAGE_KEYS } from "../constants/ui";
+
+/**
+ * Type guard for a stored [longitude, latitude] pair
+ */
+const isLngLat = (value: unknown): value is LngLat =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  value.every(part => typeof part === "number" && Number.isFinite(part));
+
+/**
+ * Type guard for a stored zone outline
+ */
+const isShape = (value: unknown): value is WatchZoneShape => {
+  if (!value || typeof value !== "object") return false;
+  const shape = value as Record<string, unknown>;
+  if (shape.type === "circle") {
+    return isLngLat(shape.center) && typeof shape.radiusMeters === "number" && shape.radiusMeters > 0;
+  }
+  return (
+    shape.type === "polygon" &&
+    Array.isArray(shape.coordinates) &&
+    shape.coordinates.length >= 3 &&
+    shape.coordinates.every(isLngLat)
+  );
+};
+
+/**
+ * Type guard for a stored zone - drops entries edited into a broken state
+ */
+const isWatchZone = (value: unknown): value is WatchZone => {
+  if (!value || typeof value !== "object") return false;
+  const zone = value as Record<string, unknown>;
+  return (
+    typeof zone.id === "string" &&
+    typeof zone.name === "string" &&
+    typeof zone.createdAt === "string" &&
+    isShape(zone.shape)
+  );
+};
+
+/**
+ * Reads the saved watch zones
+ *
+ * @returns WatchZone[] - Valid zones in the order they were drawn (empty if none)
+ */
+export const loadWatchZones = (): WatchZone[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEYS.WATCH_ZONES) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isWatchZone) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Saves the complete list of watch zones
+ */
+export const saveWatchZones = (zones: WatchZone[]): void => {
+  localStorage.setItem(STORAGE_KEYS.WATCH_ZONES, JSON.stringify(zones));
+};
@@ -0,0 +1,104 @@
+/**
+ * Webhook Store - Keeps webhook targets and their delivery log in localStorage
+ */
+import type { WebhookDelivery, WebhookFormat, WebhookTarget } from "../types/disruption";
+import { isAlertRuleConditions } from "./alertRuleStore";
+import { STORAGE_KEYS } from "../constants/ui";
+
+const FORMATS: WebhookFormat[] = ["slack", "teams", "json"];
+
+/**
+ * Creates a target that posts new and escalated Serious disruptions
+ *
+ * @param name - Target name shown in the delivery log
+ * @param url - Incoming webhook URL
+ * @param format - Payload template
+ */
+export const createWebhookTarget = (name: string, url: string, format: WebhookFormat): WebhookTarget => ({
+  id: crypto.randomUUID(),
+  name,
+  url,
+  format,
+  enabled: true,
+  filters: {
+    triggers: ["added", "escalated"],
+    severities: ["Serious"],
+    categories: [],
+    keywords: [],
+    zoneId: null,
+    timeOfDay: { enabled: false, start: "07:00", end: "19:00" },
+  },
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Type guard for a stored target - drops entries edited into a broken state
+ */
+const isWebhookTarget = (value: unknown): value is WebhookTarget => {
+  if (!value || typeof value !== "object") return false;
+  const target = value as Record<string, unknown>;
+  return (
+    typeof target.id === "string" &&
+    typeof target.name === "string" &&
+    typeof target.url === "string" &&
+    FORMATS.includes(target.format as WebhookFormat) &&
+    typeof target.enabled === "boolean" &&
+    typeof target.createdAt === "string" &&
+    isAlertRuleConditions(target.filters)
+  );
+};
+
+/**
+ * Type guard for a stored delivery log entry
+ */
+const isWebhookDelivery = (value: unknown): value is WebhookDelivery => {
+  if (!value || typeof value !== "object") return false;
+  const delivery = value as Record<string, unknown>;
+  return (
+    typeof delivery.id === "string" &&
+    typeof delivery.targetId === "string" &&
+    typeof delivery.targetName === "string" &&
+    typeof delivery.sentAt === "string" &&
+    (delivery.status === "delivered" || delivery.status === "failed") &&
+    typeof delivery.attempts === "number" &&
+    typeof delivery.eventCount === "number"
+  );
+};
+
+/**
+ * Reads a JSON array from localStorage, keeping the items that pass a guard
+ */
+const loadList = <T>(key: string, guard: (value: unknown) => value is T): T[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(key) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(guard) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Reads the saved webhook targets, in the order they were added
+ */
+export const loadWebhookTargets = (): WebhookTarget[] =>
+  loadList(STORAGE_KEYS.WEBHOOK_TARGETS, isWebhookTarget);
+
+/**
+ * Saves the complete list of webhook targets
+ */
+export const saveWebhookTargets = (targets: WebhookTarget[]): void => {
+  localStorage.setItem(STORAGE_KEYS.WEBHOOK_TARGETS, JSON.stringify(targets));
+};
+
+/**
+ * Reads the delivery log, newest first
+ */
+export const loadWebhookDeliveries = (): WebhookDelivery[] =>
+  loadList(STORAGE_KEYS.WEBHOOK_DELIVERIES, isWebhookDelivery);
+
+/**
+ * Saves the delivery log (callers trim it)
+ */
+export const saveWebhookDeliveries = (deliveries: WebhookDelivery[]): void => {
+  localStorage.setItem(STORAGE_KEYS.WEBHOOK_DELIVERIES, JSON.stringify(deliveries));
+};
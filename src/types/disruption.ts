@@ -1,6 +1,34 @@
 // TypeScript type definitions for London Traffic Live application
 // Ensures type safety and consistent data structures across components
 
+// Street affected by a disruption (TfL "streets" entries)
+export interface DisruptionStreet {
+  name: string;                                  // Street name, e.g. "Old Kent Road"
+  closure?: string;                              // Closure type, e.g. "Open", "Partial Closure"
+  directions?: string;                           // Affected directions, e.g. "All Directions"
+}
+
+// Repeating time window for recurring works (TfL "recurringSchedules" entries)
+export interface RecurringSchedule {
+  startTime: string;                             // ISO date-time the window opens
+  endTime: string;                               // ISO date-time the window closes
+}
+
+// [longitude, latitude] pair, GeoJSON axis order
+export type LngLat = [number, number];
+
+// Drawable outline of the affected road (TfL "geometry" / "roadDisruptionLines")
+export interface DisruptionShape {
+  type: 'line' | 'polygon';                      // Polyline or closed area
+  coordinates: LngLat[];                         // Path vertices in order
+}
+
+// Disruption state, normalised from TfL's status text during validation
+export type DisruptionStatus =
+  | 'Active'                                     // "Active", "Active Long Term", "Recurring Works"
+  | 'Scheduled'                                  // Planned, not started yet
+  | 'Inactive';                                  // "Recently Cleared" - resolved
+
 // Core traffic disruption data model from TfL API
 export interface Disruption {
   id: string;                                    // Unique identifier
@@ -8,16 +36,78 @@ export interface Disruption {
   severity: 'Serious' | 'Moderate' | 'Minimal';   // Priority level
   comments: string;                              // Description text
   currentUpdate: string;                         // Latest status info
-  status: 'Active' | 'Inactive';               // Current state
-  geography: {                                  // Optional map coordinates
+  status: DisruptionStatus;                      // Current state
+  geography: {                                  // Marker position
     coordinates: [number, number];              // [longitude, latitude]
   };
+  shapes: DisruptionShape[];                     // Affected road segments (may be empty)
+  category?: string;                             // e.g. "Works", "Collisions", "Hazard(s)"
+  subCategory?: string;                          // e.g. "Utility Works", "Road Works"
+  startDateTime?: string;                        // ISO date-time the disruption starts
+  endDateTime?: string;                          // ISO date-time the disruption is expected to end
+  lastModifiedTime?: string;                     // ISO date-time of the last TfL edit
+  currentUpdateDateTime?: string;                // ISO date-time of the latest status update
+  corridorIds: string[];                         // Road corridors affected, e.g. ["a2"]
+  streets: DisruptionStreet[];                   // Individual streets affected
+  hasClosures: boolean;                          // True when any street is (partially) closed
+  isProvisional?: boolean;                       // True for not-yet-confirmed planned works
+  recurringSchedules: RecurringSchedule[];       // Repeating windows for recurring works
+  resolvedAt?: string;                           // ISO time it was seen to clear (dropped from the feed this session)
+}
+
+// Major road corridor with its overall status (TfL /Road endpoint)
+export interface RoadCorridor {
+  id: string;                                    // Lower-case id matching Disruption.corridorIds, e.g. "a2"
+  displayName: string;                           // e.g. "A2"
+  statusSeverity: string;                        // e.g. "Good", "Serious", "Closure"
+  statusSeverityDescription: string;             // e.g. "No Exceptional Delays"
+}
+
+// Corridor joined with the disruptions currently affecting it
+export interface CorridorSummary {
+  corridor: RoadCorridor;
+  disruptionCount: number;                       // Active disruptions on the corridor
+  seriousCount: number;                          // ...of which Serious
 }
 
 // User filter preferences for disruption list
 export interface FilterState {
   severities: Set<string>;                       // Selected severity levels
-  searchQuery: string;                           // Location search text
+  statuses: Set<string>;                         // Selected DisruptionStatus values (empty = all)
+  resolvedWithinHours: number;                   // Resolved disruptions shown for this long after clearing
+  searchQuery: string;                           // Search query - free text plus fields, "-", OR (see utils/queryLanguage)
+  corridorId: string | null;                     // Only show this corridor's disruptions
+  categories: Set<string>;                       // Selected categories (empty = all)
+  subCategories: Set<string>;                    // Selected sub-categories (empty = all)
+  timeWindow: TimeWindowFilter;                  // Which disruptions to show by start and end time
+}
+
+// Time filter choices
+export type TimeWindowPreset =
+  | 'any'                                        // No time filter
+  | 'active-now'                                 // Started and not yet ended
+  | 'next-24h'                                   // Starting within the next 24 hours
+  | 'this-week'                                  // Running at any point this week (Monday to Sunday)
+  | 'custom';                                    // Running at any point in a date range
+
+// Time filter on each disruption's start and end times
+export interface TimeWindowFilter {
+  preset: TimeWindowPreset;
+  from: string;                                  // Custom range first day, "YYYY-MM-DD" ('' = open)
+  to: string;                                    // Custom range last day (inclusive), "YYYY-MM-DD" ('' = open)
+}
+
+// One value of a filter facet with how many disruptions it would show
+export interface FacetCount {
+  value: string;                                 // e.g. "Works" ("Other" when TfL gave none)
+  count: number;                                 // Matches with the other filters applied
+}
+
+// Status, category and sub-category filter options with live counts
+export interface FilterFacets {
+  statuses: FacetCount[];                        // Every DisruptionStatus, resolved ones counted within the window
+  categories: FacetCount[];                      // Every category in the data, most common first
+  subCategories: FacetCount[];                   // Sub-categories within the selected categories
 }
 
 // API request state management
@@ -25,3 +115,299 @@ export interface LoadingState {
   isLoading: boolean;                            // Show spinner flag
   error: string | null;                          // Error message or null
 }
+
+// Why a raw TfL record was rejected during validation
+export type RejectionReason =
+  | 'not-an-object'                              // Item is null or a primitive
+  | 'missing-id'
+  | 'missing-location'
+  | 'missing-severity'
+  | 'unknown-severity'                           // Severity outside Serious/Moderate/Minimal
+  | 'missing-comments'
+  | 'missing-current-update'
+  | 'missing-status'
+  | 'unknown-status'                             // Status TfL doesn't document (see DisruptionStatus)
+  | 'missing-coordinates'                        // No point and no drawable geometry
+  | 'out-of-bounds';                             // Position outside the London area
+
+// One rejected record with every reason it failed
+export interface RejectedRecord {
+  id: string | null;                             // TfL id when present
+  location: string | null;                       // Location text when present
+  reasons: RejectionReason[];                    // All failed checks (never empty)
+}
+
+// Summary of how much of a feed survived validation
+export interface ValidationReport {
+  total: number;                                 // Items received from the feed
+  accepted: number;                              // Items turned into Disruptions
+  rejected: number;                              // Items dropped
+  reasonCounts: Partial<Record<RejectionReason, number>>; // Rejections per reason
+  rejectedRecords: RejectedRecord[];             // Details per dropped item
+  validatedAt: string;                           // ISO timestamp of the validation run
+}
+
+// Typed output of the validation layer
+export interface ValidationResult {
+  disruptions: Disruption[];                     // Valid, normalized, severity-sorted
+  report: ValidationReport;                      // What was dropped and why
+}
+
+// Result of one refresh of a disruption source
+export type FeedUpdate =
+  | ({ notModified: false } & ValidationResult)  // New payload, validated
+  | { notModified: true };                       // Feed unchanged since the last fetch (HTTP 304)
+
+// A record present in two consecutive refreshes that changed between them
+export interface DisruptionChange {
+  current: Disruption;                           // Version from this refresh
+  previous: Disruption;                          // Version from the previous refresh
+}
+
+// Structured difference between two consecutive refreshes
+export interface DisruptionChangeSet {
+  detectedAt: string;                            // ISO time of the refresh
+  isInitial: boolean;                            // First load - "added" holds the whole feed
+  added: Disruption[];                           // New ids
+  removed: Disruption[];                         // Ids gone from the feed (last known version)
+  escalated: DisruptionChange[];                 // Severity went up
+  reduced: DisruptionChange[];                   // Severity went down
+  updated: DisruptionChange[];                   // Same severity, comments/currentUpdate text changed
+}
+
+// Normalised feed served by the caching proxy (server/) at /api/disruptions
+export interface ProxySnapshot extends ValidationResult {
+  fetchedAt: string;                             // ISO time the proxy last got new data from TfL
+  checkedAt: string;                             // ISO time the proxy last polled TfL (incl. 304s)
+  isStale: boolean;                              // True when the latest poll failed and older data is served
+}
+
+// Available disruption source implementations (see services/disruptionSource)
+export type DisruptionSourceKind = 'tfl' | 'proxy' | 'fixture' | 'replay';
+
+// Validated feed captured at a point in time (persisted for offline use)
+export interface DisruptionSnapshot {
+  capturedAt: string;                            // ISO time the data was fetched
+  disruptions: Disruption[];
+  report: ValidationReport;
+}
+
+// Kind of change shown in the activity feed
+export type ActivityType = 'appeared' | 'escalated' | 'de-escalated' | 'update-changed' | 'cleared';
+
+// One line in the "what changed" activity feed
+export interface ActivityEntry {
+  key: string;                                   // Unique per entry (type + id + time)
+  type: ActivityType;
+  disruption: Disruption;                        // Version at the time of the change (last known if cleared)
+  previousSeverity?: Disruption['severity'];     // Set for escalations/de-escalations
+  detectedAt: string;                            // ISO time of the refresh that saw the change
+}
+
+// Outline of a user-drawn watch zone
+export type WatchZoneShape =
+  | { type: 'circle'; center: LngLat; radiusMeters: number }
+  | { type: 'polygon'; coordinates: LngLat[] };   // Closed ring, first point not repeated
+
+// Named area a user wants alerts for (persisted in localStorage)
+export interface WatchZone {
+  id: string;
+  name: string;                                  // e.g. "Park Royal depot"
+  shape: WatchZoneShape;
+  createdAt: string;                             // ISO time the zone was drawn
+}
+
+// Watch zone joined with the disruptions currently inside it
+export interface WatchZoneSummary {
+  zone: WatchZone;
+  disruptionCount: number;                       // Disruptions inside the zone
+  seriousCount: number;                          // ...of which Serious
+}
+
+// Saved road or search term the user wants notifications for (persisted in localStorage)
+export interface SavedWatch {
+  id: string;
+  term: string;                                  // e.g. "A12", "Blackwall Tunnel"
+  createdAt: string;                             // ISO time the watch was saved
+}
+
+// Saved watch joined with the disruptions currently matching it
+export interface SavedWatchSummary {
+  watch: SavedWatch;
+  matches: Disruption[];                         // Active matching disruptions, severity-sorted
+  seriousCount: number;                          // ...of which Serious
+}
+
+// Settings the notification service worker polls with (shared through IndexedDB)
+export interface NotificationWorkerConfig {
+  enabled: boolean;
+  feedUrl: string;                               // Absolute URL of the disruption feed
+  feedFormat: 'tfl' | 'proxy';                   // Raw TfL records or a ProxySnapshot
+  sourceKind: DisruptionSourceKind;              // Source whose last good snapshot the page saves
+  intervalMs: number;                            // Time between background checks
+  watches: SavedWatch[];                         // Watched roads/searches to notify about
+  mutes: DisruptionMute[];                       // Muted disruptions to leave out
+  acknowledged: IncidentRecord[];                // Acknowledged incidents (history left out) to leave out
+}
+
+// What the service worker remembers between checks
+export interface NotificationWorkerState {
+  checkedAt: string;                             // ISO time the last diffed feed describes (snapshot or fetch)
+  disruptions: Disruption[];                     // Feed at that check, diffed against the next
+}
+
+// One system notification to show
+export interface SystemNotification {
+  tag: string;                                   // Same tag replaces an older notification
+  title: string;
+  body: string;
+  disruptionId: string;                          // Selected when the notification is clicked
+}
+
+// Messages the page sends to the notification service worker
+export type NotificationWorkerMessage = { type: 'poll' };  // Check now and restart the timer
+
+// Messages the notification service worker sends to the page
+export type NotificationPageMessage = { type: 'select-disruption'; disruptionId: string };
+
+// Why a disruption is announced aloud
+export type AnnouncementKind = 'new' | 'escalated';
+
+// Short sound played before an announcement
+export type ChimeStyle = 'none' | 'bell' | 'beep' | 'rising';
+
+// Time of day range, local time (may wrap past midnight)
+export interface DailyWindow {
+  enabled: boolean;
+  start: string;                                 // "HH:MM", e.g. "22:00"
+  end: string;                                   // "HH:MM", e.g. "07:00"
+}
+
+// Daily window with no spoken announcements
+export type QuietHours = DailyWindow;
+
+// Spoken announcement mode settings (persisted in localStorage)
+export interface AnnouncementSettings {
+  enabled: boolean;
+  voiceURI: string | null;                       // SpeechSynthesisVoice.voiceURI; null = browser default
+  minSeverity: Disruption['severity'];           // Announce disruptions at or above this level
+  quietHours: QuietHours;
+  chimes: Record<AnnouncementKind, ChimeStyle>;  // Sound per announcement kind
+}
+
+// Kind of change an alert rule reacts to
+export type AlertRuleTrigger = 'added' | 'escalated' | 'reduced' | 'updated' | 'cleared';
+
+// What a change must look like for a rule to fire (empty lists match anything)
+export interface AlertRuleConditions {
+  triggers: AlertRuleTrigger[];                  // At least one
+  severities: Disruption['severity'][];
+  categories: string[];                          // Matches category or sub-category, case-insensitive
+  keywords: string[];                            // Any of these in comments or the current update
+  zoneId: string | null;                         // Only inside this watch zone
+  timeOfDay: DailyWindow;                        // Only during these hours (when enabled)
+}
+
+// What a rule does when it fires
+export interface AlertRuleActions {
+  toast: 'info' | 'warning' | 'error' | null;    // In-page alert type, or no toast
+  systemNotification: boolean;                   // Desktop notification (needs permission)
+  sound: ChimeStyle;
+  webhookUrl: string | null;                     // POST the matches as JSON
+}
+
+// User-defined alert rule (persisted in localStorage)
+export interface AlertRule {
+  id: string;
+  name: string;                                  // e.g. "Collisions near the depot"
+  enabled: boolean;
+  conditions: AlertRuleConditions;
+  actions: AlertRuleActions;
+  createdAt: string;                             // ISO time the rule was created
+}
+
+// Payload template a webhook target receives
+export type WebhookFormat = 'slack' | 'teams' | 'json';
+
+// Chat or incident tool that disruption changes are posted to (persisted in localStorage)
+export interface WebhookTarget {
+  id: string;
+  name: string;                                  // e.g. "#traffic-ops"
+  url: string;                                   // Incoming webhook URL
+  format: WebhookFormat;
+  enabled: boolean;
+  filters: AlertRuleConditions;                  // Which changes are posted
+  createdAt: string;                             // ISO time the target was added
+}
+
+// One attempt to post to a webhook target, kept in the delivery log
+export interface WebhookDelivery {
+  id: string;
+  targetId: string;
+  targetName: string;                            // Name at the time of delivery
+  sentAt: string;                                // ISO time of the first attempt
+  status: 'delivered' | 'failed';
+  attempts: number;                              // Including retries
+  httpStatus: number | null;                     // Last response status (null for network errors)
+  error: string | null;                          // Last failure message
+  eventCount: number;                            // Changes in the payload
+  isTest: boolean;                               // Sent with the "Send test" button
+}
+
+// How a muted disruption comes back
+export type MuteMode =
+  | 'snooze'                                     // At a set time
+  | 'until-severity-change';                     // When TfL raises or lowers its severity
+
+// Disruption left out of alerts and dimmed or hidden in the list and map (persisted in localStorage)
+export interface DisruptionMute {
+  disruptionId: string;
+  location: string;                              // Shown in the muted drawer
+  severity: Disruption['severity'];              // Severity when muted
+  mode: MuteMode;
+  until: string | null;                          // ISO end of a snooze (null for until-severity-change)
+  mutedAt: string;                               // ISO time the disruption was muted
+}
+
+// Kind of entry in a disruption's incident history
+export type IncidentEventType =
+  | 'acknowledged'
+  | 'assigned'
+  | 'unassigned'
+  | 'note'
+  | 'handled'
+  | 'reopened'
+  | 'changed';                                   // Disruption changed after it was acknowledged
+
+// One timestamped line in a disruption's incident history
+export interface IncidentEvent {
+  id: string;
+  type: IncidentEventType;
+  at: string;                                    // ISO time of the action
+  text: string | null;                           // Note text, assignee name or what changed
+}
+
+// Version of a disruption an operator acknowledged
+export interface IncidentAcknowledgement {
+  at: string;                                    // ISO time of the acknowledgement
+  severity: Disruption['severity'];              // Severity when acknowledged
+  currentUpdate: string;                         // Status update when acknowledged
+}
+
+// Operator record kept against a disruption id (persisted in localStorage)
+export interface IncidentRecord {
+  disruptionId: string;
+  location: string;                              // Last known location, for the export
+  acknowledgement: IncidentAcknowledgement | null; // Null when never acknowledged or changed since
+  assignee: string | null;                       // Named person handling it
+  handled: boolean;
+  history: IncidentEvent[];                      // Oldest first
+  updatedAt: string;                             // ISO time of the latest entry
+}
+
+// Operator action on a disruption, from the incident controls in the list
+export type IncidentAction =
+  | { type: 'acknowledge' }
+  | { type: 'assign'; assignee: string | null }  // Null unassigns
+  | { type: 'note'; text: string }
+  | { type: 'set-handled'; handled: boolean };
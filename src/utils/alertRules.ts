@@ -0,0 +1,206 @@
+// Alert rules engine - matches each refresh's changes against user-defined rules
+import type {
+  AlertRule,
+  AlertRuleConditions,
+  AlertRuleTrigger,
+  Disruption,
+  DisruptionChangeSet,
+  WatchZone
+} from '../types/disruption';
+import { isDisruptionInZone } from './watchZones';
+import { isWithinDailyWindow } from './timeWindows';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+// One change a rule looks at
+export interface ChangeEvent {
+  trigger: AlertRuleTrigger;
+  disruption: Disruption;                        // Version from the refresh (last known if cleared)
+  previousSeverity?: Disruption['severity'];     // Set for escalations/reductions
+}
+
+// A rule that fired, with every change that matched it
+export interface AlertRuleMatch {
+  rule: AlertRule;
+  events: ChangeEvent[];
+}
+
+// One change as sent in webhook JSON
+export interface WebhookEvent {
+  trigger: AlertRuleTrigger;
+  id: string;
+  location: string;
+  severity: Disruption['severity'];
+  previousSeverity?: Disruption['severity'];
+  category?: string;
+  subCategory?: string;
+  comments: string;
+  currentUpdate: string;
+  coordinates: [number, number];                 // [longitude, latitude]
+}
+
+// Body POSTed to a rule's webhook URL
+export interface AlertRuleWebhookPayload {
+  rule: { id: string; name: string };
+  detectedAt: string;                            // ISO time of the refresh
+  events: WebhookEvent[];
+}
+
+// Display names of the kinds of change, matching the activity feed
+export const TRIGGER_LABELS: Record<AlertRuleTrigger, string> = {
+  added: TEXT_CONSTANTS[74],
+  escalated: TEXT_CONSTANTS[75],
+  reduced: TEXT_CONSTANTS[76],
+  updated: TEXT_CONSTANTS[77],
+  cleared: TEXT_CONSTANTS[78]
+};
+
+/**
+ * Flattens a change set into one event per changed disruption
+ */
+export const listChangeEvents = (changeSet: DisruptionChangeSet): ChangeEvent[] => [
+  ...changeSet.added.map(disruption => ({ trigger: 'added' as const, disruption })),
+  ...changeSet.escalated.map(({ current, previous }) => ({
+    trigger: 'escalated' as const, disruption: current, previousSeverity: previous.severity
+  })),
+  ...changeSet.reduced.map(({ current, previous }) => ({
+    trigger: 'reduced' as const, disruption: current, previousSeverity: previous.severity
+  })),
+  ...changeSet.updated.map(({ current }) => ({ trigger: 'updated' as const, disruption: current })),
+  ...changeSet.removed.map(disruption => ({ trigger: 'cleared' as const, disruption }))
+];
+
+/**
+ * Splits comma-separated user input into trimmed, non-empty terms
+ * e.g. "Works, collision ," → ["Works", "collision"]
+ */
+export const parseTermList = (value: string): string[] =>
+  value.split(',').map(term => term.trim()).filter(Boolean);
+
+/**
+ * Checks one change against a rule's conditions
+ *
+ * Every condition must hold; an empty list or disabled window matches anything.
+ * A rule limited to a zone that has since been deleted matches nothing.
+ *
+ * @param event - Change to test
+ * @param conditions - Rule conditions
+ * @param zones - Saved watch zones, for the area condition
+ * @param now - Time of the refresh, for the time-of-day condition
+ */
+export const matchesRuleConditions = (
+  event: ChangeEvent,
+  conditions: AlertRuleConditions,
+  zones: WatchZone[],
+  now: Date
+): boolean => {
+  const { disruption } = event;
+  if (!conditions.triggers.includes(event.trigger)) return false;
+  if (conditions.severities.length > 0 && !conditions.severities.includes(disruption.severity)) return false;
+
+  if (conditions.categories.length > 0) {
+    const classification = `${disruption.category ?? ''} ${disruption.subCategory ?? ''}`.toLowerCase();
+    if (!conditions.categories.some(category => classification.includes(category.toLowerCase()))) return false;
+  }
+
+  if (conditions.keywords.length > 0) {
+    const text = `${disruption.comments} ${disruption.currentUpdate}`.toLowerCase();
+    if (!conditions.keywords.some(keyword => text.includes(keyword.toLowerCase()))) return false;
+  }
+
+  if (conditions.zoneId) {
+    const zone = zones.find(item => item.id === conditions.zoneId);
+    if (!zone || !isDisruptionInZone(disruption, zone)) return false;
+  }
+
+  return !conditions.timeOfDay.enabled || isWithinDailyWindow(now, conditions.timeOfDay);
+};
+
+/**
+ * One-line summary of a set of conditions, e.g. "Appeared · Serious · Park Royal · 07:00–19:00"
+ * Empty when the conditions match every change
+ */
+export const summarizeConditions = (conditions: AlertRuleConditions, zones: WatchZone[]): string => {
+  const zoneName = zones.find(zone => zone.id === conditions.zoneId)?.name;
+
+  return [
+    conditions.triggers.map(trigger => TRIGGER_LABELS[trigger]).join('/'),
+    conditions.severities.join('/'),
+    conditions.categories.join(', '),
+    conditions.keywords.map(keyword => `"${keyword}"`).join(', '),
+    zoneName,
+    conditions.timeOfDay.enabled ? `${conditions.timeOfDay.start}–${conditions.timeOfDay.end}` : null
+  ].filter(Boolean).join(' · ');
+};
+
+/**
+ * Evaluates every enabled rule against a refresh
+ * The initial load fires nothing - everything would count as added.
+ *
+ * @param changeSet - Change set of the refresh
+ * @param rules - Saved rules
+ * @param zones - Saved watch zones, for area conditions
+ * @returns AlertRuleMatch[] - Rules that fired, in rule order
+ */
+export const evaluateAlertRules = (
+  changeSet: DisruptionChangeSet,
+  rules: AlertRule[],
+  zones: WatchZone[]
+): AlertRuleMatch[] => {
+  if (changeSet.isInitial) return [];
+  const events = listChangeEvents(changeSet);
+  const now = new Date(changeSet.detectedAt);
+
+  return rules
+    .filter(rule => rule.enabled)
+    .map(rule => ({
+      rule,
+      events: events.filter(event => matchesRuleConditions(event, rule.conditions, zones, now))
+    }))
+    .filter(match => match.events.length > 0);
+};
+
+/**
+ * One-line description of a matched change, e.g. "Escalated: A2 Old Kent Road (Moderate → Serious)"
+ */
+export const describeRuleEvent = ({ trigger, disruption, previousSeverity }: ChangeEvent): string => {
+  switch (trigger) {
+    case 'added':
+      return `New: ${disruption.location} (${disruption.severity})`;
+    case 'escalated':
+      return `Escalated: ${disruption.location} (${previousSeverity} → ${disruption.severity})`;
+    case 'reduced':
+      return `Reduced: ${disruption.location} (${previousSeverity} → ${disruption.severity})`;
+    case 'updated':
+      return `Updated: ${disruption.location}`;
+    case 'cleared':
+      return `Cleared: ${disruption.location}`;
+  }
+};
+
+/**
+ * Flattens a change into the fields webhook receivers get
+ */
+export const toWebhookEvent = ({ trigger, disruption, previousSeverity }: ChangeEvent): WebhookEvent => ({
+  trigger,
+  id: disruption.id,
+  location: disruption.location,
+  severity: disruption.severity,
+  previousSeverity,
+  category: disruption.category,
+  subCategory: disruption.subCategory,
+  comments: disruption.comments,
+  currentUpdate: disruption.currentUpdate,
+  coordinates: disruption.geography.coordinates
+});
+
+/**
+ * Builds the JSON body sent to a rule's webhook
+ */
+export const buildRuleWebhookPayload = (
+  match: AlertRuleMatch,
+  detectedAt: string
+): AlertRuleWebhookPayload => ({
+  rule: { id: match.rule.id, name: match.rule.name },
+  detectedAt,
+  events: match.events.map(toWebhookEvent)
+});
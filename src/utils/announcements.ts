@@ -0,0 +1,95 @@
+// Spoken announcements - which changes to read out and how to phrase them
+import type {
+  AnnouncementKind,
+  Disruption,
+  DisruptionChangeSet
+} from '../types/disruption';
+import { SEVERITY_RANK } from './disruptionUtils';
+import { isResolved } from './resolvedDisruptions';
+
+// One disruption to read out
+export interface Announcement {
+  kind: AnnouncementKind;
+  disruption: Disruption;
+  text: string;                                  // e.g. "Serious disruption, A2 Old Kent Road, lane closures"
+}
+
+// Road numbers and postcodes stay upper case when the location is tidied for speech
+const ROAD_CODE_PATTERN = /^[A-Z]{1,2}\d/;
+
+/**
+ * Turns a TfL location into something a speech engine reads naturally
+ * e.g. "[A2] OLD KENT ROAD (SE1) (Southwark)" → "A2 Old Kent Road"
+ */
+export const toSpokenLocation = (location: string): string =>
+  location
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[[\]]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word =>
+      ROAD_CODE_PATTERN.test(word) || word !== word.toUpperCase()
+        ? word
+        : word.charAt(0) + word.slice(1).toLowerCase()
+    )
+    .join(' ');
+
+/**
+ * Short spoken description of what the disruption does to the road
+ * Closures first (e.g. "partial closure"), otherwise the TfL sub-category
+ */
+const describeImpact = (disruption: Disruption): string | null => {
+  const closure = disruption.streets.find(street => street.closure && street.closure !== 'Open')?.closure;
+  if (closure) return closure.toLowerCase();
+  if (disruption.hasClosures) return 'road closures';
+  return (disruption.subCategory ?? disruption.category)?.toLowerCase() ?? null;
+};
+
+/**
+ * Builds the sentence read out for a disruption
+ *
+ * @param kind - Why it is being announced
+ * @param disruption - Version from the refresh that triggered it
+ */
+export const describeAnnouncement = (kind: AnnouncementKind, disruption: Disruption): string => {
+  const lead = kind === 'escalated'
+    ? `Escalated to ${disruption.severity.toLowerCase()}`
+    : `${disruption.severity} disruption`;
+  return [lead, toSpokenLocation(disruption.location), describeImpact(disruption)]
+    .filter(Boolean)
+    .join(', ');
+};
+
+/**
+ * Finds the changes a refresh should announce
+ *
+ * - "new": appeared at or above the severity threshold
+ * - "escalated": went up in severity and is now at or above the threshold
+ * The initial load announces nothing - everything would count as new.
+ *
+ * @param changeSet - Change set of the refresh
+ * @param minSeverity - Lowest severity worth announcing
+ * @returns Announcement[] - Most severe first, new before escalated at the same level
+ */
+export const findAnnouncements = (
+  changeSet: DisruptionChangeSet,
+  minSeverity: Disruption['severity']
+): Announcement[] => {
+  if (changeSet.isInitial) return [];
+  const isLoudEnough = (disruption: Disruption) =>
+    SEVERITY_RANK[disruption.severity] >= SEVERITY_RANK[minSeverity];
+
+  const announcements: Announcement[] = [
+    ...changeSet.added
+      .filter(disruption => !isResolved(disruption) && isLoudEnough(disruption))
+      .map(disruption => ({ kind: 'new' as const, disruption })),
+    ...changeSet.escalated
+      .filter(({ current }) => isLoudEnough(current))
+      .map(({ current }) => ({ kind: 'escalated' as const, disruption: current }))
+  ].map(item => ({ ...item, text: describeAnnouncement(item.kind, item.disruption) }));
+
+  // Stable sort keeps "new" ahead of "escalated" within a severity
+  return announcements.sort(
+    (a, b) => SEVERITY_RANK[b.disruption.severity] - SEVERITY_RANK[a.disruption.severity]
+  );
+};
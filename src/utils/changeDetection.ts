@@ -0,0 +1,155 @@
+// Change detection between consecutive disruption refreshes
+import type {
+  ActivityEntry,
+  ActivityType,
+  Disruption,
+  DisruptionChange,
+  DisruptionChangeSet
+} from '../types/disruption';
+import { SEVERITY_RANK } from './disruptionUtils';
+
+/**
+ * Checks whether two versions of a disruption carry exactly the same data
+ * Used to keep object identity for untouched records across refreshes
+ */
+const isSameRecord = (a: Disruption, b: Disruption): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Checks whether the human-readable text of a disruption changed
+ */
+const hasTextChanged = (current: Disruption, previous: Disruption): boolean =>
+  current.comments !== previous.comments || current.currentUpdate !== previous.currentUpdate;
+
+/**
+ * Builds an empty change set - used for unchanged feeds (HTTP 304)
+ *
+ * @param detectedAt - ISO time of the refresh
+ */
+export const createEmptyChangeSet = (detectedAt: string): DisruptionChangeSet => ({
+  detectedAt,
+  isInitial: false,
+  added: [],
+  removed: [],
+  escalated: [],
+  reduced: [],
+  updated: []
+});
+
+/**
+ * Computes the structured difference between two refreshes
+ * 
+ * Records are matched by id:
+ * - added: id only in the new list
+ * - removed: id only in the previous list (the last known version is kept)
+ * - escalated / reduced: severity rank went up / down
+ * - updated: same severity but comments or currentUpdate text changed
+ * 
+ * A record whose severity and text both changed is reported once, as an
+ * escalation or reduction - consumers read the new text from `current`.
+ * 
+ * @param previous - Disruptions from the previous refresh
+ * @param next - Disruptions from this refresh
+ * @param options - isInitial marks the first load of a session
+ * @returns DisruptionChangeSet - What changed between the two lists
+ */
+export const diffDisruptions = (
+  previous: Disruption[],
+  next: Disruption[],
+  { isInitial = false, detectedAt = new Date().toISOString() }: { isInitial?: boolean; detectedAt?: string } = {}
+): DisruptionChangeSet => {
+  const changeSet = createEmptyChangeSet(detectedAt);
+  changeSet.isInitial = isInitial;
+
+  const previousById = new Map(previous.map(disruption => [disruption.id, disruption]));
+  const nextIds = new Set(next.map(disruption => disruption.id));
+
+  next.forEach(current => {
+    const before = previousById.get(current.id);
+    if (!before) {
+      changeSet.added.push(current);
+      return;
+    }
+
+    const change: DisruptionChange = { current, previous: before };
+    const rankDelta = SEVERITY_RANK[current.severity] - SEVERITY_RANK[before.severity];
+    if (rankDelta > 0) changeSet.escalated.push(change);
+    else if (rankDelta < 0) changeSet.reduced.push(change);
+    else if (hasTextChanged(current, before)) changeSet.updated.push(change);
+  });
+
+  changeSet.removed = previous.filter(disruption => !nextIds.has(disruption.id));
+
+  return changeSet;
+};
+
+/**
+ * Checks whether a change set contains any change at all
+ */
+export const isEmptyChangeSet = (changeSet: DisruptionChangeSet): boolean =>
+  changeSet.added.length === 0 &&
+  changeSet.removed.length === 0 &&
+  changeSet.escalated.length === 0 &&
+  changeSet.reduced.length === 0 &&
+  changeSet.updated.length === 0;
+
+/**
+ * Applies a refresh incrementally instead of replacing the whole list
+ * 
+ * Untouched records keep their previous object, so memoized components and
+ * effects keyed on a disruption don't re-run; only changed records are swapped.
+ * Order follows the new list (which is severity-sorted by validation).
+ * 
+ * @param previous - Disruptions currently held in state
+ * @param next - Disruptions from this refresh
+ * @returns Disruption[] - Merged list, or `previous` itself if nothing changed
+ */
+export const mergeDisruptions = (previous: Disruption[], next: Disruption[]): Disruption[] => {
+  const previousById = new Map(previous.map(disruption => [disruption.id, disruption]));
+  let hasChanges = previous.length !== next.length;
+
+  const merged = next.map((current, index) => {
+    const before = previousById.get(current.id);
+    if (before && isSameRecord(before, current)) {
+      if (previous[index] !== before) hasChanges = true;
+      return before;
+    }
+    hasChanges = true;
+    return current;
+  });
+
+  return hasChanges ? merged : previous;
+};
+
+/**
+ * Turns a change set into activity feed entries, most severe changes first
+ * 
+ * Text-only updates are listed only when currentUpdate changed - edits to
+ * the long description alone aren't worth a feed line. The initial load
+ * produces no entries: nothing "changed", the session just started.
+ * 
+ * @param changeSet - Result of diffDisruptions for one refresh
+ * @returns ActivityEntry[] - Entries for this refresh
+ */
+export const toActivityEntries = (changeSet: DisruptionChangeSet): ActivityEntry[] => {
+  if (changeSet.isInitial) return [];
+  const { detectedAt } = changeSet;
+
+  const entry = (type: ActivityType, disruption: Disruption, previous?: Disruption): ActivityEntry => ({
+    key: `${type}:${disruption.id}:${detectedAt}`,
+    type,
+    disruption,
+    previousSeverity: previous?.severity,
+    detectedAt
+  });
+
+  return [
+    ...changeSet.escalated.map(({ current, previous }) => entry('escalated', current, previous)),
+    ...changeSet.added.map(disruption => entry('appeared', disruption)),
+    ...changeSet.reduced.map(({ current, previous }) => entry('de-escalated', current, previous)),
+    ...changeSet.updated
+      .filter(({ current, previous }) => current.currentUpdate !== previous.currentUpdate)
+      .map(({ current }) => entry('update-changed', current)),
+    ...changeSet.removed.map(disruption => entry('cleared', disruption))
+  ];
+};
@@ -1,5 +1,7 @@
 // Shared utilities for disruption display
 import { TEXT_CONSTANTS } from '../constants/text';
+import { isResolved } from './resolvedDisruptions';
+import type { ActivityType, Disruption, DisruptionStreet, FacetCount, RejectionReason } from '../types/disruption';
 
 /**
  * Returns color configuration for disruption severity levels
@@ -48,6 +50,8 @@ export const formatStatus = (status: string): string => {
   switch (status) {
     case 'Active':
       return TEXT_CONSTANTS[33]; // "Currently Active"
+    case 'Scheduled':
+      return TEXT_CONSTANTS[274]; // "Scheduled"
     case 'Inactive':
       return TEXT_CONSTANTS[34]; // "Resolved"
     default:
@@ -63,3 +67,229 @@ export const formatCoordinates = (coordinates: [number, number]): string => {
   const [longitude, latitude] = coordinates;
   return `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`;
 };
+
+/**
+ * Formats an ISO date-time string for display in cards and popups
+ * Returns null for missing or unparseable values so callers can skip the row
+ */
+export const formatDateTime = (value?: string): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+/**
+ * Formats when a set of data was captured: "14:32" today, "12 Oct, 14:32" otherwise
+ */
+export const formatCaptureTime = (date: Date): string => {
+  const time = date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+  if (date.toDateString() === new Date().toDateString()) return time;
+  return `${date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })}, ${time}`;
+};
+
+/**
+ * Builds a "start → end" label from a disruption's schedule
+ * Open-ended disruptions show only the known side of the range
+ */
+export const formatSchedule = (disruption: Disruption): string | null => {
+  const start = formatDateTime(disruption.startDateTime);
+  const end = formatDateTime(disruption.endDateTime);
+  if (start && end) return `${start} → ${end}`;
+  if (start) return `${TEXT_CONSTANTS[40]} ${start}`;
+  if (end) return `${TEXT_CONSTANTS[41]} ${end}`;
+  return null;
+};
+
+// How soon a disruption starts or ends, shown on its card
+export interface TimingLabel {
+  text: string;                                  // e.g. "Starts in 3h", "Ends tomorrow"
+  tone: 'upcoming' | 'ending' | 'overrunning';
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Whole calendar days from one moment to another (local time)
+ */
+const calendarDaysBetween = (from: number, to: number): number => {
+  const start = new Date(from);
+  const end = new Date(to);
+  const startDay = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate());
+  const endDay = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate());
+  return Math.round((endDay - startDay) / (24 * HOUR_MS));
+};
+
+/**
+ * Describes how far off a future moment is
+ * e.g. "in 45m", "in 3h", "tomorrow", "on Friday", "on 14 Nov"
+ */
+const formatTimeUntil = (time: number, now: number): string => {
+  const remaining = time - now;
+  const days = calendarDaysBetween(now, time);
+  if (remaining < HOUR_MS) return `${TEXT_CONSTANTS[267]} ${Math.max(1, Math.floor(remaining / MINUTE_MS))}m`;
+  if (days === 0 || remaining < 12 * HOUR_MS) return `${TEXT_CONSTANTS[267]} ${Math.round(remaining / HOUR_MS)}h`;
+  if (days === 1) return TEXT_CONSTANTS[268];
+  const date = new Date(time);
+  return `${TEXT_CONSTANTS[269]} ${days < 7
+    ? date.toLocaleDateString('en-GB', { weekday: 'long' })
+    : date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })}`;
+};
+
+/**
+ * Labels when a disruption starts (if it hasn't yet) or is due to end
+ * e.g. "Starts in 3h", "Ends tomorrow", or "Overrunning" past its end time
+ *
+ * @param disruption - Disruption to describe
+ * @param now - Current time (ms)
+ * @returns TimingLabel, or null when TfL gave no time worth showing (or it has resolved)
+ */
+export const getTimingLabel = (disruption: Disruption, now: number): TimingLabel | null => {
+  if (isResolved(disruption)) return null;
+  const start = disruption.startDateTime ? Date.parse(disruption.startDateTime) : NaN;
+  if (start > now) {
+    return { text: `${TEXT_CONSTANTS[265]} ${formatTimeUntil(start, now)}`, tone: 'upcoming' };
+  }
+
+  const end = disruption.endDateTime ? Date.parse(disruption.endDateTime) : NaN;
+  if (Number.isNaN(end)) return null;
+  if (end < now) return { text: TEXT_CONSTANTS[270], tone: 'overrunning' };
+  return { text: `${TEXT_CONSTANTS[266]} ${formatTimeUntil(end, now)}`, tone: 'ending' };
+};
+
+/**
+ * Joins category and sub-category into a single classification label
+ * e.g. "Works · Utility Works"; null when TfL supplied neither
+ */
+export const formatCategory = (disruption: Disruption): string | null => {
+  const parts = [disruption.category, disruption.subCategory]
+    .filter((part): part is string => !!part && part !== 'Undefined');
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+/**
+ * Reads a classification field for filtering - missing or "Undefined" becomes "Other"
+ */
+const toFacetValue = (value?: string): string =>
+  value && value !== 'Undefined' ? value : TEXT_CONSTANTS[254];
+
+/**
+ * Category a disruption is filtered and counted under, e.g. "Works"
+ */
+export const getCategoryValue = (disruption: Disruption): string => toFacetValue(disruption.category);
+
+/**
+ * Sub-category a disruption is filtered and counted under, e.g. "Utility Works"
+ */
+export const getSubCategoryValue = (disruption: Disruption): string => toFacetValue(disruption.subCategory);
+
+/**
+ * Orders facet values most common first, then alphabetically
+ */
+export const sortFacetCounts = (counts: Map<string, number>): FacetCount[] =>
+  Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+/**
+ * Counts disruptions per category, most common first
+ * e.g. for the map's stats overlay
+ */
+export const countByCategory = (disruptions: Disruption[]): FacetCount[] => {
+  const counts = new Map<string, number>();
+  for (const disruption of disruptions) {
+    const category = getCategoryValue(disruption);
+    counts.set(category, (counts.get(category) ?? 0) + 1);
+  }
+  return sortFacetCounts(counts);
+};
+
+/**
+ * Describes an affected street with its closure and direction details
+ * e.g. "Old Kent Road (Partial Closure, Northbound)"
+ */
+export const formatStreet = (street: DisruptionStreet): string => {
+  const details = [street.closure, street.directions].filter(Boolean);
+  return details.length > 0 ? `${street.name} (${details.join(', ')})` : street.name;
+};
+
+/**
+ * Formats corridor IDs (e.g. "a406") as road names (e.g. "A406")
+ */
+export const formatCorridors = (corridorIds: string[]): string =>
+  corridorIds.map(id => id.toUpperCase()).join(', ');
+
+/**
+ * Numeric priority for each severity level (higher = more severe)
+ * Used for sorting and for detecting escalations between refreshes
+ */
+export const SEVERITY_RANK: Record<Disruption['severity'], number> = {
+  Serious: 3,   // Highest priority - shows first
+  Moderate: 2,  // Medium priority - shows second
+  Minimal: 1    // Lowest priority - shows last
+};
+
+/**
+ * Display labels for validation rejection reasons
+ * Shared by the data quality panel and data quality alerts
+ */
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = {
+  'not-an-object': 'Malformed record',
+  'missing-id': 'Missing ID',
+  'missing-location': 'Missing location',
+  'missing-severity': 'Missing severity',
+  'unknown-severity': 'Unknown severity',
+  'missing-comments': 'Missing description',
+  'missing-current-update': 'Missing current update',
+  'missing-status': 'Missing status',
+  'unknown-status': 'Unknown status',
+  'missing-coordinates': 'Missing coordinates',
+  'out-of-bounds': 'Outside London bounds'
+};
+
+/**
+ * Returns color configuration for TfL road corridor status severities
+ * Corridor statuses ("Good", "Serious", "Closure"...) differ from disruption severities
+ */
+export const getCorridorStatusConfig = (statusSeverity: string) => {
+  switch (statusSeverity) {
+    case 'Closure':
+    case 'Severe':
+    case 'Serious':
+      return { dotColor: 'bg-red-500', textColor: 'text-red-700' };
+    case 'Moderate':
+      return { dotColor: 'bg-orange-500', textColor: 'text-orange-700' };
+    case 'Minor':
+    case 'Minimal':
+      return { dotColor: 'bg-yellow-500', textColor: 'text-yellow-700' };
+    case 'Good':
+      return { dotColor: 'bg-green-500', textColor: 'text-green-700' };
+    default:
+      // Unknown status - corridor only known from disruption corridorIds
+      return { dotColor: 'bg-gray-400', textColor: 'text-gray-500' };
+  }
+};
+
+/**
+ * Returns label and colors for an activity feed entry type
+ * Escalations and new disruptions stand out; improvements are muted
+ */
+export const getActivityConfig = (type: ActivityType) => {
+  switch (type) {
+    case 'appeared':
+      return { label: TEXT_CONSTANTS[74], dotColor: 'bg-blue-500', textColor: 'text-blue-700' };
+    case 'escalated':
+      return { label: TEXT_CONSTANTS[75], dotColor: 'bg-red-500', textColor: 'text-red-700' };
+    case 'de-escalated':
+      return { label: TEXT_CONSTANTS[76], dotColor: 'bg-green-500', textColor: 'text-green-700' };
+    case 'update-changed':
+      return { label: TEXT_CONSTANTS[77], dotColor: 'bg-slate-400', textColor: 'text-slate-600' };
+    case 'cleared':
+      return { label: TEXT_CONSTANTS[78], dotColor: 'bg-gray-300', textColor: 'text-gray-500' };
+  }
+};
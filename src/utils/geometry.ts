@@ -0,0 +1,185 @@
+// Geometry helpers for TfL disruption shapes
+import type { DisruptionShape, LngLat } from '../types/disruption';
+
+/**
+ * Type guard for a single [longitude, latitude] pair
+ */
+const isPosition = (value: unknown): value is LngLat =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === 'number' &&
+  typeof value[1] === 'number' &&
+  Number.isFinite(value[0]) &&
+  Number.isFinite(value[1]);
+
+/**
+ * Converts a raw coordinate list into clean [lng, lat] pairs
+ * Drops malformed points and any altitude component
+ */
+const toPath = (value: unknown): LngLat[] =>
+  Array.isArray(value)
+    ? value.filter(isPosition).map(([lng, lat]) => [lng, lat] as LngLat)
+    : [];
+
+/**
+ * Parses a WKT (Well-Known Text) geometry such as
+ * "MULTILINESTRING ((-0.1 51.5, -0.2 51.6))" into shapes
+ * TfL occasionally returns line data in this format instead of JSON
+ */
+const parseWkt = (wkt: string): DisruptionShape[] => {
+  const match = wkt.trim().match(/^(MULTI)?(LINESTRING|POLYGON)\s*\((.*)\)$/i);
+  if (!match) return [];
+
+  const type = match[2].toUpperCase() === 'POLYGON' ? 'polygon' : 'line';
+  // Each innermost "( ... )" group is one path of "lng lat" pairs
+  const groups = match[3].match(/\(([^()]+)\)/g) ?? [`(${match[3]})`];
+
+  return groups
+    .map(group => group.replace(/[()]/g, '').split(',').map(pair => {
+      const [lng, lat] = pair.trim().split(/\s+/).map(Number);
+      return [lng, lat];
+    }))
+    .map(path => ({ type, coordinates: toPath(path) } as DisruptionShape))
+    .filter(shape => shape.coordinates.length >= 2);
+};
+
+/**
+ * Converts a GeoJSON-style geometry object into disruption shapes
+ *
+ * Supported types: LineString, MultiLineString, Polygon, MultiPolygon.
+ * Polygons keep only their outer ring - holes are irrelevant for road closures.
+ * Points are ignored here; they are handled as the marker position.
+ *
+ * @param geometry - Raw geometry object from the TfL API
+ * @returns DisruptionShape[] - Drawable shapes (empty if none are usable)
+ */
+export const parseGeoJsonGeometry = (geometry: unknown): DisruptionShape[] => {
+  if (!geometry || typeof geometry !== 'object') return [];
+  const { type, coordinates } = geometry as { type?: unknown; coordinates?: unknown };
+  if (!Array.isArray(coordinates)) return [];
+
+  const shapes: DisruptionShape[] = [];
+  switch (type) {
+    case 'LineString':
+      shapes.push({ type: 'line', coordinates: toPath(coordinates) });
+      break;
+    case 'MultiLineString':
+      coordinates.forEach(line => shapes.push({ type: 'line', coordinates: toPath(line) }));
+      break;
+    case 'Polygon':
+      shapes.push({ type: 'polygon', coordinates: toPath(coordinates[0]) });
+      break;
+    case 'MultiPolygon':
+      coordinates.forEach(polygon => {
+        if (Array.isArray(polygon)) {
+          shapes.push({ type: 'polygon', coordinates: toPath(polygon[0]) });
+        }
+      });
+      break;
+  }
+
+  return shapes.filter(shape => shape.coordinates.length >= 2);
+};
+
+/**
+ * Parses a TfL roadDisruptionLines[].multiLineString value
+ *
+ * The field arrives either as a JSON-encoded nested array ("[[[lng,lat],...]]"),
+ * as an already-decoded array, or as WKT text. All three are accepted.
+ *
+ * @param value - Raw multiLineString field
+ * @returns DisruptionShape[] - One line shape per path
+ */
+export const parseMultiLineString = (value: unknown): DisruptionShape[] => {
+  let lines: unknown = value;
+
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (!text.startsWith('[')) return parseWkt(text);
+    try {
+      lines = JSON.parse(text);
+    } catch {
+      return [];
+    }
+  }
+
+  if (!Array.isArray(lines)) return [];
+  // A single LineString ([[lng,lat],...]) is wrapped so both depths are handled alike
+  const paths = isPosition(lines[0]) ? [lines] : lines;
+
+  return paths
+    .map(path => ({ type: 'line', coordinates: toPath(path) } as DisruptionShape))
+    .filter(shape => shape.coordinates.length >= 2);
+};
+
+/**
+ * Returns a representative point for a set of shapes
+ *
+ * Uses the middle vertex of the first shape, which always lies on the road
+ * (unlike a centroid, which can fall off a curved line).
+ *
+ * @param shapes - Parsed disruption shapes
+ * @returns [longitude, latitude] or null when there are no shapes
+ */
+export const getShapeAnchor = (shapes: DisruptionShape[]): LngLat | null => {
+  const first = shapes.find(shape => shape.coordinates.length > 0);
+  if (!first) return null;
+  return first.coordinates[Math.floor(first.coordinates.length / 2)];
+};
+
+/**
+ * Computes the bounding box of a set of shapes
+ *
+ * @returns [[minLat, minLng], [maxLat, maxLng]] as expected by Leaflet, or null
+ */
+export const getShapeBounds = (
+  shapes: DisruptionShape[]
+): [[number, number], [number, number]] | null => {
+  const points = shapes.flatMap(shape => shape.coordinates);
+  if (points.length === 0) return null;
+
+  const lats = points.map(([, lat]) => lat);
+  const lngs = points.map(([lng]) => lng);
+  return [
+    [Math.min(...lats), Math.min(...lngs)],
+    [Math.max(...lats), Math.max(...lngs)],
+  ];
+};
+
+// Mean Earth radius used for distance calculations
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ *
+ * @returns Distance in metres
+ */
+export const getDistanceMeters = ([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Checks whether a point lies inside a polygon ring (ray casting)
+ * Treats lng/lat as planar, which is accurate enough at city scale
+ *
+ * @param point - [longitude, latitude] to test
+ * @param ring - Polygon vertices in order (closing point optional)
+ */
+export const isPointInPolygon = ([lng, lat]: LngLat, ring: LngLat[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    const crosses =
+      latI > lat !== latJ > lat &&
+      lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
@@ -0,0 +1,139 @@
+// Operator incident log - acknowledgements, assignments, notes and handled status per disruption
+import type {
+  Disruption,
+  DisruptionChange,
+  DisruptionChangeSet,
+  IncidentAction,
+  IncidentEvent,
+  IncidentRecord
+} from '../types/disruption';
+import { listChangeEvents, TRIGGER_LABELS } from './alertRules';
+
+// Exported incident log file
+export interface IncidentLogExport {
+  source: 'london-traffic-live';
+  exportedAt: string;                            // ISO time of the export
+  incidents: IncidentRecord[];                   // Most recently updated first
+}
+
+/**
+ * Checks whether a disruption is still the version an operator acknowledged
+ * Severity and status update are compared; other edits don't end an acknowledgement
+ */
+export const isAcknowledgementCurrent = (record: IncidentRecord | undefined, disruption: Disruption): boolean =>
+  !!record?.acknowledgement &&
+  record.acknowledgement.severity === disruption.severity &&
+  record.acknowledgement.currentUpdate === disruption.currentUpdate;
+
+/**
+ * Applies an operator action to a disruption's record
+ * 
+ * @param record - Existing record (undefined for the first action on a disruption)
+ * @param disruption - Current version of the disruption
+ * @param action - What the operator did
+ * @param now - Time of the action
+ * @returns New record with the action applied and logged
+ */
+export const applyIncidentAction = (
+  record: IncidentRecord | undefined,
+  disruption: Disruption,
+  action: IncidentAction,
+  now = new Date()
+): IncidentRecord => {
+  const at = now.toISOString();
+  const base: IncidentRecord = record ?? {
+    disruptionId: disruption.id,
+    location: disruption.location,
+    acknowledgement: null,
+    assignee: null,
+    handled: false,
+    history: [],
+    updatedAt: at
+  };
+  const log = (type: IncidentEvent['type'], text: string | null = null): IncidentEvent[] =>
+    [...base.history, { id: crypto.randomUUID(), type, at, text }];
+  const updated = { ...base, location: disruption.location, updatedAt: at };
+
+  switch (action.type) {
+    case 'acknowledge':
+      return {
+        ...updated,
+        acknowledgement: { at, severity: disruption.severity, currentUpdate: disruption.currentUpdate },
+        history: log('acknowledged')
+      };
+    case 'assign':
+      return action.assignee
+        ? { ...updated, assignee: action.assignee, history: log('assigned', action.assignee) }
+        : { ...updated, assignee: null, history: log('unassigned', base.assignee) };
+    case 'note':
+      return { ...updated, history: log('note', action.text) };
+    case 'set-handled':
+      return { ...updated, handled: action.handled, history: log(action.handled ? 'handled' : 'reopened') };
+  }
+};
+
+/**
+ * Removes changes to acknowledged, unchanged disruptions from a change set
+ * 
+ * A change whose new version still has the acknowledged severity and status
+ * update (e.g. a disruption dropping out of the feed and coming back) isn't
+ * alerted again. Escalations, reductions, new status updates and clearances
+ * are real changes and still come through.
+ * 
+ * @param changeSet - Changes from one refresh
+ * @param records - Incident records by disruption id
+ * @returns The same change set when nothing is acknowledged, otherwise a filtered copy
+ */
+export const removeAcknowledgedChanges = (
+  changeSet: DisruptionChangeSet,
+  records: Map<string, IncidentRecord>
+): DisruptionChangeSet => {
+  if (![...records.values()].some(record => record.acknowledgement)) return changeSet;
+  const isNew = (disruption: Disruption): boolean =>
+    !isAcknowledgementCurrent(records.get(disruption.id), disruption);
+  const keepChange = ({ current }: DisruptionChange): boolean => isNew(current);
+
+  return {
+    ...changeSet,
+    added: changeSet.added.filter(isNew),
+    escalated: changeSet.escalated.filter(keepChange),
+    reduced: changeSet.reduced.filter(keepChange),
+    updated: changeSet.updated.filter(keepChange)
+  };
+};
+
+/**
+ * Ends acknowledgements of disruptions that changed in a refresh
+ * 
+ * @param changeSet - Changes from one refresh
+ * @param records - Incident records by disruption id
+ * @returns Updated records (with a "changed" history entry) for every lapsed acknowledgement
+ */
+export const lapseAcknowledgements = (
+  changeSet: DisruptionChangeSet,
+  records: Map<string, IncidentRecord>
+): IncidentRecord[] =>
+  listChangeEvents(changeSet).flatMap(({ trigger, disruption }) => {
+    const record = records.get(disruption.id);
+    if (!record?.acknowledgement) return [];
+    if (trigger !== 'cleared' && isAcknowledgementCurrent(record, disruption)) return [];
+
+    return [{
+      ...record,
+      acknowledgement: null,
+      history: [
+        ...record.history,
+        { id: crypto.randomUUID(), type: 'changed' as const, at: changeSet.detectedAt, text: TRIGGER_LABELS[trigger] }
+      ],
+      updatedAt: changeSet.detectedAt
+    }];
+  });
+
+/**
+ * Builds the JSON export of the incident log
+ */
+export const buildIncidentLogExport = (records: IncidentRecord[], exportedAt = new Date()): IncidentLogExport => ({
+  source: 'london-traffic-live',
+  exportedAt: exportedAt.toISOString(),
+  incidents: [...records].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+});
@@ -0,0 +1,82 @@
+// Snoozed and muted disruptions - when a mute ends and which changes it hides
+import type {
+  Disruption,
+  DisruptionChange,
+  DisruptionChangeSet,
+  DisruptionMute,
+  MuteMode
+} from '../types/disruption';
+
+/**
+ * Creates a mute for a disruption
+ * 
+ * @param disruption - Disruption to mute (its current severity is remembered)
+ * @param mode - Snooze until a set time, or mute until the severity changes
+ * @param durationMs - Snooze length (ignored for until-severity-change)
+ * @param now - Time the mute starts
+ */
+export const createMute = (
+  disruption: Disruption,
+  mode: MuteMode,
+  durationMs = 0,
+  now = new Date()
+): DisruptionMute => ({
+  disruptionId: disruption.id,
+  location: disruption.location,
+  severity: disruption.severity,
+  mode,
+  until: mode === 'snooze' ? new Date(now.getTime() + durationMs).toISOString() : null,
+  mutedAt: now.toISOString()
+});
+
+/**
+ * Checks whether a mute has run out
+ * 
+ * @param mute - Mute to check
+ * @param current - Latest version of the disruption (undefined when not known)
+ * @param now - Time to check at
+ * @returns True once a snooze has ended or the severity differs from when it was muted
+ */
+export const isMuteExpired = (mute: DisruptionMute, current: Disruption | undefined, now: Date): boolean => {
+  if (mute.mode === 'snooze') return mute.until === null || Date.parse(mute.until) <= now.getTime();
+  return current !== undefined && current.severity !== mute.severity;
+};
+
+/**
+ * Indexes mutes by disruption id
+ */
+export const indexMutes = (mutes: DisruptionMute[]): Map<string, DisruptionMute> =>
+  new Map(mutes.map(mute => [mute.disruptionId, mute]));
+
+/**
+ * Removes changes to muted disruptions from a change set
+ * 
+ * Each change is checked against its new version, so a disruption muted
+ * until its severity changes still alerts when it escalates or de-escalates.
+ * Used before alerting: toasts, watch zones, rules, webhooks, announcements
+ * and desktop notifications all see the same filtered changes.
+ * 
+ * @param changeSet - Changes from one refresh
+ * @param mutes - Current mutes
+ * @returns The same change set when nothing is muted, otherwise a filtered copy
+ */
+export const removeMutedChanges = (changeSet: DisruptionChangeSet, mutes: DisruptionMute[]): DisruptionChangeSet => {
+  if (mutes.length === 0) return changeSet;
+  const mutesById = indexMutes(mutes);
+  const now = new Date(changeSet.detectedAt);
+
+  const isMuted = (disruption: Disruption): boolean => {
+    const mute = mutesById.get(disruption.id);
+    return mute !== undefined && !isMuteExpired(mute, disruption, now);
+  };
+  const keepChange = ({ current }: DisruptionChange): boolean => !isMuted(current);
+
+  return {
+    ...changeSet,
+    added: changeSet.added.filter(disruption => !isMuted(disruption)),
+    removed: changeSet.removed.filter(disruption => !isMuted(disruption)),
+    escalated: changeSet.escalated.filter(keepChange),
+    reduced: changeSet.reduced.filter(keepChange),
+    updated: changeSet.updated.filter(keepChange)
+  };
+};
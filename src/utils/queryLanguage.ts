@@ -0,0 +1,573 @@
+// Search query language - field qualifiers, negation, OR and relative times
+// e.g. severity:serious road:A406 updated:<2h -works
+import type { Disruption } from '../types/disruption';
+import { SEVERITY_RANK } from './disruptionUtils';
+import { containsSearchPhrase, matchesSearchText, normaliseText } from './search';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+// One test in the filterDisruptions pipeline
+export type DisruptionPredicate = (disruption: Disruption) => boolean;
+
+export type ComparisonOperator = '=' | '<' | '<=' | '>' | '>=';
+
+// How a field's value is read and compared
+type QueryFieldKind =
+  | 'text'                                       // Words to find, e.g. road:A406
+  | 'choice'                                     // One of a fixed list, e.g. is:closure
+  | 'severity'                                   // A severity level, comparable with < and >
+  | 'age'                                        // Time since a moment, e.g. updated:<2h
+  | 'countdown';                                 // Time until a moment, e.g. ends:<3h
+
+interface QueryFieldDefinition {
+  kind: QueryFieldKind;
+  description: string;                           // Shown in autocomplete and the syntax help
+  values?: string[];                             // Suggested values (the only valid ones for choices)
+}
+
+// Fields that can qualify a search term, in the order autocomplete lists them
+export const QUERY_FIELDS = {
+  severity: { kind: 'severity', description: TEXT_CONSTANTS[238], values: ['serious', 'moderate', 'minimal'] },
+  road: { kind: 'text', description: TEXT_CONSTANTS[239] },
+  street: { kind: 'text', description: TEXT_CONSTANTS[240] },
+  location: { kind: 'text', description: TEXT_CONSTANTS[241] },
+  category: { kind: 'text', description: TEXT_CONSTANTS[242] },
+  status: { kind: 'choice', description: TEXT_CONSTANTS[243], values: ['active', 'scheduled', 'inactive'] },
+  is: { kind: 'choice', description: TEXT_CONSTANTS[244], values: ['closure', 'provisional', 'recurring'] },
+  updated: { kind: 'age', description: TEXT_CONSTANTS[245], values: ['<1h', '<24h', '>7d'] },
+  starts: { kind: 'countdown', description: TEXT_CONSTANTS[246], values: ['<3h', '<24h', '>7d'] },
+  ends: { kind: 'countdown', description: TEXT_CONSTANTS[247], values: ['<3h', '<24h', '>7d'] }
+} satisfies Record<string, QueryFieldDefinition>;
+
+export type QueryFieldName = keyof typeof QUERY_FIELDS;
+
+// Shorter or alternative names accepted for fields
+const FIELD_ALIASES: Record<string, QueryFieldName> = {
+  sev: 'severity',
+  corridor: 'road',
+  loc: 'location',
+  cat: 'category'
+};
+
+// Operators and syntax explained under the search box
+export const QUERY_SYNTAX_HELP: { syntax: string; description: string }[] = [
+  { syntax: '-term', description: TEXT_CONSTANTS[248] },
+  { syntax: 'a OR b', description: TEXT_CONSTANTS[249] },
+  { syntax: '( )', description: TEXT_CONSTANTS[250] },
+  { syntax: '"…"', description: TEXT_CONSTANTS[251] }
+];
+
+// Milliseconds per unit of a relative time such as "2h"
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)([mhdw])$/i;
+const OPERATOR_PATTERN = /^(<=|>=|<|>|=)/;
+const FIELD_PATTERN = /^([a-z]+):/i;
+
+// Parsed query tree
+export type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string; phrase: boolean }
+  | { type: 'field'; field: QueryFieldName; operator: ComparisonOperator; value: string; durationMs?: number };
+
+// Problem in the query, with the character range to underline
+export interface QuerySyntaxError {
+  message: string;
+  start: number;
+  end: number;                                   // Exclusive
+}
+
+export interface ParsedQuery {
+  ast: QueryNode | null;                         // Null when nothing valid was typed
+  errors: QuerySyntaxError[];                    // Invalid parts are left out of the tree
+  isPlainText: boolean;                          // Only bare words - no fields, operators or quotes
+}
+
+// Query ready to run in the filter pipeline
+export interface CompiledQuery {
+  predicate: DisruptionPredicate;                // Matches everything for an empty query
+  rankText: string;                              // Words to rank results by (positive free text)
+}
+
+// Autocomplete option for the part of the query at the cursor
+export interface QuerySuggestion {
+  label: string;                                 // e.g. "severity:"
+  insert: string;                                // Replaces the part being typed
+  description?: string;
+}
+
+export interface QuerySuggestions {
+  start: number;                                 // Range of the query the suggestion replaces
+  end: number;
+  items: QuerySuggestion[];
+}
+
+interface Token {
+  type: 'word' | 'phrase' | 'field' | 'or' | 'not' | 'open' | 'close';
+  text: string;                                  // Word, phrase content or field value
+  name?: string;                                 // Field name as typed
+  quoted?: boolean;                              // Field value was in quotes
+  start: number;
+  end: number;
+}
+
+/**
+ * Reads a quoted string starting at an opening quote
+ * An unclosed quote runs to the end of the query and is reported
+ */
+const readQuoted = (query: string, quote: number, errors: QuerySyntaxError[]): { text: string; end: number } => {
+  const close = query.indexOf('"', quote + 1);
+  if (close === -1) {
+    errors.push({ message: TEXT_CONSTANTS[231], start: quote, end: query.length });
+    return { text: query.slice(quote + 1), end: query.length };
+  }
+  return { text: query.slice(quote + 1, close), end: close + 1 };
+};
+
+/**
+ * Splits a query into tokens
+ * Words end at whitespace, brackets and quotes; a "-" only negates at the start of a term.
+ */
+const tokenize = (query: string, errors: QuerySyntaxError[]): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    const char = query[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', text: char, start: index, end: index + 1 });
+      index++;
+    } else if (char === '-') {
+      const next = query[index + 1];
+      if (next === undefined || /[\s)]/.test(next)) {
+        errors.push({ message: TEXT_CONSTANTS[234], start: index, end: index + 1 });
+      } else {
+        tokens.push({ type: 'not', text: char, start: index, end: index + 1 });
+      }
+      index++;
+    } else if (char === '"') {
+      const { text, end } = readQuoted(query, index, errors);
+      tokens.push({ type: 'phrase', text, start: index, end });
+      index = end;
+    } else {
+      let end = index;
+      while (end < query.length && !/[\s()"]/.test(query[end])) end++;
+      const word = query.slice(index, end);
+      const field = FIELD_PATTERN.exec(word);
+
+      if (word === 'OR') {
+        tokens.push({ type: 'or', text: word, start: index, end });
+      } else if (field) {
+        // field:"quoted value"
+        if (end === index + field[0].length && query[end] === '"') {
+          const quoted = readQuoted(query, end, errors);
+          tokens.push({ type: 'field', name: field[1], text: quoted.text, quoted: true, start: index, end: quoted.end });
+          end = quoted.end;
+        } else {
+          tokens.push({ type: 'field', name: field[1], text: word.slice(field[0].length), start: index, end });
+        }
+      } else {
+        tokens.push({ type: 'word', text: word, start: index, end });
+      }
+      index = end;
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Looks up a field by name or alias (case-insensitive)
+ */
+const resolveField = (name: string): QueryFieldName | null => {
+  const key = name.toLowerCase();
+  if (key in QUERY_FIELDS) return key as QueryFieldName;
+  return FIELD_ALIASES[key] ?? null;
+};
+
+/**
+ * Finds the allowed value a typed value stands for - exact, or the only one it starts
+ */
+const resolveChoice = (value: string, values: string[]): string | null => {
+  const typed = value.toLowerCase();
+  if (values.includes(typed)) return typed;
+  const candidates = values.filter(candidate => candidate.startsWith(typed));
+  return candidates.length === 1 ? candidates[0] : null;
+};
+
+/**
+ * Turns a field token into a tree node, reporting invalid names and values
+ *
+ * @returns QueryNode, or null when the term is invalid and left out
+ */
+const parseFieldToken = (token: Token, errors: QuerySyntaxError[]): QueryNode | null => {
+  const name = token.name ?? '';
+  const field = resolveField(name);
+  if (!field) {
+    errors.push({ message: `${TEXT_CONSTANTS[226]} "${name}"`, start: token.start, end: token.start + name.length + 1 });
+    return null;
+  }
+  const definition: QueryFieldDefinition = QUERY_FIELDS[field];
+  const operatorMatch = token.quoted ? null : OPERATOR_PATTERN.exec(token.text);
+  const operator = (operatorMatch?.[1] ?? '=') as ComparisonOperator;
+  const value = token.text.slice(operatorMatch?.[0].length ?? 0).trim();
+  const valueError = (message: string) => {
+    errors.push({ message, start: token.start, end: token.end });
+    return null;
+  };
+
+  if (!value) return valueError(`${name}: ${TEXT_CONSTANTS[227]}`);
+
+  switch (definition.kind) {
+    case 'text':
+      if (operator !== '=') return valueError(`${name}: ${TEXT_CONSTANTS[230]}`);
+      return { type: 'field', field, operator, value: normaliseText(value) };
+    case 'choice':
+    case 'severity': {
+      if (definition.kind === 'choice' && operator !== '=') return valueError(`${name}: ${TEXT_CONSTANTS[230]}`);
+      const values = definition.values ?? [];
+      const choice = resolveChoice(value, values);
+      if (!choice) return valueError(`${TEXT_CONSTANTS[228]} ${values.join(', ')}`);
+      return { type: 'field', field, operator, value: choice };
+    }
+    case 'age':
+    case 'countdown': {
+      const duration = DURATION_PATTERN.exec(value);
+      if (!duration) return valueError(TEXT_CONSTANTS[229]);
+      return {
+        type: 'field',
+        field,
+        // A bare time means "within", e.g. updated:2h is updated:<=2h
+        operator: operator === '=' ? '<=' : operator,
+        value: value.toLowerCase(),
+        durationMs: Number(duration[1]) * DURATION_UNITS[duration[2].toLowerCase()]
+      };
+    }
+  }
+};
+
+/**
+ * Combines sibling nodes, skipping the wrapper for a single child
+ */
+const combine = (type: 'and' | 'or', children: QueryNode[]): QueryNode | null => {
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type, children };
+};
+
+/**
+ * Parses a search query into a tree
+ *
+ * Grammar (terms next to each other must all match; OR binds looser):
+ *   query  := or (")" or)*            stray ")" are reported and skipped
+ *   or     := and ("OR" and)*
+ *   and    := unary*
+ *   unary  := "-" unary | "(" or ")" | field ":" value | "phrase" | word
+ *
+ * Parsing never fails: invalid parts are reported with their position and
+ * left out, so the rest of the query keeps filtering while the user types.
+ *
+ * @param query - Search text as typed
+ * @returns ParsedQuery - Tree, errors and whether the query is plain words
+ */
+export const parseQuery = (query: string): ParsedQuery => {
+  const errors: QuerySyntaxError[] = [];
+  const tokens = tokenize(query, errors);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const atGroupEnd = () => {
+    const token = peek();
+    return !token || token.type === 'or' || token.type === 'close';
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position++];
+    switch (token.type) {
+      case 'not': {
+        if (atGroupEnd()) {
+          errors.push({ message: TEXT_CONSTANTS[234], start: token.start, end: token.end });
+          return null;
+        }
+        const child = parseUnary();
+        return child ? { type: 'not', child } : null;
+      }
+      case 'open': {
+        const inner = parseOr();
+        if (peek()?.type === 'close') {
+          const close = tokens[position++];
+          if (inner.empty) errors.push({ message: TEXT_CONSTANTS[236], start: token.start, end: close.end });
+        } else {
+          errors.push({ message: TEXT_CONSTANTS[232], start: token.start, end: token.end });
+        }
+        return inner.node;
+      }
+      case 'phrase':
+        return token.text.trim() ? { type: 'text', value: token.text, phrase: true } : null;
+      case 'field':
+        return parseFieldToken(token, errors);
+      default:
+        return { type: 'text', value: token.text, phrase: false };
+    }
+  };
+
+  // parseAnd and parseOr report whether they consumed any term, valid or not
+  const parseAnd = () => {
+    const children: QueryNode[] = [];
+    let empty = true;
+    while (!atGroupEnd()) {
+      empty = false;
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    return { node: combine('and', children), empty };
+  };
+
+  const parseOr = (): { node: QueryNode | null; empty: boolean } => {
+    const branches: QueryNode[] = [];
+    let left = parseAnd();
+    let empty = left.empty;
+    if (left.node) branches.push(left.node);
+
+    while (peek()?.type === 'or') {
+      const or = tokens[position++];
+      const right = parseAnd();
+      if (left.empty || right.empty) {
+        errors.push({ message: TEXT_CONSTANTS[235], start: or.start, end: or.end });
+      }
+      if (right.node) branches.push(right.node);
+      empty = empty && right.empty;
+      left = right;
+    }
+    return { node: combine('or', branches), empty };
+  };
+
+  const parts: QueryNode[] = [];
+  for (;;) {
+    const { node } = parseOr();
+    if (node) parts.push(node);
+    const stray = tokens[position++];
+    if (!stray) break;
+    errors.push({ message: TEXT_CONSTANTS[233], start: stray.start, end: stray.end });
+  }
+
+  return {
+    ast: combine('and', parts),
+    errors: errors.sort((a, b) => a.start - b.start),
+    isPlainText: tokens.every(token => token.type === 'word')
+  };
+};
+
+/**
+ * Checks whether some words appear in a text, ignoring case and punctuation
+ */
+const includesWords = (text: string | undefined, words: string): boolean =>
+  text !== undefined && ` ${normaliseText(text)} `.includes(` ${words} `);
+
+/**
+ * Applies a comparison operator
+ */
+const compare = (actual: number, operator: ComparisonOperator, expected: number): boolean => {
+  switch (operator) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '=': return actual === expected;
+  }
+};
+
+/**
+ * Milliseconds since the epoch of an optional ISO date-time (NaN when missing or invalid)
+ */
+const toTime = (value: string | undefined): number => (value ? Date.parse(value) : NaN);
+
+/**
+ * Builds the predicate for one field qualifier
+ *
+ * @param now - Reference time for relative comparisons (ms)
+ */
+const compileField = (node: Extract<QueryNode, { type: 'field' }>, now: number): DisruptionPredicate => {
+  const { field, operator, value, durationMs = 0 } = node;
+
+  switch (field) {
+    case 'severity': {
+      const rank = SEVERITY_RANK[(value[0].toUpperCase() + value.slice(1)) as Disruption['severity']];
+      return disruption => compare(SEVERITY_RANK[disruption.severity], operator, rank);
+    }
+    case 'road':
+      return disruption =>
+        disruption.corridorIds.some(id => id.toLowerCase() === value) ||
+        includesWords(disruption.location, value) ||
+        disruption.streets.some(street => includesWords(street.name, value));
+    case 'street':
+      return disruption => disruption.streets.some(street => includesWords(street.name, value));
+    case 'location':
+      return disruption => includesWords(disruption.location, value);
+    case 'category':
+      return disruption => includesWords(disruption.category, value) || includesWords(disruption.subCategory, value);
+    case 'status':
+      return disruption => disruption.status.toLowerCase() === value;
+    case 'is':
+      return value === 'closure'
+        ? disruption => disruption.hasClosures
+        : value === 'provisional'
+          ? disruption => disruption.isProvisional === true
+          : disruption => disruption.recurringSchedules.length > 0;
+    case 'updated':
+      return disruption => {
+        const time = toTime(disruption.lastModifiedTime ?? disruption.currentUpdateDateTime);
+        return !Number.isNaN(time) && compare(now - time, operator, durationMs);
+      };
+    case 'starts':
+    case 'ends':
+      return disruption => {
+        const time = toTime(field === 'starts' ? disruption.startDateTime : disruption.endDateTime);
+        // Countdowns only - a disruption that already started (or ended) has none
+        return time >= now && compare(time - now, operator, durationMs);
+      };
+  }
+};
+
+/**
+ * Builds the predicate for a query tree
+ */
+const compileNode = (node: QueryNode, now: number): DisruptionPredicate => {
+  switch (node.type) {
+    case 'and': {
+      const children = node.children.map(child => compileNode(child, now));
+      return disruption => children.every(child => child(disruption));
+    }
+    case 'or': {
+      const children = node.children.map(child => compileNode(child, now));
+      return disruption => children.some(child => child(disruption));
+    }
+    case 'not': {
+      // Excluded words must match exactly - "-works" shouldn't drop "work" or "worse"
+      const excluded = node.child;
+      const child = excluded.type === 'text'
+        ? (disruption: Disruption) => containsSearchPhrase(disruption, excluded.value)
+        : compileNode(excluded, now);
+      return disruption => !child(disruption);
+    }
+    case 'text':
+      return node.phrase
+        ? disruption => containsSearchPhrase(disruption, node.value)
+        : disruption => matchesSearchText(disruption, node.value);
+    case 'field':
+      return compileField(node, now);
+  }
+};
+
+/**
+ * Collects the words a query looks for (not those it excludes)
+ *
+ * @param fields - Field qualifiers whose values count as well as free text
+ */
+const collectPositiveText = (node: QueryNode | null, fields: QueryFieldName[]): string[] => {
+  if (!node) return [];
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(child => collectPositiveText(child, fields));
+    case 'not':
+      return [];
+    case 'text':
+      return [node.value];
+    case 'field':
+      return fields.includes(node.field) ? [node.value] : [];
+  }
+};
+
+/**
+ * Compiles a search query into a filter predicate
+ *
+ * Bare words use the full-text search matching (typo-tolerant, any searched
+ * field), so a plain query filters exactly as before. Fields, "-", OR and
+ * brackets combine them; relative times are measured from now.
+ *
+ * @param query - Search text as typed
+ * @param now - Reference time for relative comparisons (ms)
+ * @returns CompiledQuery - Predicate plus the text to rank results by (syntax errors are ignored)
+ */
+export const compileQuery = (query: string, now = Date.now()): CompiledQuery => {
+  const { ast } = parseQuery(query);
+  return {
+    predicate: ast ? compileNode(ast, now) : () => true,
+    rankText: collectPositiveText(ast, []).join(' ')
+  };
+};
+
+/**
+ * Words to highlight for a search query - free text and road, street and location values
+ */
+export const getQueryHighlightText = (query: string): string =>
+  collectPositiveText(parseQuery(query).ast, ['road', 'street', 'location']).join(' ');
+
+/**
+ * Suggests field names and values for the term at the cursor
+ *
+ * Typing letters offers matching field names ("sev" → "severity:"); after a
+ * colon, the field's values ("severity:m" → "severity:moderate").
+ *
+ * @param query - Search text as typed
+ * @param cursor - Caret position in the query
+ * @returns QuerySuggestions, or null when there is nothing to suggest
+ */
+export const getQuerySuggestions = (query: string, cursor: number): QuerySuggestions | null => {
+  let start = cursor;
+  while (start > 0 && !/[\s()]/.test(query[start - 1])) start--;
+  let end = cursor;
+  while (end < query.length && !/[\s()]/.test(query[end])) end++;
+  if (query[start] === '-') start++;
+
+  const typed = query.slice(start, cursor);
+  if (!typed || typed.includes('"')) return null;
+  let items: QuerySuggestion[] = [];
+
+  const colon = typed.indexOf(':');
+  if (colon === -1) {
+    if (!/^[a-z]+$/i.test(typed)) return null;
+    items = (Object.keys(QUERY_FIELDS) as QueryFieldName[])
+      .filter(name => name.startsWith(typed.toLowerCase()))
+      .map(name => ({ label: `${name}:`, insert: `${name}:`, description: QUERY_FIELDS[name].description }));
+  } else {
+    const field = resolveField(typed.slice(0, colon));
+    const definition: QueryFieldDefinition | undefined = field ? QUERY_FIELDS[field] : undefined;
+    if (!field || !definition?.values) return null;
+
+    const partial = typed.slice(colon + 1).toLowerCase();
+    // Time values carry their own operator; severities may be prefixed with one
+    const operator = definition.kind === 'severity' ? OPERATOR_PATTERN.exec(partial)?.[1] ?? '' : '';
+    const rest = partial.slice(operator.length);
+    items = definition.values
+      .filter(value => value.startsWith(rest) && value !== rest)
+      .map(value => ({ label: `${field}:${operator}${value}`, insert: `${field}:${operator}${value} ` }));
+  }
+
+  return items.length > 0 ? { start, end, items } : null;
+};
+
+/**
+ * Replaces the term at the cursor with a suggestion
+ *
+ * @returns The new query and where the caret goes
+ */
+export const applyQuerySuggestion = (
+  query: string,
+  suggestions: QuerySuggestions,
+  suggestion: QuerySuggestion
+): { query: string; cursor: number } => {
+  let after = query.slice(suggestions.end);
+  // Completed values end with a space - don't double it
+  if (suggestion.insert.endsWith(' ') && /^\s/.test(after)) after = after.slice(1);
+  return {
+    query: query.slice(0, suggestions.start) + suggestion.insert + after,
+    cursor: suggestions.start + suggestion.insert.length
+  };
+};
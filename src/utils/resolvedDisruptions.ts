@@ -0,0 +1,104 @@
+// Recently resolved disruptions - cleared records kept for the status filter
+import type { Disruption, DisruptionChange, DisruptionChangeSet } from '../types/disruption';
+
+/**
+ * Checks whether a disruption has cleared (TfL's "Recently Cleared", or dropped
+ * from the feed) - scheduled and long-term works are not resolved
+ */
+export const isResolved = (disruption: Disruption): boolean => disruption.status === 'Inactive';
+
+/**
+ * Removes resolved disruptions from a change set
+ * A record TfL has marked "Recently Cleared" is not something to alert on:
+ * its arrival, edits and eventual drop from the feed are all left out, while
+ * an active disruption dropping out still comes through as removed.
+ *
+ * @param changeSet - Changes from one refresh
+ * @returns The same change set when nothing is resolved, otherwise a filtered copy
+ */
+export const removeResolvedChanges = (changeSet: DisruptionChangeSet): DisruptionChangeSet => {
+  const keepChange = ({ current }: DisruptionChange): boolean => !isResolved(current);
+  const { added, removed, escalated, reduced, updated } = changeSet;
+  if (
+    added.every(disruption => !isResolved(disruption)) &&
+    removed.every(disruption => !isResolved(disruption)) &&
+    [...escalated, ...reduced, ...updated].every(keepChange)
+  ) {
+    return changeSet;
+  }
+
+  return {
+    ...changeSet,
+    added: added.filter(disruption => !isResolved(disruption)),
+    removed: removed.filter(disruption => !isResolved(disruption)),
+    escalated: escalated.filter(keepChange),
+    reduced: reduced.filter(keepChange),
+    updated: updated.filter(keepChange)
+  };
+};
+
+/**
+ * When a resolved disruption cleared
+ * Records dropped from the feed carry resolvedAt; ones TfL marks Inactive fall
+ * back to their last edit.
+ *
+ * @returns ISO time, or undefined when unknown
+ */
+export const getResolvedAt = (disruption: Disruption): string | undefined =>
+  disruption.resolvedAt ?? disruption.lastModifiedTime;
+
+// Resolved time in ms (NaN when unknown)
+const getResolvedTime = (disruption: Disruption): number => {
+  const value = getResolvedAt(disruption);
+  return value ? Date.parse(value) : NaN;
+};
+
+/**
+ * Checks whether a resolved disruption cleared within the last few hours
+ * Unresolved disruptions always pass; resolved ones without a known time never do.
+ *
+ * @param disruption - Disruption to check
+ * @param hours - Length of the window
+ * @param now - Current time (ms)
+ */
+export const isWithinResolvedWindow = (disruption: Disruption, hours: number, now: number): boolean => {
+  if (!isResolved(disruption)) return true;
+  const resolvedTime = getResolvedTime(disruption);
+  return !Number.isNaN(resolvedTime) && now - resolvedTime <= hours * 60 * 60 * 1000;
+};
+
+/**
+ * Updates the list of recently resolved disruptions after a refresh
+ *
+ * - Disruptions cleared by this refresh join as Inactive, resolved now (ones
+ *   TfL already marked "Recently Cleared" keep their own time)
+ * - Any that are back in the feed leave (the feed version wins)
+ * - Anything resolved longer ago than the retention is dropped
+ *
+ * @param previous - Resolved disruptions kept so far
+ * @param cleared - Disruptions that dropped out of the feed (changeSet.removed)
+ * @param current - Disruptions now in the feed
+ * @param now - Time of the refresh (ms)
+ * @param retentionMs - How long to keep a resolved disruption
+ * @returns Disruption[] - Resolved disruptions, most recently resolved first
+ */
+export const trackResolvedDisruptions = (
+  previous: Disruption[],
+  cleared: Disruption[],
+  current: Disruption[],
+  now: number,
+  retentionMs: number
+): Disruption[] => {
+  const currentIds = new Set(current.map(disruption => disruption.id));
+  const clearedIds = new Set(cleared.map(disruption => disruption.id));
+  const resolvedAt = new Date(now).toISOString();
+
+  return [
+    ...cleared.map(disruption =>
+      isResolved(disruption) ? disruption : { ...disruption, status: 'Inactive' as const, resolvedAt }
+    ),
+    ...previous.filter(disruption => !clearedIds.has(disruption.id))
+  ].filter(disruption =>
+    !currentIds.has(disruption.id) && now - getResolvedTime(disruption) <= retentionMs
+  );
+};
@@ -0,0 +1,114 @@
+// Saved watch matching - which disruptions a watched road or search term refers to
+import type {
+  Disruption,
+  DisruptionChangeSet,
+  SavedWatch,
+  SavedWatchSummary
+} from '../types/disruption';
+import { TEXT_CONSTANTS } from '../constants/text';
+import { isResolved } from './resolvedDisruptions';
+
+// Why a disruption triggered a saved watch notification
+export type SavedWatchEventKind = 'added' | 'severity-changed' | 'cleared';
+
+// One disruption that needs a notification for one watch
+export interface SavedWatchEvent {
+  watch: SavedWatch;
+  disruption: Disruption;                        // Current version (last known if cleared)
+  previousSeverity?: Disruption['severity'];     // Set for severity changes
+  kind: SavedWatchEventKind;
+}
+
+/**
+ * Normalizes a watch term for case-insensitive comparison
+ * Collapses whitespace so "Blackwall  Tunnel" matches "Blackwall Tunnel"
+ */
+export const normalizeWatchTerm = (term: string): string =>
+  term.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Checks whether a disruption mentions a watched term
+ * Searches the location, the description and every affected street name
+ *
+ * @param disruption - Disruption to test
+ * @param term - Watched road or search term
+ */
+export const matchesWatchTerm = (disruption: Disruption, term: string): boolean => {
+  const needle = normalizeWatchTerm(term);
+  if (!needle) return false;
+
+  return [disruption.location, disruption.comments, ...disruption.streets.map(street => street.name)]
+    .some(text => normalizeWatchTerm(text).includes(needle));
+};
+
+/**
+ * Finds the unresolved disruptions matching each watch
+ *
+ * @param watches - Saved watches
+ * @param disruptions - Complete (unfiltered), severity-sorted list of disruptions
+ * @returns SavedWatchSummary[] - One entry per watch, in watch order
+ */
+export const summarizeSavedWatches = (
+  watches: SavedWatch[],
+  disruptions: Disruption[]
+): SavedWatchSummary[] =>
+  watches.map(watch => {
+    const matches = disruptions.filter(
+      disruption => !isResolved(disruption) && matchesWatchTerm(disruption, watch.term)
+    );
+    return {
+      watch,
+      matches,
+      seriousCount: matches.filter(disruption => disruption.severity === 'Serious').length
+    };
+  });
+
+/**
+ * Finds the notifications a refresh should raise for saved watches
+ *
+ * - "added": a matching disruption appeared
+ * - "severity-changed": a matching disruption escalated or de-escalated
+ * - "cleared": a matching disruption left the feed
+ * The initial load raises nothing - everything would count as added.
+ *
+ * @param changeSet - Change set of the refresh
+ * @param watches - Saved watches
+ * @returns SavedWatchEvent[] - Grouped by watch, in watch order
+ */
+export const findSavedWatchEvents = (
+  changeSet: DisruptionChangeSet,
+  watches: SavedWatch[]
+): SavedWatchEvent[] => {
+  if (changeSet.isInitial) return [];
+
+  return watches.flatMap(watch => [
+    ...changeSet.added
+      .filter(disruption => matchesWatchTerm(disruption, watch.term))
+      .map(disruption => ({ watch, disruption, kind: 'added' as const })),
+    ...[...changeSet.escalated, ...changeSet.reduced]
+      .filter(({ current }) => matchesWatchTerm(current, watch.term))
+      .map(({ current, previous }) => ({
+        watch,
+        disruption: current,
+        previousSeverity: previous.severity,
+        kind: 'severity-changed' as const
+      })),
+    ...changeSet.removed
+      .filter(disruption => matchesWatchTerm(disruption, watch.term))
+      .map(disruption => ({ watch, disruption, kind: 'cleared' as const }))
+  ]);
+};
+
+/**
+ * Describes one watch event, e.g. "Bow Road - now Serious (was Moderate)"
+ */
+export const describeSavedWatchEvent = ({ disruption, kind, previousSeverity }: SavedWatchEvent): string => {
+  switch (kind) {
+    case 'added':
+      return `${disruption.location} - ${TEXT_CONSTANTS[74].toLowerCase()} (${disruption.severity})`;
+    case 'severity-changed':
+      return `${disruption.location} - now ${disruption.severity} (was ${previousSeverity})`;
+    case 'cleared':
+      return `${disruption.location} - ${TEXT_CONSTANTS[78].toLowerCase()}`;
+  }
+};
@@ -0,0 +1,256 @@
+// Full-text disruption search - ranked, typo-tolerant matching and highlight ranges
+import type { Disruption } from '../types/disruption';
+
+// Searched fields and how much a match in each counts
+const FIELD_WEIGHTS = {
+  location: 4,
+  streets: 3,
+  currentUpdate: 2,
+  comments: 1
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+// How well one query term matches one word
+const MATCH_QUALITY = {
+  exact: 1,
+  prefix: 0.75,                                  // "bridg" → "bridge", while typing
+  fuzzy: 0.5                                     // "tower" → "towr", a typo
+} as const;
+
+// Extra weight when the whole multi-word query appears as typed in a field
+const PHRASE_BONUS = 2;
+
+// Letters and digits, so "A406" and "gas-main" split into searchable words
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Word with its position in the original text
+interface Word {
+  text: string;                                  // Lower-case
+  start: number;
+  end: number;
+}
+
+// Character range to highlight in a piece of text
+export interface HighlightRange {
+  start: number;
+  end: number;                                   // Exclusive
+}
+
+// Disruption with its rank for a query
+export interface SearchResult {
+  disruption: Disruption;
+  score: number;                                 // Higher is a better match
+}
+
+/**
+ * Splits text into lower-case words with their positions
+ */
+const toWords = (text: string): Word[] =>
+  Array.from(text.matchAll(WORD_PATTERN), match => ({
+    text: match[0].toLowerCase(),
+    start: match.index,
+    end: match.index + match[0].length
+  }));
+
+/**
+ * Lower-cases text and reduces it to its words
+ * e.g. "[A406] North-Circular" → "a406 north circular"
+ */
+export const normaliseText = (text: string): string =>
+  toWords(text).map(word => word.text).join(' ');
+
+/**
+ * Splits a search query into distinct lower-case terms
+ * e.g. "Gas  main, GAS" → ["gas", "main"]
+ */
+export const parseSearchTerms = (query: string): string[] =>
+  [...new Set(toWords(query).map(word => word.text))];
+
+/**
+ * Typos tolerated for a term: none for short terms, where they match too much,
+ * or for road numbers and other terms with digits ("A406" is not "A40")
+ */
+const allowedEdits = (term: string): number => {
+  if (/\d/.test(term)) return 0;
+  return term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+};
+
+/**
+ * Edit distance (insertions, deletions, substitutions and swapped neighbours)
+ * Stops early and returns limit + 1 once the distance is known to exceed limit
+ */
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let before: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, before[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    before = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Rates how well a query term matches a word
+ * 
+ * @returns Match quality (0 for no match) and how many characters of the word matched
+ */
+const matchWord = (term: string, word: string): { quality: number; length: number } => {
+  if (word === term) return { quality: MATCH_QUALITY.exact, length: word.length };
+  // Single characters only match whole words - "a" would otherwise match almost anything
+  if (term.length >= 2 && word.startsWith(term)) return { quality: MATCH_QUALITY.prefix, length: term.length };
+
+  const edits = allowedEdits(term);
+  if (edits > 0 && (
+    editDistance(term, word, edits) <= edits ||
+    (word.length > term.length && editDistance(term, word.slice(0, term.length), edits) <= edits)
+  )) {
+    return { quality: MATCH_QUALITY.fuzzy, length: word.length };
+  }
+  return { quality: 0, length: 0 };
+};
+
+// Words per searched field, computed once per disruption object
+const wordCache = new WeakMap<Disruption, Record<SearchField, Word[]>>();
+
+/**
+ * Returns the searchable words of a disruption
+ */
+const getFieldWords = (disruption: Disruption): Record<SearchField, Word[]> => {
+  let words = wordCache.get(disruption);
+  if (!words) {
+    words = {
+      location: toWords(disruption.location),
+      streets: toWords(disruption.streets.map(street => street.name).join(' ')),
+      currentUpdate: toWords(disruption.currentUpdate),
+      comments: toWords(disruption.comments)
+    };
+    wordCache.set(disruption, words);
+  }
+  return words;
+};
+
+/**
+ * Scores a disruption against parsed search terms
+ * 
+ * Each term counts with its best match, weighted by field (location, then
+ * streets, status update and description); a multi-word query found as typed
+ * adds a bonus.
+ * 
+ * @param requireAll - Score 0 unless every term matches a word in some field
+ * @returns Score above 0 when the terms match, otherwise 0
+ */
+const scoreDisruption = (disruption: Disruption, terms: string[], phrase: string, requireAll: boolean): number => {
+  const fieldWords = getFieldWords(disruption);
+  const fields = Object.keys(FIELD_WEIGHTS) as SearchField[];
+  let score = 0;
+
+  for (const term of terms) {
+    let best = 0;
+    for (const field of fields) {
+      for (const word of fieldWords[field]) {
+        best = Math.max(best, matchWord(term, word.text).quality * FIELD_WEIGHTS[field]);
+      }
+    }
+    if (best === 0 && requireAll) return 0;
+    score += best;
+  }
+
+  if (terms.length > 1 && score > 0) {
+    const texts: Record<SearchField, string> = {
+      location: disruption.location,
+      streets: disruption.streets.map(street => street.name).join(' '),
+      currentUpdate: disruption.currentUpdate,
+      comments: disruption.comments
+    };
+    const phraseWeight = Math.max(0, ...fields
+      .filter(field => texts[field].toLowerCase().includes(phrase))
+      .map(field => FIELD_WEIGHTS[field]));
+    score += phraseWeight * PHRASE_BONUS;
+  }
+  return score;
+};
+
+/**
+ * Ranks disruptions against a search query
+ * 
+ * Searches location, street names, the current status update and the
+ * description. Terms match whole words, prefixes (while typing) and close
+ * spellings (one typo from four letters, two from eight; none in road numbers).
+ * 
+ * @param disruptions - Disruptions to search, in their default order
+ * @param query - Search text as typed
+ * @param requireAll - Drop disruptions that miss any term (otherwise they rank last)
+ * @returns SearchResult[] - Matches, best first (ties keep the input order)
+ */
+export const rankDisruptions = (disruptions: Disruption[], query: string, requireAll = true): SearchResult[] => {
+  const terms = parseSearchTerms(query);
+  if (terms.length === 0) return disruptions.map(disruption => ({ disruption, score: 0 }));
+  const phrase = query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  return disruptions
+    .map(disruption => ({ disruption, score: scoreDisruption(disruption, terms, phrase, requireAll) }))
+    .filter(result => !requireAll || result.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Reorders already-filtered disruptions by relevance to some search text
+ * Nothing is dropped - disruptions that match none of the words keep their order at the end
+ */
+export const sortByRelevance = (disruptions: Disruption[], query: string): Disruption[] =>
+  rankDisruptions(disruptions, query, false).map(result => result.disruption);
+
+/**
+ * Checks whether every word of some text matches a disruption, as the search does
+ * e.g. "gas main" matches a disruption mentioning "Gas" in one field and "mains" in another
+ */
+export const matchesSearchText = (disruption: Disruption, text: string): boolean => {
+  const terms = parseSearchTerms(text);
+  return terms.length === 0 || scoreDisruption(disruption, terms, '', true) > 0;
+};
+
+/**
+ * Checks whether some text appears word for word in one searched field
+ * Case and punctuation are ignored, so "north circular" matches "NORTH CIRCULAR ROAD"
+ */
+export const containsSearchPhrase = (disruption: Disruption, phrase: string): boolean => {
+  const wanted = normaliseText(phrase);
+  if (!wanted) return true;
+
+  return Object.values(getFieldWords(disruption)).some(words =>
+    ` ${words.map(word => word.text).join(' ')} `.includes(` ${wanted} `)
+  );
+};
+
+/**
+ * Finds the parts of a text that match a search query
+ * Prefix matches highlight the typed part; typo matches highlight the whole word
+ * 
+ * @param text - Displayed text
+ * @param query - Search text as typed
+ * @returns HighlightRange[] - Non-overlapping ranges in text order (empty when nothing matches)
+ */
+export const getHighlightRanges = (text: string, query: string): HighlightRange[] => {
+  const terms = parseSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  return toWords(text).flatMap(word => {
+    const length = Math.max(0, ...terms.map(term => matchWord(term, word.text).length));
+    return length > 0 ? [{ start: word.start, end: word.start + length }] : [];
+  });
+};
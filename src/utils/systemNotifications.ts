@@ -0,0 +1,61 @@
+// System notification content - shared by the page and the notification service worker
+import type { DisruptionChangeSet, SavedWatch, SystemNotification } from '../types/disruption';
+import { describeSavedWatchEvent, findSavedWatchEvents } from './savedWatches';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+// Longest notification body - operating systems truncate long text anyway
+const MAX_BODY_LENGTH = 160;
+
+/**
+ * Shortens text to fit a notification body
+ */
+const truncate = (text: string): string =>
+  text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH - 1)}…` : text;
+
+/**
+ * Works out which system notifications a refresh should raise
+ *
+ * - A Serious disruption appeared, or an existing one escalated to Serious
+ * - A watched road/search had a matching disruption added, re-graded or cleared
+ * Each disruption gets at most one notification (Serious wins over watches),
+ * tagged with its id so a later change replaces the earlier notification.
+ * The initial load raises nothing.
+ *
+ * @param changeSet - Change set of the refresh
+ * @param watches - Saved watches to notify about
+ * @returns SystemNotification[] - Notifications to show, most urgent first
+ */
+export const buildSystemNotifications = (
+  changeSet: DisruptionChangeSet,
+  watches: SavedWatch[]
+): SystemNotification[] => {
+  if (changeSet.isInitial) return [];
+
+  const serious = [
+    ...changeSet.added
+      .filter(disruption => disruption.severity === 'Serious')
+      .map(disruption => ({ disruption, title: `${TEXT_CONSTANTS[104]}: ${disruption.location}` })),
+    ...changeSet.escalated
+      .filter(({ current }) => current.severity === 'Serious')
+      .map(({ current }) => ({ disruption: current, title: `${TEXT_CONSTANTS[105]}: ${current.location}` }))
+  ].map(({ disruption, title }) => ({
+    tag: disruption.id,
+    title,
+    body: truncate(disruption.currentUpdate || disruption.comments),
+    disruptionId: disruption.id
+  }));
+
+  const watched = findSavedWatchEvents(changeSet, watches).map(event => ({
+    tag: event.disruption.id,
+    title: `${TEXT_CONSTANTS[98]}: ${event.watch.term}`,
+    body: truncate(describeSavedWatchEvent(event)),
+    disruptionId: event.disruption.id
+  }));
+
+  const seen = new Set<string>();
+  return [...serious, ...watched].filter(notification => {
+    if (seen.has(notification.tag)) return false;
+    seen.add(notification.tag);
+    return true;
+  });
+};
@@ -0,0 +1,118 @@
+// Time windows - quiet hours and rule schedules (time of day), and the time filter (dates)
+import type { DailyWindow, Disruption, TimeWindowFilter } from '../types/disruption';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts "HH:MM" to minutes after midnight (null when malformed)
+ */
+const toMinutes = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+/**
+ * Checks whether a moment falls inside a daily window
+ * Windows that end before they start wrap past midnight (e.g. 22:00-07:00).
+ * Disabled, malformed and zero-length windows contain nothing.
+ *
+ * @param date - Moment to check (local time)
+ * @param window - Daily window settings
+ */
+export const isWithinDailyWindow = (date: Date, window: DailyWindow): boolean => {
+  if (!window.enabled) return false;
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  if (start === null || end === null || start === end) return false;
+
+  const now = date.getHours() * 60 + date.getMinutes();
+  return start < end
+    ? now >= start && now < end
+    : now >= start || now < end;
+};
+
+/**
+ * Local midnight of a "YYYY-MM-DD" date, or of a day after it (NaN when malformed)
+ * Counting days through Date keeps midnights right across clock changes.
+ */
+const parseLocalDate = (value: string, addDays = 0): number => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + addDays).getTime() : NaN;
+};
+
+/**
+ * Local date of a moment as "YYYY-MM-DD", the format of date inputs and custom ranges
+ */
+export const toLocalDateString = (time: number): string => {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Local midnights starting the week (Monday) containing a moment and the week after
+ */
+const getWeekRange = (now: number): { start: number; end: number } => {
+  const date = new Date(now);
+  const monday = date.getDate() - (date.getDay() + 6) % 7;
+  return {
+    start: new Date(date.getFullYear(), date.getMonth(), monday).getTime(),
+    end: new Date(date.getFullYear(), date.getMonth(), monday + 7).getTime()
+  };
+};
+
+/**
+ * Start and end of a disruption in ms - a missing start has always been
+ * running and a missing end runs on indefinitely
+ */
+const getRunningPeriod = (disruption: Disruption): { start: number; end: number } => {
+  const start = disruption.startDateTime ? Date.parse(disruption.startDateTime) : NaN;
+  const end = disruption.endDateTime ? Date.parse(disruption.endDateTime) : NaN;
+  return {
+    start: Number.isNaN(start) ? -Infinity : start,
+    end: Number.isNaN(end) ? Infinity : end
+  };
+};
+
+/**
+ * Checks whether a disruption falls inside the time filter
+ *
+ * Based on the disruption's start and end times:
+ * - any: always
+ * - active-now: started and not yet ended
+ * - next-24h: starts after now and within 24 hours (needs a start time)
+ * - this-week / custom: running at any point in the range; custom days are
+ *   local dates with the last day included, and a missing or invalid side is open
+ *
+ * @param disruption - Disruption to check
+ * @param filter - Time filter settings
+ * @param now - Current time (ms)
+ */
+export const isInTimeWindow = (disruption: Disruption, filter: TimeWindowFilter, now: number): boolean => {
+  const { start, end } = getRunningPeriod(disruption);
+  const overlaps = (from: number, to: number) => start < to && end >= from;
+
+  switch (filter.preset) {
+    case 'any':
+      return true;
+    case 'active-now':
+      return start <= now && end >= now;
+    case 'next-24h':
+      return start > now && start <= now + DAY_MS;
+    case 'this-week': {
+      const week = getWeekRange(now);
+      return overlaps(week.start, week.end);
+    }
+    case 'custom': {
+      const from = parseLocalDate(filter.from);
+      const to = parseLocalDate(filter.to, 1);
+      return overlaps(
+        Number.isNaN(from) ? -Infinity : from,
+        Number.isNaN(to) ? Infinity : to
+      );
+    }
+  }
+};
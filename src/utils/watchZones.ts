@@ -0,0 +1,93 @@
+// Watch zone matching - which disruptions fall inside user-drawn areas
+import type {
+  Disruption,
+  DisruptionChangeSet,
+  LngLat,
+  WatchZone,
+  WatchZoneShape,
+  WatchZoneSummary
+} from '../types/disruption';
+import { getDistanceMeters, isPointInPolygon } from './geometry';
+import { isResolved } from './resolvedDisruptions';
+
+// Why a disruption triggered a watch zone alert
+export type WatchZoneEventKind = 'entered' | 'escalated';
+
+// One disruption that needs an alert for one zone
+export interface WatchZoneEvent {
+  zone: WatchZone;
+  disruption: Disruption;
+  kind: WatchZoneEventKind;
+}
+
+/**
+ * Checks whether a point lies inside a zone outline
+ */
+const isPointInZone = (point: LngLat, shape: WatchZoneShape): boolean =>
+  shape.type === 'circle'
+    ? getDistanceMeters(point, shape.center) <= shape.radiusMeters
+    : isPointInPolygon(point, shape.coordinates);
+
+/**
+ * Checks whether a disruption touches a zone
+ *
+ * A disruption counts when its marker or any vertex of its road segments is
+ * inside, so a long closure that only clips the zone edge is still caught.
+ *
+ * @param disruption - Disruption to test
+ * @param zone - Watch zone to test against
+ */
+export const isDisruptionInZone = (disruption: Disruption, zone: WatchZone): boolean =>
+  isPointInZone(disruption.geography.coordinates, zone.shape) ||
+  disruption.shapes.some(shape =>
+    shape.coordinates.some(point => isPointInZone(point, zone.shape))
+  );
+
+/**
+ * Counts the unresolved disruptions inside each zone
+ *
+ * @param zones - Saved watch zones
+ * @param disruptions - Complete (unfiltered) list of disruptions
+ * @returns WatchZoneSummary[] - One entry per zone, in zone order
+ */
+export const summarizeWatchZones = (
+  zones: WatchZone[],
+  disruptions: Disruption[]
+): WatchZoneSummary[] =>
+  zones.map(zone => {
+    const inside = disruptions.filter(
+      disruption => !isResolved(disruption) && isDisruptionInZone(disruption, zone)
+    );
+    return {
+      zone,
+      disruptionCount: inside.length,
+      seriousCount: inside.filter(disruption => disruption.severity === 'Serious').length
+    };
+  });
+
+/**
+ * Finds the zone alerts a refresh should raise
+ *
+ * - "entered": a new disruption appeared inside the zone
+ * - "escalated": a disruption inside the zone went up in severity
+ * The initial load raises nothing - everything would count as new.
+ *
+ * @param changeSet - Change set of the refresh
+ * @param zones - Saved watch zones
+ * @returns WatchZoneEvent[] - Grouped by zone, in zone order
+ */
+export const findWatchZoneEvents = (
+  changeSet: DisruptionChangeSet,
+  zones: WatchZone[]
+): WatchZoneEvent[] => {
+  if (changeSet.isInitial) return [];
+
+  return zones.flatMap(zone => [
+    ...changeSet.added
+      .filter(disruption => isDisruptionInZone(disruption, zone))
+      .map(disruption => ({ zone, disruption, kind: 'entered' as const })),
+    ...changeSet.escalated
+      .filter(({ current }) => isDisruptionInZone(current, zone))
+      .map(({ current }) => ({ zone, disruption: current, kind: 'escalated' as const }))
+  ]);
+};
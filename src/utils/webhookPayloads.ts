@@ -0,0 +1,147 @@
+// Webhook payload templates - Slack blocks, Teams adaptive cards and generic JSON
+import type { WebhookFormat, WebhookTarget } from '../types/disruption';
+import { TRIGGER_LABELS, toWebhookEvent, type ChangeEvent, type WebhookEvent } from './alertRules';
+import { formatCaptureTime } from './disruptionUtils';
+import { TEXT_CONSTANTS } from '../constants/text';
+
+// Changes listed in one chat message; the rest are counted (Slack allows 50 blocks)
+const MAX_LISTED_EVENTS = 10;
+
+// Generic JSON body
+export interface JsonWebhookPayload {
+  source: 'london-traffic-live';
+  target: { id: string; name: string };
+  detectedAt: string;                            // ISO time of the refresh
+  isTest: boolean;
+  events: WebhookEvent[];
+}
+
+/**
+ * Heading of a chat message, e.g. "3 disruption updates"
+ */
+const buildTitle = (events: ChangeEvent[], isTest: boolean): string => {
+  const title = events.length === 1
+    ? `${TRIGGER_LABELS[events[0].trigger]}: ${events[0].disruption.location}`
+    : `${events.length} ${TEXT_CONSTANTS[112]}`;
+  return isTest ? `[${TEXT_CONSTANTS[166]}] ${title}` : title;
+};
+
+/**
+ * Severity line for one change, e.g. "Moderate → Serious"
+ */
+const describeSeverity = ({ disruption, previousSeverity }: ChangeEvent): string =>
+  previousSeverity ? `${previousSeverity} → ${disruption.severity}` : disruption.severity;
+
+/**
+ * Footer line with the refresh time
+ */
+const buildFooter = (detectedAt: string): string =>
+  `${TEXT_CONSTANTS[1]} · ${formatCaptureTime(new Date(detectedAt))}`;
+
+/**
+ * Slack incoming-webhook body (Block Kit)
+ */
+const buildSlackPayload = (events: ChangeEvent[], detectedAt: string, isTest: boolean) => {
+  const listed = events.slice(0, MAX_LISTED_EVENTS);
+  const remaining = events.length - listed.length;
+
+  return {
+    text: buildTitle(events, isTest),            // Fallback for notifications and old clients
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: buildTitle(events, isTest) } },
+      ...listed.map(event => ({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: [
+            `*${TRIGGER_LABELS[event.trigger]}: ${event.disruption.location}*`,
+            `${describeSeverity(event)}${event.disruption.category ? ` · ${event.disruption.category}` : ''}`,
+            event.disruption.currentUpdate || event.disruption.comments
+          ].join('\n')
+        }
+      })),
+      ...(remaining > 0
+        ? [{ type: 'section', text: { type: 'mrkdwn', text: `_${TEXT_CONSTANTS[135]} ${remaining} ${TEXT_CONSTANTS[111]}_` } }]
+        : []),
+      { type: 'context', elements: [{ type: 'mrkdwn', text: buildFooter(detectedAt) }] }
+    ]
+  };
+};
+
+/**
+ * Microsoft Teams incoming-webhook body (Adaptive Card)
+ */
+const buildTeamsPayload = (events: ChangeEvent[], detectedAt: string, isTest: boolean) => {
+  const listed = events.slice(0, MAX_LISTED_EVENTS);
+  const remaining = events.length - listed.length;
+
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      contentUrl: null,
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body: [
+          { type: 'TextBlock', size: 'Large', weight: 'Bolder', wrap: true, text: buildTitle(events, isTest) },
+          ...listed.map(event => ({
+            type: 'Container',
+            separator: true,
+            items: [
+              {
+                type: 'TextBlock',
+                weight: 'Bolder',
+                wrap: true,
+                color: event.disruption.severity === 'Serious' ? 'Attention' : 'Default',
+                text: `${TRIGGER_LABELS[event.trigger]}: ${event.disruption.location}`
+              },
+              {
+                type: 'FactSet',
+                facts: [
+                  { title: TEXT_CONSTANTS[141], value: describeSeverity(event) },
+                  ...(event.disruption.category ? [{ title: TEXT_CONSTANTS[142], value: event.disruption.category }] : [])
+                ]
+              },
+              { type: 'TextBlock', wrap: true, isSubtle: true, text: event.disruption.currentUpdate || event.disruption.comments }
+            ]
+          })),
+          ...(remaining > 0
+            ? [{ type: 'TextBlock', isSubtle: true, text: `${TEXT_CONSTANTS[135]} ${remaining} ${TEXT_CONSTANTS[111]}` }]
+            : []),
+          { type: 'TextBlock', size: 'Small', isSubtle: true, text: buildFooter(detectedAt) }
+        ]
+      }
+    }]
+  };
+};
+
+/**
+ * Builds the body for a webhook target in its format
+ *
+ * @param target - Target being posted to (format, id and name)
+ * @param events - Changes that passed the target's filters
+ * @param detectedAt - ISO time of the refresh
+ * @param isTest - Marks the message as a test
+ * @returns JSON-serialisable body
+ */
+export const buildWebhookPayload = (
+  target: Pick<WebhookTarget, 'id' | 'name' | 'format'>,
+  events: ChangeEvent[],
+  detectedAt: string,
+  isTest = false
+): unknown => {
+  const builders: Record<WebhookFormat, () => unknown> = {
+    slack: () => buildSlackPayload(events, detectedAt, isTest),
+    teams: () => buildTeamsPayload(events, detectedAt, isTest),
+    json: (): JsonWebhookPayload => ({
+      source: 'london-traffic-live',
+      target: { id: target.id, name: target.name },
+      detectedAt,
+      isTest,
+      events: events.map(toWebhookEvent)
+    })
+  };
+  return builders[target.format]();
+};
@@ -3,6 +3,11 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string;
+  readonly VITE_DISRUPTION_SOURCE?: string;      // "tfl" (default), "proxy", "fixture" or "replay"
+  readonly VITE_PROXY_URL?: string;              // Caching proxy API root for the "proxy" source
+  readonly VITE_FIXTURE_URL?: string;            // Fixture JSON for the "fixture" source
+  readonly VITE_REPLAY_URL?: string;             // Recorded session for the "replay" source
+  readonly VITE_CORRIDOR_FIXTURE_URL?: string;   // Corridor statuses for fixture/replay sources
   // Add other VITE_ variables here if needed
 }
 
@@ -0,0 +1,200 @@
+/**
+ * Notification Worker - Service worker that checks the disruption feed in the
+ * background and raises system notifications while the tab isn't focused
+ *
+ * The page writes the settings (feed URL, interval, watches, mutes, acknowledged
+ * incidents) to IndexedDB and
+ * posts "poll" messages; the worker diffs the feed against what it saw last
+ * time with the shared change detection, and notifies through the same rules
+ * as the page. While an app window is open the page already refreshes the
+ * feed (with its breaker and Retry-After handling), so the worker only reads
+ * the snapshot the page saved; it fetches the feed itself only when no window
+ * is open, at most once per refresh interval. It checks on its own timer while
+ * the browser keeps it running, and the page's messages restart it when it
+ * has been stopped.
+ */
+/// <reference lib="webworker" />
+import type {
+  Disruption,
+  NotificationPageMessage,
+  NotificationWorkerConfig,
+  NotificationWorkerMessage,
+  ProxySnapshot,
+} from "../types/disruption";
+import { validateDisruptions } from "../services/disruptionValidation";
+import { CircuitBreaker } from "../services/circuitBreaker";
+import { fetchWithRetry, HttpError } from "../services/httpClient";
+import {
+  loadNotificationWorkerConfig,
+  loadNotificationWorkerState,
+  saveNotificationWorkerState,
+} from "../services/notificationWorkerStore";
+import { loadLastGoodSnapshot } from "../services/snapshotStore";
+import { diffDisruptions } from "../utils/changeDetection";
+import { buildSystemNotifications } from "../utils/systemNotifications";
+import { removeMutedChanges } from "../utils/mutes";
+import { removeAcknowledgedChanges } from "../utils/incidentLog";
+import { removeResolvedChanges } from "../utils/resolvedDisruptions";
+import { TIMING_CONSTANTS } from "../constants/ui";
+
+declare const self: ServiceWorkerGlobalScope;
+
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+// The worker's own fetches (no window open) back off like the page's: they
+// share these settings, and the state lasts as long as the browser keeps the worker
+const breaker = new CircuitBreaker({
+  failureThreshold: TIMING_CONSTANTS.CIRCUIT_FAILURE_THRESHOLD,
+  cooldownMs: TIMING_CONSTANTS.CIRCUIT_COOLDOWN_MS,
+});
+let nextFetchAt = 0;                             // No fetch before this time (refresh interval or Retry-After)
+
+// Disruptions to diff and the time they describe
+interface FeedReading {
+  capturedAt: string;
+  disruptions: Disruption[];
+}
+
+/**
+ * Fetches the feed and returns its validated disruptions
+ * Successful or not, the next fetch waits a refresh interval, or longer when
+ * the feed sent a Retry-After the fetch layer didn't wait out
+ */
+const fetchFeed = async (config: NotificationWorkerConfig): Promise<Disruption[]> => {
+  nextFetchAt = Date.now() + TIMING_CONSTANTS.REFRESH_INTERVAL_MS;
+  try {
+    const response = await fetchWithRetry(config.feedUrl, { cache: "no-store" }, { retries: 1, breaker });
+    const payload: unknown = await response.json();
+    return config.feedFormat === "proxy"
+      ? (payload as ProxySnapshot).disruptions
+      : validateDisruptions(payload).disruptions;
+  } catch (error) {
+    if (error instanceof HttpError && error.retryAfterMs !== null) {
+      nextFetchAt = Math.max(nextFetchAt, Date.now() + error.retryAfterMs);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Reads the feed if it has anything newer than the last check
+ *
+ * With an app window open this is the snapshot the page saved on its last
+ * refresh; otherwise the feed is fetched through the worker's breaker, at
+ * most once per refresh interval and never before a pending Retry-After.
+ *
+ * @param lastCheckedAt - Time the previous reading described, if any
+ * @returns The new reading, or null when there is nothing new to diff
+ */
+const readFeed = async (
+  config: NotificationWorkerConfig,
+  lastCheckedAt: string | null
+): Promise<FeedReading | null> => {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  // Configs saved before the source kind was recorded fall back to fetching
+  if (windows.length > 0 && config.sourceKind) {
+    const snapshot = await loadLastGoodSnapshot(config.sourceKind);
+    if (!snapshot || (lastCheckedAt && snapshot.capturedAt <= lastCheckedAt)) return null;
+    return { capturedAt: snapshot.capturedAt, disruptions: snapshot.disruptions };
+  }
+
+  if (Date.now() < nextFetchAt) return null;
+  if (lastCheckedAt && Date.now() - Date.parse(lastCheckedAt) < TIMING_CONSTANTS.REFRESH_INTERVAL_MS) {
+    return null;
+  }
+  const disruptions = await fetchFeed(config);
+  return { capturedAt: new Date().toISOString(), disruptions };
+};
+
+/**
+ * Checks whether the user is looking at the app right now
+ * In-page alerts already cover that case, so no system notification is needed
+ */
+const isAppFocused = async (): Promise<boolean> => {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  return windows.some(client => client.focused);
+};
+
+/**
+ * Runs one background check and notifies about what changed since the last one
+ * The first check after notifications are turned on only records the feed
+ */
+const checkFeed = async (config: NotificationWorkerConfig): Promise<void> => {
+  const state = await loadNotificationWorkerState();
+  const reading = await readFeed(config, state?.checkedAt ?? null);
+  if (!reading) return;
+
+  const { capturedAt: checkedAt, disruptions } = reading;
+  const changeSet = diffDisruptions(state?.disruptions ?? [], disruptions, {
+    isInitial: !state,
+    detectedAt: checkedAt,
+  });
+  await saveNotificationWorkerState({ checkedAt, disruptions });
+
+  // Resolved disruptions never notify; configs saved before mutes or
+  // acknowledgements existed have no lists
+  const acknowledged = new Map((config.acknowledged ?? []).map(record => [record.disruptionId, record]));
+  const alertable = removeAcknowledgedChanges(
+    removeMutedChanges(removeResolvedChanges(changeSet), config.mutes ?? []),
+    acknowledged
+  );
+  const notifications = buildSystemNotifications(alertable, config.watches);
+  if (notifications.length === 0 || (await isAppFocused())) return;
+
+  await Promise.all(
+    notifications.map(({ tag, title, body, disruptionId }) =>
+      self.registration.showNotification(title, { tag, body, data: { disruptionId } })
+    )
+  );
+};
+
+/**
+ * Checks the feed now and schedules the next check
+ * Failures are logged and retried on the next tick - they never stop the loop
+ */
+const pollAndSchedule = async (): Promise<void> => {
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = null;
+
+  const config = await loadNotificationWorkerConfig();
+  if (!config?.enabled) return;
+
+  try {
+    await checkFeed(config);
+  } catch (error) {
+    console.error("Background disruption check failed:", error);
+  }
+  pollTimer = setTimeout(() => void pollAndSchedule(), config.intervalMs);
+};
+
+self.addEventListener("install", () => {
+  void self.skipWaiting();
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil(pollAndSchedule());
+});
+
+self.addEventListener("message", event => {
+  const message = event.data as NotificationWorkerMessage | undefined;
+  if (message?.type === "poll") event.waitUntil(pollAndSchedule());
+});
+
+// Bring the app to the front and select the disruption the notification was about
+self.addEventListener("notificationclick", event => {
+  event.notification.close();
+  const { disruptionId } = (event.notification.data ?? {}) as { disruptionId?: string };
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      const client = windows[0] ?? (await self.clients.openWindow("/"));
+      if (!client) return;
+      await client.focus();
+      if (disruptionId) {
+        const message: NotificationPageMessage = { type: "select-disruption", disruptionId };
+        client.postMessage(message);
+      }
+    })()
+  );
+});
@@ -2,6 +2,27 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
-})
+  build: {
+    // SSR builds are the Node servers in server/ - they don't need the static assets
+    copyPublicDir: !isSsrBuild,
+    // The notification service worker is its own entry, served from a fixed URL at the site root
+    rollupOptions: isSsrBuild ? undefined : {
+      input: {
+        main: 'index.html',
+        'notification-worker': 'src/workers/notificationWorker.ts',
+      },
+      output: {
+        entryFileNames: (chunk) =>
+          chunk.name === 'notification-worker' ? '[name].js' : 'assets/[name]-[hash].js',
+      },
+    },
+  },
+  server: {
+    // Forward /api to the caching proxy (npm run server) for the "proxy" source
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
+}))